@@ -0,0 +1,743 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  fetchEvalCases,
+  createEvalCase,
+  updateEvalCase,
+  deleteEvalCase,
+  fetchEvalRuns,
+  deleteEvalRun,
+  runEvaluation,
+  NewEvalCase,
+} from '@/services/evaluationService';
+import { compareEvalRuns, STRUCTURE_FIELDS } from '@/lib/evaluationMetrics';
+import {
+  ACTIVE_PROMPT_VERSION,
+  DEFAULT_LLM_CONFIG,
+  EvalCase,
+  EvalRun,
+  EvaluationProvider,
+  IssueCategory,
+} from '@/types/storyTypes';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Loader2, Pencil, Trash2, Play, Eye, ClipboardCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+
+const categoryLabels: Record<IssueCategory, string> = {
+  ambiguity: 'Mehrdeutigkeit',
+  missing_role: 'Fehlende Rolle',
+  missing_goal: 'Fehlendes Ziel',
+  missing_benefit: 'Fehlender Nutzen',
+  vague_language: 'Unklare Sprache',
+  too_broad_scope: 'Zu breiter Umfang',
+  solution_bias: 'Lösungsvorgabe',
+  persona_unclear: 'Unklare Persona',
+  business_value_gap: 'Fehlender Business Value',
+  not_testable: 'Nicht testbar',
+  inconsistency: 'Widerspruch',
+  missing_context: 'Fehlender Kontext',
+  technical_debt: 'Technische Schuld',
+  other: 'Sonstiges',
+};
+
+const ISSUE_CATEGORIES = Object.keys(categoryLabels) as IssueCategory[];
+
+const structureLabels = { role: 'Rolle', goal: 'Ziel', benefit: 'Nutzen' };
+
+interface CaseFormState {
+  id: string | null;
+  name: string;
+  storyText: string;
+  expectedIssueCategories: IssueCategory[];
+  expectedRole: string;
+  expectedGoal: string;
+  expectedBenefit: string;
+  expectedCriteriaCount: string;
+  notes: string;
+}
+
+function toCaseForm(evalCase: EvalCase | null): CaseFormState {
+  return {
+    id: evalCase?.id ?? null,
+    name: evalCase?.name ?? '',
+    storyText: evalCase?.storyText ?? '',
+    expectedIssueCategories: evalCase?.expectedIssueCategories ?? [],
+    expectedRole: evalCase?.expectedRole ?? '',
+    expectedGoal: evalCase?.expectedGoal ?? '',
+    expectedBenefit: evalCase?.expectedBenefit ?? '',
+    expectedCriteriaCount: evalCase?.expectedCriteriaCount?.toString() ?? '',
+    notes: evalCase?.notes ?? '',
+  };
+}
+
+function formatPercent(value: number | null | undefined): string {
+  if (value === null || value === undefined) return '–';
+  return `${Math.round(value * 100)} %`;
+}
+
+function DeltaBadge({ value }: { value: number | null }) {
+  if (value === null) return <span className="text-muted-foreground">–</span>;
+  const points = Math.round(value * 100);
+  if (points === 0) return <span className="text-muted-foreground">±0</span>;
+  return (
+    <span className={points > 0 ? 'text-success font-medium' : 'text-destructive font-medium'}>
+      {points > 0 ? '+' : ''}{points} pp
+    </span>
+  );
+}
+
+export function EvaluationManagement() {
+  const { toast } = useToast();
+  const [cases, setCases] = useState<EvalCase[]>([]);
+  const [runs, setRuns] = useState<EvalRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Case dialog
+  const [caseForm, setCaseForm] = useState<CaseFormState | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Run settings
+  const [runLabel, setRunLabel] = useState('');
+  const [promptVersion, setPromptVersion] = useState(ACTIVE_PROMPT_VERSION);
+  const [provider, setProvider] = useState<EvaluationProvider>('mock');
+  const [modelId, setModelId] = useState(DEFAULT_LLM_CONFIG.modelId);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // Comparison and details
+  const [baseRunId, setBaseRunId] = useState<string>('');
+  const [candidateRunId, setCandidateRunId] = useState<string>('');
+  const [detailRun, setDetailRun] = useState<EvalRun | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setIsLoading(true);
+    const [caseData, runData] = await Promise.all([fetchEvalCases(), fetchEvalRuns()]);
+    setCases(caseData);
+    setRuns(runData);
+    setIsLoading(false);
+
+    // Compare the two latest runs by default
+    if (runData.length >= 2) {
+      setBaseRunId(current => current || runData[1].id);
+      setCandidateRunId(current => current || runData[0].id);
+    }
+  };
+
+  const handleSaveCase = async () => {
+    if (!caseForm || !caseForm.name.trim() || !caseForm.storyText.trim()) return;
+
+    const criteriaCount = caseForm.expectedCriteriaCount.trim();
+    if (criteriaCount && !/^\d+$/.test(criteriaCount)) {
+      toast({ title: 'Ungültige Anzahl', description: 'Die Anzahl der Kriterien muss eine ganze Zahl sein.', variant: 'destructive' });
+      return;
+    }
+
+    const evalCase: NewEvalCase = {
+      name: caseForm.name.trim(),
+      storyText: caseForm.storyText.trim(),
+      expectedIssueCategories: caseForm.expectedIssueCategories,
+      expectedRole: caseForm.expectedRole.trim() || undefined,
+      expectedGoal: caseForm.expectedGoal.trim() || undefined,
+      expectedBenefit: caseForm.expectedBenefit.trim() || undefined,
+      expectedCriteriaCount: criteriaCount ? Number(criteriaCount) : undefined,
+      notes: caseForm.notes.trim() || undefined,
+    };
+
+    setIsSaving(true);
+    const success = caseForm.id
+      ? await updateEvalCase(caseForm.id, evalCase)
+      : !!(await createEvalCase(evalCase));
+    setIsSaving(false);
+
+    if (success) {
+      toast({ title: caseForm.id ? 'Testfall aktualisiert' : 'Testfall angelegt' });
+      setCaseForm(null);
+      loadData();
+    } else {
+      toast({ title: 'Fehler beim Speichern', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteCase = async (evalCase: EvalCase) => {
+    const success = await deleteEvalCase(evalCase.id);
+    if (success) {
+      toast({ title: 'Testfall gelöscht' });
+      loadData();
+    } else {
+      toast({ title: 'Fehler beim Löschen', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteRun = async (run: EvalRun) => {
+    const success = await deleteEvalRun(run.id);
+    if (success) {
+      toast({ title: 'Lauf gelöscht' });
+      if (baseRunId === run.id) setBaseRunId('');
+      if (candidateRunId === run.id) setCandidateRunId('');
+      loadData();
+    } else {
+      toast({ title: 'Fehler beim Löschen', variant: 'destructive' });
+    }
+  };
+
+  const handleRun = async () => {
+    if (cases.length === 0 || !promptVersion.trim()) return;
+
+    setProgress({ done: 0, total: cases.length });
+    const run = await runEvaluation(
+      cases,
+      {
+        label: runLabel.trim() || `${promptVersion.trim()} · ${provider === 'mock' ? 'Mock' : modelId.trim() || 'Standardmodell'}`,
+        promptVersion: promptVersion.trim(),
+        provider,
+        runtimeConfig: { ...DEFAULT_LLM_CONFIG, modelId: modelId.trim() },
+      },
+      (done, total) => setProgress({ done, total })
+    );
+    setProgress(null);
+
+    if (run) {
+      toast({
+        title: 'Evaluation abgeschlossen',
+        description: run.failedCount > 0 ? `${run.failedCount} von ${run.caseCount} Fällen fehlgeschlagen` : undefined,
+      });
+      setRunLabel('');
+      // The new run becomes the candidate, the previous candidate the base
+      if (candidateRunId) setBaseRunId(candidateRunId);
+      setCandidateRunId(run.id);
+      loadData();
+    } else {
+      toast({ title: 'Fehler beim Speichern des Laufs', variant: 'destructive' });
+    }
+  };
+
+  const comparison = useMemo(() => {
+    const base = runs.find(r => r.id === baseRunId);
+    const candidate = runs.find(r => r.id === candidateRunId);
+    if (!base || !candidate || base.id === candidate.id) return null;
+    return compareEvalRuns(base, candidate);
+  }, [runs, baseRunId, candidateRunId]);
+
+  const toggleExpectedCategory = (category: IssueCategory, checked: boolean) => {
+    if (!caseForm) return;
+    setCaseForm({
+      ...caseForm,
+      expectedIssueCategories: checked
+        ? [...caseForm.expectedIssueCategories, category]
+        : caseForm.expectedIssueCategories.filter(c => c !== category),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Golden Dataset */}
+        <Card className="lg:col-span-1">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-lg">Golden Dataset</CardTitle>
+                <CardDescription>{cases.length} gelabelte Stories</CardDescription>
+              </div>
+              <Button size="sm" onClick={() => setCaseForm(toCaseForm(null))}>
+                <Plus className="h-4 w-4 mr-1" />
+                Neu
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {cases.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <ClipboardCheck className="h-12 w-12 mx-auto mb-4 opacity-30" />
+                <p>Keine Testfälle</p>
+              </div>
+            ) : (
+              <ScrollArea className="max-h-[420px]">
+                <div className="space-y-2 pr-3">
+                  {cases.map((evalCase) => (
+                    <div key={evalCase.id} className="flex items-center gap-2 p-3 rounded-lg border">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{evalCase.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {evalCase.expectedIssueCategories.length > 0
+                            ? evalCase.expectedIssueCategories.map(c => categoryLabels[c]).join(', ')
+                            : 'Keine Issues erwartet'}
+                        </p>
+                      </div>
+                      <Button variant="ghost" size="icon" onClick={() => setCaseForm(toCaseForm(evalCase))} title="Bearbeiten">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDeleteCase(evalCase)} title="Löschen">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Runs */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg">Evaluationsläufe</CardTitle>
+            <CardDescription>
+              Spielt das Dataset durch die komplette Pipeline und bewertet Issues, Struktur und Kriterien
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="eval-label">Bezeichnung</Label>
+                <Input
+                  id="eval-label"
+                  value={runLabel}
+                  onChange={(e) => setRunLabel(e.target.value)}
+                  placeholder="optional"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="eval-version">Prompt-Version</Label>
+                <Input
+                  id="eval-version"
+                  value={promptVersion}
+                  onChange={(e) => setPromptVersion(e.target.value)}
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Provider</Label>
+                <Select value={provider} onValueChange={(value) => setProvider(value as EvaluationProvider)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="mock">Mock (deterministisch)</SelectItem>
+                    <SelectItem value="configured">Konfigurierter Provider</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="eval-model">Modell</Label>
+                <Input
+                  id="eval-model"
+                  value={provider === 'mock' ? 'mock-deterministic' : modelId}
+                  onChange={(e) => setModelId(e.target.value)}
+                  placeholder="Konfiguriertes Modell"
+                  disabled={provider === 'mock'}
+                  className="font-mono"
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-4">
+              <Button onClick={handleRun} disabled={!!progress || cases.length === 0 || !promptVersion.trim()}>
+                {progress ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                Evaluation starten
+              </Button>
+              {progress && (
+                <div className="flex-1 flex items-center gap-3">
+                  <Progress value={(progress.done / progress.total) * 100} className="flex-1" />
+                  <span className="text-sm text-muted-foreground whitespace-nowrap">
+                    {progress.done} / {progress.total}
+                  </span>
+                </div>
+              )}
+            </div>
+
+            {runs.length === 0 ? (
+              <p className="text-center py-6 text-muted-foreground text-sm">Noch keine Läufe</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Lauf</TableHead>
+                    <TableHead>Version</TableHead>
+                    <TableHead className="text-right">Precision</TableHead>
+                    <TableHead className="text-right">Recall</TableHead>
+                    <TableHead className="text-right">Struktur</TableHead>
+                    <TableHead className="text-right">Kriterien exakt</TableHead>
+                    <TableHead className="text-right">Aktionen</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map((run) => (
+                    <TableRow key={run.id}>
+                      <TableCell>
+                        <p className="font-medium">{run.label}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(run.createdAt), 'dd.MM.yyyy HH:mm', { locale: de })} · {run.model}
+                          {run.failedCount > 0 && ` · ${run.failedCount} fehlgeschlagen`}
+                        </p>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{run.promptVersion}</TableCell>
+                      <TableCell className="text-right">{formatPercent(run.metrics.microPrecision)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(run.metrics.microRecall)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(run.metrics.structureAccuracy)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(run.metrics.criteriaCountExactRate)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="icon" onClick={() => setDetailRun(run)} title="Details">
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => handleDeleteRun(run)} title="Löschen">
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Comparison */}
+      {runs.length >= 2 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Vergleich</CardTitle>
+            <CardDescription>Differenzen in Prozentpunkten, Kandidat gegenüber Basis</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Basis</Label>
+                <Select value={baseRunId} onValueChange={setBaseRunId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Lauf wählen" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {runs.map(run => (
+                      <SelectItem key={run.id} value={run.id}>{run.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Kandidat</Label>
+                <Select value={candidateRunId} onValueChange={setCandidateRunId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Lauf wählen" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {runs.map(run => (
+                      <SelectItem key={run.id} value={run.id}>{run.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {!comparison ? (
+              <p className="text-center py-6 text-muted-foreground text-sm">Bitte wählen Sie zwei verschiedene Läufe</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {[
+                    { label: 'Precision', value: comparison.microPrecisionDelta },
+                    { label: 'Recall', value: comparison.microRecallDelta },
+                    { label: 'Struktur', value: comparison.structureAccuracyDelta },
+                    { label: 'Kriterien exakt', value: comparison.criteriaCountExactRateDelta },
+                  ].map(({ label, value }) => (
+                    <div key={label} className="rounded-lg border p-3">
+                      <p className="text-xs text-muted-foreground">{label}</p>
+                      <p className="text-lg"><DeltaBadge value={value} /></p>
+                    </div>
+                  ))}
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Kategorie</TableHead>
+                      <TableHead className="text-right">Precision Basis</TableHead>
+                      <TableHead className="text-right">Precision Kandidat</TableHead>
+                      <TableHead className="text-right">Δ</TableHead>
+                      <TableHead className="text-right">Recall Basis</TableHead>
+                      <TableHead className="text-right">Recall Kandidat</TableHead>
+                      <TableHead className="text-right">Δ</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {comparison.categories.map((row) => (
+                      <TableRow key={row.category}>
+                        <TableCell>{categoryLabels[row.category] || row.category}</TableCell>
+                        <TableCell className="text-right">{formatPercent(row.base?.precision)}</TableCell>
+                        <TableCell className="text-right">{formatPercent(row.candidate?.precision)}</TableCell>
+                        <TableCell className="text-right"><DeltaBadge value={row.precisionDelta} /></TableCell>
+                        <TableCell className="text-right">{formatPercent(row.base?.recall)}</TableCell>
+                        <TableCell className="text-right">{formatPercent(row.candidate?.recall)}</TableCell>
+                        <TableCell className="text-right"><DeltaBadge value={row.recallDelta} /></TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {comparison.cases.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Veränderte Testfälle</p>
+                    {comparison.cases.map((change) => (
+                      <div key={change.caseId} className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="font-medium">{change.caseName}:</span>
+                        {change.fixed.map(c => (
+                          <Badge key={`fixed-${c}`} variant="outline" className="border-success text-success">
+                            {categoryLabels[c] || c}
+                          </Badge>
+                        ))}
+                        {change.regressed.map(c => (
+                          <Badge key={`regressed-${c}`} variant="outline" className="border-destructive text-destructive">
+                            {categoryLabels[c] || c}
+                          </Badge>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Case Dialog */}
+      <Dialog open={!!caseForm} onOpenChange={(open) => !open && setCaseForm(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh]">
+          <DialogHeader>
+            <DialogTitle>{caseForm?.id ? 'Testfall bearbeiten' : 'Neuer Testfall'}</DialogTitle>
+            <DialogDescription>
+              Nur ausgefüllte Erwartungen fließen in die Bewertung ein.
+            </DialogDescription>
+          </DialogHeader>
+          {caseForm && (
+            <ScrollArea className="max-h-[65vh]">
+              <div className="space-y-4 pr-4">
+                <div className="space-y-2">
+                  <Label htmlFor="case-name">Name</Label>
+                  <Input
+                    id="case-name"
+                    value={caseForm.name}
+                    onChange={(e) => setCaseForm({ ...caseForm, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="case-story">User Story</Label>
+                  <Textarea
+                    id="case-story"
+                    value={caseForm.storyText}
+                    onChange={(e) => setCaseForm({ ...caseForm, storyText: e.target.value })}
+                    className="min-h-[100px]"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Erwartete Issue-Kategorien</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {ISSUE_CATEGORIES.map(category => (
+                      <label key={category} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={caseForm.expectedIssueCategories.includes(category)}
+                          onCheckedChange={(checked) => toggleExpectedCategory(category, checked === true)}
+                        />
+                        {categoryLabels[category]}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="case-role">Erwartete Rolle</Label>
+                    <Input
+                      id="case-role"
+                      value={caseForm.expectedRole}
+                      onChange={(e) => setCaseForm({ ...caseForm, expectedRole: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="case-goal">Erwartetes Ziel</Label>
+                    <Input
+                      id="case-goal"
+                      value={caseForm.expectedGoal}
+                      onChange={(e) => setCaseForm({ ...caseForm, expectedGoal: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="case-benefit">Erwarteter Nutzen</Label>
+                    <Input
+                      id="case-benefit"
+                      value={caseForm.expectedBenefit}
+                      onChange={(e) => setCaseForm({ ...caseForm, expectedBenefit: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="case-criteria">Erwartete Anzahl Akzeptanzkriterien</Label>
+                  <Input
+                    id="case-criteria"
+                    type="number"
+                    min={0}
+                    value={caseForm.expectedCriteriaCount}
+                    onChange={(e) => setCaseForm({ ...caseForm, expectedCriteriaCount: e.target.value })}
+                    className="max-w-[120px]"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="case-notes">Notizen</Label>
+                  <Textarea
+                    id="case-notes"
+                    value={caseForm.notes}
+                    onChange={(e) => setCaseForm({ ...caseForm, notes: e.target.value })}
+                  />
+                </div>
+              </div>
+            </ScrollArea>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCaseForm(null)}>
+              Abbrechen
+            </Button>
+            <Button
+              onClick={handleSaveCase}
+              disabled={!caseForm?.name.trim() || !caseForm?.storyText.trim() || isSaving}
+            >
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Speichern
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Run Details Dialog */}
+      <Dialog open={!!detailRun} onOpenChange={(open) => !open && setDetailRun(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh]">
+          <DialogHeader>
+            <DialogTitle>{detailRun?.label}</DialogTitle>
+            <DialogDescription>
+              {detailRun && (
+                <>
+                  Version {detailRun.promptVersion} · {detailRun.model} ·{' '}
+                  {detailRun.provider === 'mock' ? 'Mock' : 'Konfigurierter Provider'} · {detailRun.caseCount} Fälle
+                  {detailRun.metrics.criteriaCountMeanAbsError !== null &&
+                    ` · Kriterien Ø Abweichung ${detailRun.metrics.criteriaCountMeanAbsError.toFixed(1)}`}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          {detailRun && (
+            <ScrollArea className="max-h-[65vh]">
+              <div className="space-y-6 pr-4">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Kategorie</TableHead>
+                      <TableHead className="text-right">TP</TableHead>
+                      <TableHead className="text-right">FP</TableHead>
+                      <TableHead className="text-right">FN</TableHead>
+                      <TableHead className="text-right">Precision</TableHead>
+                      <TableHead className="text-right">Recall</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {(Object.entries(detailRun.metrics.categories) as [IssueCategory, NonNullable<EvalRun['metrics']['categories'][IssueCategory]>][])
+                      .map(([category, metrics]) => (
+                        <TableRow key={category}>
+                          <TableCell>{categoryLabels[category] || category}</TableCell>
+                          <TableCell className="text-right">{metrics.truePositives}</TableCell>
+                          <TableCell className="text-right">{metrics.falsePositives}</TableCell>
+                          <TableCell className="text-right">{metrics.falseNegatives}</TableCell>
+                          <TableCell className="text-right">{formatPercent(metrics.precision)}</TableCell>
+                          <TableCell className="text-right">{formatPercent(metrics.recall)}</TableCell>
+                        </TableRow>
+                      ))}
+                  </TableBody>
+                </Table>
+
+                <div className="space-y-3">
+                  {detailRun.caseResults.map((result) => (
+                    <div key={result.caseId} className="rounded-lg border p-3 space-y-2 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{result.caseName}</span>
+                        {result.status === 'failed' ? (
+                          <Badge variant="destructive">Fehlgeschlagen</Badge>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">{(result.duration / 1000).toFixed(1)}s</span>
+                        )}
+                      </div>
+                      {result.status === 'failed' ? (
+                        <p className="text-destructive text-xs">{result.error}</p>
+                      ) : (
+                        <>
+                          <div className="flex flex-wrap gap-1">
+                            {[...new Set([...result.expectedCategories, ...result.predictedCategories])].map(c => {
+                              const expected = result.expectedCategories.includes(c);
+                              const predicted = result.predictedCategories.includes(c);
+                              return (
+                                <Badge
+                                  key={c}
+                                  variant="outline"
+                                  className={expected && predicted ? 'border-success text-success' : 'border-destructive text-destructive'}
+                                  title={expected && predicted ? 'Erkannt' : expected ? 'Nicht erkannt' : 'Falsch erkannt'}
+                                >
+                                  {categoryLabels[c] || c}
+                                  {!expected && ' (FP)'}
+                                  {!predicted && ' (FN)'}
+                                </Badge>
+                              );
+                            })}
+                          </div>
+                          {STRUCTURE_FIELDS.some(f => result.structureMatches[f] !== undefined) && (
+                            <p className="text-xs text-muted-foreground">
+                              {STRUCTURE_FIELDS.filter(f => result.structureMatches[f] !== undefined).map(f => (
+                                <span key={f} className={`mr-3 ${result.structureMatches[f] ? 'text-success' : 'text-destructive'}`}>
+                                  {structureLabels[f]}: {result.extracted?.[f] || '–'}
+                                </span>
+                              ))}
+                            </p>
+                          )}
+                          {result.expectedCriteriaCount !== undefined && (
+                            <p className="text-xs text-muted-foreground">
+                              Kriterien: {result.criteriaCount ?? '–'} (erwartet {result.expectedCriteriaCount})
+                            </p>
+                          )}
+                          {result.failedStages.length > 0 && (
+                            <p className="text-xs text-warning">
+                              Fehlgeschlagene Stages: {result.failedStages.join(', ')}
+                            </p>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
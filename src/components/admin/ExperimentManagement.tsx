@@ -0,0 +1,422 @@
+import { useState, useEffect } from 'react';
+import {
+  fetchExperiments,
+  createExperiment,
+  stopExperiment,
+  fetchExperimentResults,
+  PromptExperiment,
+  ExperimentVariantResult,
+} from '@/services/experimentService';
+import { fetchPromptTemplates } from '@/services/promptTemplateService';
+import { PROMPT_STAGES, PROMPT_STAGE_LABELS, PromptStage } from '@/types/storyTypes';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Loader2, FlaskConical, ChevronRight, Square } from 'lucide-react';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+
+// The built-in prompt is always available as a variant
+const BUILT_IN_VERSION = 'v1';
+
+interface NewExperimentState {
+  name: string;
+  stage: PromptStage;
+  variantA: string;
+  variantB: string;
+  trafficPercentB: string;
+}
+
+const EMPTY_EXPERIMENT: NewExperimentState = {
+  name: '',
+  stage: 'ambiguity_analysis',
+  variantA: '',
+  variantB: '',
+  trafficPercentB: '50',
+};
+
+function formatRate(count: number, calls: number): string {
+  if (calls === 0) return '–';
+  return `${((count / calls) * 100).toFixed(1)} %`;
+}
+
+export function ExperimentManagement() {
+  const { toast } = useToast();
+  const [experiments, setExperiments] = useState<PromptExperiment[]>([]);
+  const [selectedExperiment, setSelectedExperiment] = useState<PromptExperiment | null>(null);
+  const [results, setResults] = useState<ExperimentVariantResult[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingResults, setIsLoadingResults] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  // Create dialog
+  const [newExperiment, setNewExperiment] = useState<NewExperimentState | null>(null);
+  const [availableVersions, setAvailableVersions] = useState<string[]>([BUILT_IN_VERSION]);
+
+  useEffect(() => {
+    loadExperiments();
+  }, []);
+
+  useEffect(() => {
+    if (selectedExperiment) {
+      loadResults(selectedExperiment.id);
+    } else {
+      setResults([]);
+    }
+  }, [selectedExperiment]);
+
+  const dialogStage = newExperiment?.stage;
+  useEffect(() => {
+    if (!dialogStage) return;
+    fetchPromptTemplates(dialogStage).then(templates => {
+      setAvailableVersions([...new Set([BUILT_IN_VERSION, ...templates.map(t => t.version)])]);
+    });
+  }, [dialogStage]);
+
+  const loadExperiments = async () => {
+    setIsLoading(true);
+    const data = await fetchExperiments();
+    setExperiments(data);
+    setIsLoading(false);
+
+    // Keep the selection in sync with the reloaded list
+    setSelectedExperiment(current => (current ? data.find(e => e.id === current.id) || null : data[0] || null));
+  };
+
+  const loadResults = async (experimentId: string) => {
+    setIsLoadingResults(true);
+    const data = await fetchExperimentResults(experimentId);
+    setResults(data);
+    setIsLoadingResults(false);
+  };
+
+  const handleCreate = async () => {
+    if (!newExperiment || !newExperiment.name.trim() || !newExperiment.variantA || !newExperiment.variantB) return;
+
+    if (newExperiment.variantA === newExperiment.variantB) {
+      toast({ title: 'Gleiche Versionen', description: 'Bitte wählen Sie zwei unterschiedliche Versionen.', variant: 'destructive' });
+      return;
+    }
+
+    const percent = Number(newExperiment.trafficPercentB);
+    if (!Number.isInteger(percent) || percent < 0 || percent > 100) {
+      toast({ title: 'Ungültiger Anteil', description: 'Der Anteil für Variante B muss zwischen 0 und 100 liegen.', variant: 'destructive' });
+      return;
+    }
+
+    if (experiments.some(e => e.status === 'running' && e.stage === newExperiment.stage)) {
+      toast({ title: 'Experiment läuft bereits', description: 'Bitte stoppen Sie zuerst das laufende Experiment dieser Stage.', variant: 'destructive' });
+      return;
+    }
+
+    setIsUpdating(true);
+    const created = await createExperiment({
+      name: newExperiment.name.trim(),
+      stage: newExperiment.stage,
+      variant_a_version: newExperiment.variantA,
+      variant_b_version: newExperiment.variantB,
+      traffic_percent_b: percent,
+    });
+    setIsUpdating(false);
+
+    if (created) {
+      toast({ title: 'Experiment gestartet' });
+      setNewExperiment(null);
+      setSelectedExperiment(created);
+      loadExperiments();
+    } else {
+      toast({ title: 'Fehler beim Starten', variant: 'destructive' });
+    }
+  };
+
+  const handleStop = async (experiment: PromptExperiment) => {
+    setIsUpdating(true);
+    const success = await stopExperiment(experiment.id);
+    setIsUpdating(false);
+
+    if (success) {
+      toast({ title: 'Experiment gestoppt' });
+      loadExperiments();
+    } else {
+      toast({ title: 'Fehler beim Stoppen', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Experiment List */}
+      <Card className="lg:col-span-1">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-lg">Experimente</CardTitle>
+              <CardDescription>A/B-Tests zwischen Prompt-Versionen</CardDescription>
+            </div>
+            <Button size="sm" onClick={() => setNewExperiment({ ...EMPTY_EXPERIMENT })}>
+              <Plus className="h-4 w-4 mr-1" />
+              Neu
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : experiments.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <FlaskConical className="h-12 w-12 mx-auto mb-4 opacity-30" />
+              <p>Keine Experimente</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {experiments.map((experiment) => (
+                <div
+                  key={experiment.id}
+                  className={`flex items-center gap-2 p-3 rounded-lg cursor-pointer transition-colors ${
+                    selectedExperiment?.id === experiment.id
+                      ? 'bg-primary/10 border border-primary/20'
+                      : 'hover:bg-muted/50'
+                  }`}
+                  onClick={() => setSelectedExperiment(experiment)}
+                >
+                  <FlaskConical className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{experiment.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {PROMPT_STAGE_LABELS[experiment.stage]}
+                    </p>
+                  </div>
+                  {experiment.status === 'running' ? (
+                    <Badge variant="default" className="bg-success text-success-foreground">Läuft</Badge>
+                  ) : (
+                    <Badge variant="secondary">Gestoppt</Badge>
+                  )}
+                  {selectedExperiment?.id === experiment.id && (
+                    <ChevronRight className="h-4 w-4 text-primary" />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Variant Comparison */}
+      <Card className="lg:col-span-2">
+        {selectedExperiment ? (
+          <>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-lg">{selectedExperiment.name}</CardTitle>
+                  <CardDescription>
+                    {PROMPT_STAGE_LABELS[selectedExperiment.stage]} · {100 - selectedExperiment.traffic_percent_b} % A / {selectedExperiment.traffic_percent_b} % B · seit{' '}
+                    {format(new Date(selectedExperiment.started_at), 'dd.MM.yyyy HH:mm', { locale: de })}
+                    {selectedExperiment.ended_at &&
+                      ` bis ${format(new Date(selectedExperiment.ended_at), 'dd.MM.yyyy HH:mm', { locale: de })}`}
+                  </CardDescription>
+                </div>
+                {selectedExperiment.status === 'running' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleStop(selectedExperiment)}
+                    disabled={isUpdating}
+                  >
+                    <Square className="h-4 w-4 mr-1" />
+                    Stoppen
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoadingResults ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                </div>
+              ) : results.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  <p>Noch keine Aufrufe</p>
+                  <p className="text-xs mt-1">
+                    Ergebnisse erscheinen, sobald Analysen über das Experiment laufen
+                  </p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Variante</TableHead>
+                      <TableHead className="text-right">Aufrufe</TableHead>
+                      <TableHead className="text-right">Fehler</TableHead>
+                      <TableHead className="text-right">Ø Latenz</TableHead>
+                      <TableHead className="text-right">Kosten</TableHead>
+                      <TableHead className="text-right">Relevante Issues</TableHead>
+                      <TableHead className="text-right">Rewrites übernommen</TableHead>
+                      <TableHead className="text-right">Kriterien abgelehnt</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.map((result) => (
+                      <TableRow key={result.variant}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline">{result.variant}</Badge>
+                            <span className="font-mono text-sm">{result.prompt_version}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{result.call_count}</TableCell>
+                        <TableCell className="text-right">
+                          {result.failed_count}
+                          <span className="block text-xs text-muted-foreground">
+                            {formatRate(result.failed_count, result.call_count)}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {result.avg_latency_ms !== null ? `${Math.round(result.avg_latency_ms)} ms` : '–'}
+                        </TableCell>
+                        <TableCell className="text-right">${result.estimated_cost.toFixed(4)}</TableCell>
+                        <TableCell className="text-right">
+                          {result.issues_marked_relevant}
+                          <span className="block text-xs text-muted-foreground">
+                            {formatRate(result.issues_marked_relevant, result.call_count)} je Aufruf
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {result.rewrites_accepted}
+                          <span className="block text-xs text-muted-foreground">
+                            {formatRate(result.rewrites_accepted, result.call_count)} je Aufruf
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {result.criteria_rejected}
+                          <span className="block text-xs text-muted-foreground">
+                            {formatRate(result.criteria_rejected, result.call_count)} je Aufruf
+                          </span>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </>
+        ) : (
+          <CardContent className="flex items-center justify-center h-full min-h-[300px]">
+            <div className="text-center text-muted-foreground">
+              <FlaskConical className="h-12 w-12 mx-auto mb-4 opacity-30" />
+              <p>Wählen Sie ein Experiment aus</p>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={!!newExperiment} onOpenChange={(open) => !open && setNewExperiment(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Neues Experiment</DialogTitle>
+            <DialogDescription>
+              Teilt die Anfragen einer Stage zwischen zwei Prompt-Versionen auf. Eine Story erhält immer dieselbe Variante.
+            </DialogDescription>
+          </DialogHeader>
+          {newExperiment && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="experiment-name">Name</Label>
+                <Input
+                  id="experiment-name"
+                  value={newExperiment.name}
+                  onChange={(e) => setNewExperiment({ ...newExperiment, name: e.target.value })}
+                  placeholder="z.B. Kürzere Ambiguitäts-Regeln"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Stage</Label>
+                <Select
+                  value={newExperiment.stage}
+                  onValueChange={(stage) =>
+                    setNewExperiment({ ...newExperiment, stage: stage as PromptStage, variantA: '', variantB: '' })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROMPT_STAGES.map(stage => (
+                      <SelectItem key={stage} value={stage}>{PROMPT_STAGE_LABELS[stage]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Variante A</Label>
+                  <Select
+                    value={newExperiment.variantA}
+                    onValueChange={(variantA) => setNewExperiment({ ...newExperiment, variantA })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Version wählen" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableVersions.map(version => (
+                        <SelectItem key={version} value={version} className="font-mono">{version}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Variante B</Label>
+                  <Select
+                    value={newExperiment.variantB}
+                    onValueChange={(variantB) => setNewExperiment({ ...newExperiment, variantB })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Version wählen" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableVersions.map(version => (
+                        <SelectItem key={version} value={version} className="font-mono">{version}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="experiment-traffic">Anteil Variante B (%)</Label>
+                <Input
+                  id="experiment-traffic"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={newExperiment.trafficPercentB}
+                  onChange={(e) => setNewExperiment({ ...newExperiment, trafficPercentB: e.target.value })}
+                  className="max-w-[120px]"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNewExperiment(null)}>
+              Abbrechen
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={!newExperiment?.name.trim() || !newExperiment?.variantA || !newExperiment?.variantB || isUpdating}
+            >
+              {isUpdating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Starten
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
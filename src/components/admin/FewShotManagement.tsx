@@ -0,0 +1,400 @@
+import { useState, useEffect } from 'react';
+import {
+  fetchFewShotExamples,
+  createFewShotExample,
+  updateFewShotExample,
+  setFewShotExampleActive,
+  deleteFewShotExample,
+  NewFewShotExample,
+} from '@/services/fewShotService';
+import { fetchProjects, Project } from '@/services/projectService';
+import {
+  EXAMPLE_LANGUAGE_LABELS,
+  ExampleLanguage,
+  LibraryFewShotExample,
+  PROMPT_STAGES,
+  PROMPT_STAGE_LABELS,
+  PromptStage,
+} from '@/types/storyTypes';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Loader2, Pencil, Trash2, ChevronRight, Library } from 'lucide-react';
+
+// Select values for examples without a project and for "no filter"
+const GLOBAL_SCOPE = 'global';
+const ALL_SCOPES = 'all';
+
+const EXAMPLE_LANGUAGES = Object.keys(EXAMPLE_LANGUAGE_LABELS) as ExampleLanguage[];
+
+// Same estimate as llm-proxy uses for the token budget
+function estimateTokens(example: Pick<LibraryFewShotExample, 'input' | 'expectedOutput' | 'explanation'>): number {
+  return Math.ceil((example.input.length + example.expectedOutput.length + (example.explanation?.length ?? 0) + 40) / 4);
+}
+
+interface ExampleFormState {
+  id: string | null;
+  language: ExampleLanguage;
+  scope: string;
+  input: string;
+  expectedOutput: string;
+  explanation: string;
+  tags: string;
+  isActive: boolean;
+}
+
+function toExampleForm(example: LibraryFewShotExample | null, scope: string): ExampleFormState {
+  return {
+    id: example?.id ?? null,
+    language: example?.language ?? 'de',
+    scope: example ? example.projectId ?? GLOBAL_SCOPE : scope === ALL_SCOPES ? GLOBAL_SCOPE : scope,
+    input: example?.input ?? '',
+    expectedOutput: example?.expectedOutput ?? '',
+    explanation: example?.explanation ?? '',
+    tags: example?.tags.join(', ') ?? '',
+    isActive: example?.isActive ?? true,
+  };
+}
+
+export function FewShotManagement() {
+  const { toast } = useToast();
+  const [selectedStage, setSelectedStage] = useState<PromptStage>('ambiguity_analysis');
+  const [examples, setExamples] = useState<LibraryFewShotExample[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [scopeFilter, setScopeFilter] = useState<string>(ALL_SCOPES);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Example dialog
+  const [exampleForm, setExampleForm] = useState<ExampleFormState | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchProjects().then(setProjects);
+  }, []);
+
+  useEffect(() => {
+    loadExamples(selectedStage);
+  }, [selectedStage]);
+
+  const loadExamples = async (stage: PromptStage) => {
+    setIsLoading(true);
+    const data = await fetchFewShotExamples(stage);
+    setExamples(data);
+    setIsLoading(false);
+  };
+
+  const projectName = (projectId: string | null) =>
+    projectId ? projects.find(p => p.id === projectId)?.name ?? 'Unbekanntes Projekt' : 'Global';
+
+  const visibleExamples = examples.filter(e =>
+    scopeFilter === ALL_SCOPES || (e.projectId ?? GLOBAL_SCOPE) === scopeFilter
+  );
+
+  const handleSave = async () => {
+    if (!exampleForm || !exampleForm.input.trim() || !exampleForm.expectedOutput.trim()) return;
+
+    const example: NewFewShotExample = {
+      stage: selectedStage,
+      language: exampleForm.language,
+      projectId: exampleForm.scope === GLOBAL_SCOPE ? null : exampleForm.scope,
+      input: exampleForm.input.trim(),
+      expectedOutput: exampleForm.expectedOutput.trim(),
+      explanation: exampleForm.explanation.trim() || undefined,
+      tags: exampleForm.tags.split(',').map(t => t.trim().toLowerCase()).filter(Boolean),
+      isActive: exampleForm.isActive,
+    };
+
+    setIsSaving(true);
+    const success = exampleForm.id
+      ? await updateFewShotExample(exampleForm.id, example)
+      : !!(await createFewShotExample(example));
+    setIsSaving(false);
+
+    if (success) {
+      toast({ title: exampleForm.id ? 'Beispiel aktualisiert' : 'Beispiel angelegt' });
+      setExampleForm(null);
+      loadExamples(selectedStage);
+    } else {
+      toast({ title: 'Fehler beim Speichern', variant: 'destructive' });
+    }
+  };
+
+  const handleToggleActive = async (example: LibraryFewShotExample, isActive: boolean) => {
+    const success = await setFewShotExampleActive(example.id, isActive);
+    if (success) {
+      setExamples(current => current.map(e => (e.id === example.id ? { ...e, isActive } : e)));
+    } else {
+      toast({ title: 'Fehler beim Aktualisieren', variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (example: LibraryFewShotExample) => {
+    const success = await deleteFewShotExample(example.id);
+    if (success) {
+      toast({ title: 'Beispiel gelöscht' });
+      loadExamples(selectedStage);
+    } else {
+      toast({ title: 'Fehler beim Löschen', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Stage List */}
+      <Card className="lg:col-span-1">
+        <CardHeader>
+          <CardTitle className="text-lg">Stages</CardTitle>
+          <CardDescription>Beispiele je Analyse-Schritt</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {PROMPT_STAGES.map((stage) => (
+              <div
+                key={stage}
+                className={`flex items-center gap-2 p-3 rounded-lg cursor-pointer transition-colors ${
+                  selectedStage === stage
+                    ? 'bg-primary/10 border border-primary/20'
+                    : 'hover:bg-muted/50'
+                }`}
+                onClick={() => setSelectedStage(stage)}
+              >
+                <Library className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{PROMPT_STAGE_LABELS[stage]}</p>
+                  <p className="text-xs text-muted-foreground truncate font-mono">{stage}</p>
+                </div>
+                {selectedStage === stage && (
+                  <ChevronRight className="h-4 w-4 text-primary" />
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Examples */}
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle className="text-lg">{PROMPT_STAGE_LABELS[selectedStage]}</CardTitle>
+              <CardDescription>
+                Pro Aufruf wählt der Proxy die zur Story passendsten Beispiele aus Projekt und globalen Vorgaben,
+                bis das Token-Budget erreicht ist. Ohne globale Beispiele gelten die eingebauten.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={scopeFilter} onValueChange={setScopeFilter}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SCOPES}>Alle Beispiele</SelectItem>
+                  <SelectItem value={GLOBAL_SCOPE}>Global</SelectItem>
+                  {projects.map(project => (
+                    <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" onClick={() => setExampleForm(toExampleForm(null, scopeFilter))}>
+                <Plus className="h-4 w-4 mr-1" />
+                Neu
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : visibleExamples.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Library className="h-12 w-12 mx-auto mb-4 opacity-30" />
+              <p>Keine Beispiele</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Eingabe</TableHead>
+                  <TableHead>Gilt für</TableHead>
+                  <TableHead>Sprache</TableHead>
+                  <TableHead className="text-right">~Tokens</TableHead>
+                  <TableHead>Aktiv</TableHead>
+                  <TableHead className="w-[90px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleExamples.map((example) => (
+                  <TableRow key={example.id}>
+                    <TableCell className="max-w-[280px]">
+                      <p className="text-sm truncate" title={example.input}>{example.input}</p>
+                      {example.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {example.tags.map(tag => (
+                            <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={example.projectId ? 'secondary' : 'outline'}>
+                        {projectName(example.projectId)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{EXAMPLE_LANGUAGE_LABELS[example.language]}</TableCell>
+                    <TableCell className="text-right font-mono text-sm">{estimateTokens(example)}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={example.isActive}
+                        onCheckedChange={(checked) => handleToggleActive(example, checked)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setExampleForm(toExampleForm(example, scopeFilter))}
+                          title="Bearbeiten"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(example)} title="Löschen">
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Example Dialog */}
+      <Dialog open={!!exampleForm} onOpenChange={(open) => !open && setExampleForm(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh]">
+          <DialogHeader>
+            <DialogTitle>{exampleForm?.id ? 'Beispiel bearbeiten' : 'Neues Beispiel'}</DialogTitle>
+            <DialogDescription>
+              {PROMPT_STAGE_LABELS[selectedStage]} · Die Ausgabe sollte dem Ausgabeformat der Stage entsprechen.
+            </DialogDescription>
+          </DialogHeader>
+          {exampleForm && (
+            <ScrollArea className="max-h-[65vh]">
+              <div className="space-y-4 pr-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label>Gilt für</Label>
+                    <Select
+                      value={exampleForm.scope}
+                      onValueChange={(scope) => setExampleForm({ ...exampleForm, scope })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={GLOBAL_SCOPE}>Global (alle Projekte)</SelectItem>
+                        {projects.map(project => (
+                          <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Sprache</Label>
+                    <Select
+                      value={exampleForm.language}
+                      onValueChange={(language) => setExampleForm({ ...exampleForm, language: language as ExampleLanguage })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EXAMPLE_LANGUAGES.map(language => (
+                          <SelectItem key={language} value={language}>{EXAMPLE_LANGUAGE_LABELS[language]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="example-input">Eingabe (User Story)</Label>
+                  <Textarea
+                    id="example-input"
+                    value={exampleForm.input}
+                    onChange={(e) => setExampleForm({ ...exampleForm, input: e.target.value })}
+                    className="min-h-[80px]"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="example-output">Erwartete Ausgabe (JSON)</Label>
+                  <Textarea
+                    id="example-output"
+                    value={exampleForm.expectedOutput}
+                    onChange={(e) => setExampleForm({ ...exampleForm, expectedOutput: e.target.value })}
+                    className="min-h-[140px] font-mono text-sm"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="example-explanation">Erklärung (optional)</Label>
+                  <Input
+                    id="example-explanation"
+                    value={exampleForm.explanation}
+                    onChange={(e) => setExampleForm({ ...exampleForm, explanation: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="example-tags">Schlagworte</Label>
+                  <Input
+                    id="example-tags"
+                    value={exampleForm.tags}
+                    onChange={(e) => setExampleForm({ ...exampleForm, tags: e.target.value })}
+                    placeholder="z. B. login, performance"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Kommagetrennt. Zählen bei der Auswahl wie Wörter der Eingabe.
+                  </p>
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch
+                    checked={exampleForm.isActive}
+                    onCheckedChange={(isActive) => setExampleForm({ ...exampleForm, isActive })}
+                  />
+                  Aktiv
+                </label>
+                <p className="text-xs text-muted-foreground">
+                  Ca. {estimateTokens(exampleForm)} Tokens im Prompt
+                </p>
+              </div>
+            </ScrollArea>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setExampleForm(null)}>
+              Abbrechen
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!exampleForm?.input.trim() || !exampleForm?.expectedOutput.trim() || isSaving}
+            >
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Speichern
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
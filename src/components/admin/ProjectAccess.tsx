@@ -0,0 +1,172 @@
+import { useState, useEffect } from 'react';
+import {
+  updateProject,
+  fetchProjectMembers,
+  addProjectMember,
+  removeProjectMember,
+  Project,
+  ProjectMember,
+} from '@/services/projectService';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Trash2, UserPlus } from 'lucide-react';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+
+interface ProjectAccessProps {
+  project: Project;
+  onSaved: (project: Project) => void;
+}
+
+// Visibility of the project and its members; private projects are only open
+// to admins, the creator and members
+export function ProjectAccess({ project, onSaved }: ProjectAccessProps) {
+  const { toast } = useToast();
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [email, setEmail] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  useEffect(() => {
+    loadMembers(project.id);
+  }, [project.id]);
+
+  const loadMembers = async (projectId: string) => {
+    setIsLoading(true);
+    const data = await fetchProjectMembers(projectId);
+    setMembers(data);
+    setIsLoading(false);
+  };
+
+  const handleTogglePublic = async (isPublic: boolean) => {
+    setIsUpdating(true);
+    const success = await updateProject(project.id, { is_public: isPublic });
+    setIsUpdating(false);
+
+    if (success) {
+      onSaved({ ...project, is_public: isPublic });
+      toast({ title: isPublic ? 'Projekt ist öffentlich' : 'Projekt ist privat' });
+    } else {
+      toast({ title: 'Fehler beim Speichern', variant: 'destructive' });
+    }
+  };
+
+  const handleAddMember = async () => {
+    if (!email.trim()) return;
+
+    setIsAdding(true);
+    const success = await addProjectMember(project.id, email.trim());
+    setIsAdding(false);
+
+    if (success) {
+      toast({ title: 'Mitglied hinzugefügt' });
+      setEmail('');
+      loadMembers(project.id);
+    } else {
+      toast({
+        title: 'Mitglied konnte nicht hinzugefügt werden',
+        description: 'Bitte prüfen Sie, ob es ein Konto mit dieser E-Mail-Adresse gibt.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRemoveMember = async (memberId: string) => {
+    const success = await removeProjectMember(memberId);
+    if (success) {
+      toast({ title: 'Mitglied entfernt' });
+      setMembers(prev => prev.filter(m => m.id !== memberId));
+    } else {
+      toast({ title: 'Fehler beim Entfernen', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Zugriff</CardTitle>
+        <CardDescription>
+          Private Projekte, ihre Dokumente und ihr Kontext sind nur für Admins, die Person, die das Projekt
+          angelegt hat, und die Mitglieder sichtbar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="project-public">Öffentlich</Label>
+            <p className="text-xs text-muted-foreground">
+              Jede Sitzung kann das Projekt auswählen, auch ohne Konto.
+            </p>
+          </div>
+          <Switch
+            id="project-public"
+            checked={project.is_public}
+            onCheckedChange={handleTogglePublic}
+            disabled={isUpdating}
+          />
+        </div>
+
+        <div className="space-y-3">
+          <Label htmlFor="member-email">Mitglieder</Label>
+          <div className="flex gap-2">
+            <Input
+              id="member-email"
+              type="email"
+              placeholder="E-Mail-Adresse"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddMember()}
+            />
+            <Button onClick={handleAddMember} disabled={isAdding || !email.trim()}>
+              {isAdding ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <UserPlus className="h-4 w-4 mr-2" />}
+              Hinzufügen
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : members.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Noch keine Mitglieder</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>E-Mail</TableHead>
+                  <TableHead>Hinzugefügt</TableHead>
+                  <TableHead className="text-right">Aktionen</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map((member) => (
+                  <TableRow key={member.id}>
+                    <TableCell className="font-medium">{member.email}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {format(new Date(member.created_at), 'dd.MM.yyyy', { locale: de })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRemoveMember(member.id)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
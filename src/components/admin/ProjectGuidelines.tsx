@@ -0,0 +1,487 @@
+import { useState, useEffect } from 'react';
+import {
+  fetchProjectVocabulary,
+  saveProjectVocabularyEntry,
+  deleteProjectVocabularyEntry,
+  fetchProjectQualityRules,
+  saveProjectQualityRule,
+  deleteProjectQualityRule,
+} from '@/services/projectGuidelinesService';
+import type { Project } from '@/services/projectService';
+import type { IssueCategory, ProjectQualityRule, ProjectVocabularyEntry } from '@/types/storyTypes';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Loader2, Pencil, Trash2, BookOpen, ListChecks } from 'lucide-react';
+
+const categoryLabels: Record<IssueCategory, string> = {
+  ambiguity: 'Mehrdeutigkeit',
+  missing_role: 'Fehlende Rolle',
+  missing_goal: 'Fehlendes Ziel',
+  missing_benefit: 'Fehlender Nutzen',
+  vague_language: 'Unklare Sprache',
+  too_broad_scope: 'Zu breiter Umfang',
+  solution_bias: 'Lösungsvorgabe',
+  persona_unclear: 'Unklare Persona',
+  business_value_gap: 'Fehlender Business Value',
+  not_testable: 'Nicht testbar',
+  inconsistency: 'Widerspruch',
+  missing_context: 'Fehlender Kontext',
+  technical_debt: 'Technische Schuld',
+  other: 'Sonstiges',
+};
+
+const ISSUE_CATEGORIES = Object.keys(categoryLabels) as IssueCategory[];
+
+function splitList(value: string): string[] {
+  return value.split(',').map(v => v.trim()).filter(Boolean);
+}
+
+interface VocabularyFormState {
+  id: string | null;
+  term: string;
+  definition: string;
+  synonyms: string;
+  avoidTerms: string;
+}
+
+interface RuleFormState {
+  id: string | null;
+  name: string;
+  description: string;
+  category: IssueCategory;
+  checkCriteria: string;
+  isActive: boolean;
+}
+
+function toVocabularyForm(entry: ProjectVocabularyEntry | null): VocabularyFormState {
+  return {
+    id: entry?.id ?? null,
+    term: entry?.term ?? '',
+    definition: entry?.definition ?? '',
+    synonyms: entry?.synonyms?.join(', ') ?? '',
+    avoidTerms: entry?.avoidTerms?.join(', ') ?? '',
+  };
+}
+
+function toRuleForm(rule: ProjectQualityRule | null): RuleFormState {
+  return {
+    id: rule?.id ?? null,
+    name: rule?.name ?? '',
+    description: rule?.description ?? '',
+    category: rule?.category ?? 'other',
+    checkCriteria: rule?.checkCriteria ?? '',
+    isActive: rule?.isActive ?? true,
+  };
+}
+
+interface ProjectGuidelinesProps {
+  project: Project;
+}
+
+// Glossary and Definition-of-Ready rules that llm-proxy adds to the prompts of the project
+export function ProjectGuidelines({ project }: ProjectGuidelinesProps) {
+  const { toast } = useToast();
+  const [vocabulary, setVocabulary] = useState<ProjectVocabularyEntry[]>([]);
+  const [rules, setRules] = useState<ProjectQualityRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [vocabularyForm, setVocabularyForm] = useState<VocabularyFormState | null>(null);
+  const [ruleForm, setRuleForm] = useState<RuleFormState | null>(null);
+
+  useEffect(() => {
+    loadGuidelines(project.id);
+  }, [project.id]);
+
+  const loadGuidelines = async (projectId: string) => {
+    setIsLoading(true);
+    const [vocabularyData, ruleData] = await Promise.all([
+      fetchProjectVocabulary(projectId),
+      fetchProjectQualityRules(projectId),
+    ]);
+    setVocabulary(vocabularyData);
+    setRules(ruleData);
+    setIsLoading(false);
+  };
+
+  const handleSaveVocabulary = async () => {
+    if (!vocabularyForm || !vocabularyForm.term.trim() || !vocabularyForm.definition.trim()) return;
+
+    const term = vocabularyForm.term.trim();
+    if (vocabulary.some(v => v.id !== vocabularyForm.id && v.term.toLowerCase() === term.toLowerCase())) {
+      toast({ title: 'Begriff existiert bereits', description: 'Bitte bearbeiten Sie den vorhandenen Eintrag.', variant: 'destructive' });
+      return;
+    }
+
+    setIsSaving(true);
+    const success = await saveProjectVocabularyEntry(
+      {
+        projectId: project.id,
+        term,
+        definition: vocabularyForm.definition.trim(),
+        synonyms: splitList(vocabularyForm.synonyms),
+        avoidTerms: splitList(vocabularyForm.avoidTerms),
+      },
+      vocabularyForm.id ?? undefined
+    );
+    setIsSaving(false);
+
+    if (success) {
+      toast({ title: vocabularyForm.id ? 'Begriff aktualisiert' : 'Begriff angelegt' });
+      setVocabularyForm(null);
+      loadGuidelines(project.id);
+    } else {
+      toast({ title: 'Fehler beim Speichern', variant: 'destructive' });
+    }
+  };
+
+  const handleSaveRule = async () => {
+    if (!ruleForm || !ruleForm.name.trim() || !ruleForm.checkCriteria.trim()) return;
+
+    setIsSaving(true);
+    const success = await saveProjectQualityRule(
+      {
+        projectId: project.id,
+        name: ruleForm.name.trim(),
+        description: ruleForm.description.trim(),
+        category: ruleForm.category,
+        checkCriteria: ruleForm.checkCriteria.trim(),
+        isActive: ruleForm.isActive,
+      },
+      ruleForm.id ?? undefined
+    );
+    setIsSaving(false);
+
+    if (success) {
+      toast({ title: ruleForm.id ? 'Regel aktualisiert' : 'Regel angelegt' });
+      setRuleForm(null);
+      loadGuidelines(project.id);
+    } else {
+      toast({ title: 'Fehler beim Speichern', variant: 'destructive' });
+    }
+  };
+
+  const handleToggleRule = async (rule: ProjectQualityRule, isActive: boolean) => {
+    const success = await saveProjectQualityRule({ ...rule, isActive }, rule.id);
+    if (success) {
+      setRules(current => current.map(r => (r.id === rule.id ? { ...r, isActive } : r)));
+    } else {
+      toast({ title: 'Fehler beim Aktualisieren', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteVocabulary = async (entry: ProjectVocabularyEntry) => {
+    const success = await deleteProjectVocabularyEntry(entry.id);
+    if (success) {
+      toast({ title: 'Begriff gelöscht' });
+      loadGuidelines(project.id);
+    } else {
+      toast({ title: 'Fehler beim Löschen', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteRule = async (rule: ProjectQualityRule) => {
+    const success = await deleteProjectQualityRule(rule.id);
+    if (success) {
+      toast({ title: 'Regel gelöscht' });
+      loadGuidelines(project.id);
+    } else {
+      toast({ title: 'Fehler beim Löschen', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Glossar & Qualitätsregeln</CardTitle>
+        <CardDescription>
+          Ergänzen die Standard-Begriffe und INVEST-Regeln in den Prompts für Stories dieses Projekts.
+          Ein Begriff mit gleichem Namen ersetzt den Standardeintrag.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Tabs defaultValue="vocabulary">
+            <TabsList>
+              <TabsTrigger value="vocabulary" className="gap-2">
+                <BookOpen className="h-4 w-4" />
+                Glossar ({vocabulary.length})
+              </TabsTrigger>
+              <TabsTrigger value="rules" className="gap-2">
+                <ListChecks className="h-4 w-4" />
+                Regeln ({rules.length})
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="vocabulary" className="space-y-4">
+              <div className="flex justify-end">
+                <Button size="sm" onClick={() => setVocabularyForm(toVocabularyForm(null))}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Begriff
+                </Button>
+              </div>
+              {vocabulary.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  Noch keine Projektbegriffe
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Begriff</TableHead>
+                      <TableHead>Definition</TableHead>
+                      <TableHead>Vermeiden</TableHead>
+                      <TableHead className="w-[90px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {vocabulary.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="font-medium">
+                          {entry.term}
+                          {entry.synonyms && entry.synonyms.length > 0 && (
+                            <p className="text-xs text-muted-foreground font-normal">
+                              Synonyme: {entry.synonyms.join(', ')}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm max-w-[260px]">{entry.definition}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {entry.avoidTerms?.map(term => (
+                              <Badge key={term} variant="outline" className="text-xs">{term}</Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button variant="ghost" size="icon" onClick={() => setVocabularyForm(toVocabularyForm(entry))} title="Bearbeiten">
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => handleDeleteVocabulary(entry)} title="Löschen">
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+
+            <TabsContent value="rules" className="space-y-4">
+              <div className="flex justify-end">
+                <Button size="sm" onClick={() => setRuleForm(toRuleForm(null))}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Regel
+                </Button>
+              </div>
+              {rules.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  Noch keine Projektregeln
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Regel</TableHead>
+                      <TableHead>Prüfkriterium</TableHead>
+                      <TableHead>Kategorie</TableHead>
+                      <TableHead>Aktiv</TableHead>
+                      <TableHead className="w-[90px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rules.map((rule) => (
+                      <TableRow key={rule.id}>
+                        <TableCell className="font-medium">
+                          {rule.name}
+                          {rule.description && (
+                            <p className="text-xs text-muted-foreground font-normal">{rule.description}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm max-w-[260px]">{rule.checkCriteria}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{categoryLabels[rule.category] ?? rule.category}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={rule.isActive}
+                            onCheckedChange={(checked) => handleToggleRule(rule, checked)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button variant="ghost" size="icon" onClick={() => setRuleForm(toRuleForm(rule))} title="Bearbeiten">
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => handleDeleteRule(rule)} title="Löschen">
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+
+      {/* Vocabulary Dialog */}
+      <Dialog open={!!vocabularyForm} onOpenChange={(open) => !open && setVocabularyForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{vocabularyForm?.id ? 'Begriff bearbeiten' : 'Neuer Begriff'}</DialogTitle>
+            <DialogDescription>
+              Listen werden kommagetrennt eingegeben.
+            </DialogDescription>
+          </DialogHeader>
+          {vocabularyForm && (
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="vocabulary-term">Begriff</Label>
+                <Input
+                  id="vocabulary-term"
+                  value={vocabularyForm.term}
+                  onChange={(e) => setVocabularyForm({ ...vocabularyForm, term: e.target.value })}
+                  placeholder="z.B. Sachbearbeiter"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vocabulary-definition">Definition</Label>
+                <Textarea
+                  id="vocabulary-definition"
+                  value={vocabularyForm.definition}
+                  onChange={(e) => setVocabularyForm({ ...vocabularyForm, definition: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vocabulary-synonyms">Synonyme</Label>
+                <Input
+                  id="vocabulary-synonyms"
+                  value={vocabularyForm.synonyms}
+                  onChange={(e) => setVocabularyForm({ ...vocabularyForm, synonyms: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vocabulary-avoid">Zu vermeidende Begriffe</Label>
+                <Input
+                  id="vocabulary-avoid"
+                  value={vocabularyForm.avoidTerms}
+                  onChange={(e) => setVocabularyForm({ ...vocabularyForm, avoidTerms: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVocabularyForm(null)}>
+              Abbrechen
+            </Button>
+            <Button
+              onClick={handleSaveVocabulary}
+              disabled={!vocabularyForm?.term.trim() || !vocabularyForm?.definition.trim() || isSaving}
+            >
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Speichern
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rule Dialog */}
+      <Dialog open={!!ruleForm} onOpenChange={(open) => !open && setRuleForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{ruleForm?.id ? 'Regel bearbeiten' : 'Neue Regel'}</DialogTitle>
+            <DialogDescription>
+              Das Prüfkriterium steht so im Prompt und sollte als Prüfanweisung formuliert sein.
+            </DialogDescription>
+          </DialogHeader>
+          {ruleForm && (
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule-name">Name</Label>
+                <Input
+                  id="rule-name"
+                  value={ruleForm.name}
+                  onChange={(e) => setRuleForm({ ...ruleForm, name: e.target.value })}
+                  placeholder="z.B. Datenschutz"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-criteria">Prüfkriterium</Label>
+                <Textarea
+                  id="rule-criteria"
+                  value={ruleForm.checkCriteria}
+                  onChange={(e) => setRuleForm({ ...ruleForm, checkCriteria: e.target.value })}
+                  placeholder="Prüfe ob personenbezogene Daten genannt und ihre Verarbeitung begründet ist."
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-description">Beschreibung (optional)</Label>
+                <Input
+                  id="rule-description"
+                  value={ruleForm.description}
+                  onChange={(e) => setRuleForm({ ...ruleForm, description: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Kategorie</Label>
+                <Select
+                  value={ruleForm.category}
+                  onValueChange={(category) => setRuleForm({ ...ruleForm, category: category as IssueCategory })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ISSUE_CATEGORIES.map(category => (
+                      <SelectItem key={category} value={category}>{categoryLabels[category]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Switch
+                  checked={ruleForm.isActive}
+                  onCheckedChange={(isActive) => setRuleForm({ ...ruleForm, isActive })}
+                />
+                Aktiv
+              </label>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRuleForm(null)}>
+              Abbrechen
+            </Button>
+            <Button
+              onClick={handleSaveRule}
+              disabled={!ruleForm?.name.trim() || !ruleForm?.checkCriteria.trim() || isSaving}
+            >
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Speichern
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
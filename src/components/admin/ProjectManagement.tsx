@@ -6,9 +6,14 @@ import {
   fetchProjectDocuments,
   uploadDocument,
   deleteDocument,
+  hasExtension,
+  DOCUMENT_EXTENSIONS,
   Project, 
   ProjectDocument 
 } from '@/services/projectService';
+import { ProjectAccess } from '@/components/admin/ProjectAccess';
+import { ProjectGuidelines } from '@/components/admin/ProjectGuidelines';
+import { ProjectRetrievalSettings } from '@/components/admin/ProjectRetrievalSettings';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -89,6 +94,11 @@ export function ProjectManagement() {
     }
   };
 
+  const handleProjectSaved = (project: Project) => {
+    setProjects(prev => prev.map(p => (p.id === project.id ? project : p)));
+    setSelectedProject(project);
+  };
+
   const handleDeleteProject = async (id: string) => {
     const success = await deleteProject(id);
     if (success) {
@@ -109,14 +119,13 @@ export function ProjectManagement() {
     const files = Array.from(e.target.files || []);
     if (files.length === 0) return;
 
-    // Validate file types - only allow .txt and .md
-    const allowedExtensions = ['.txt', '.md'];
-    const invalidFiles = files.filter(f => !allowedExtensions.some(ext => f.name.toLowerCase().endsWith(ext)));
+    // Validate file types against what embed-document can extract
+    const invalidFiles = files.filter(f => !hasExtension(f.name, DOCUMENT_EXTENSIONS));
     
     if (invalidFiles.length > 0) {
       toast({ 
         title: 'Ungültiges Dateiformat', 
-        description: 'Nur .txt und .md Dateien werden unterstützt.',
+        description: 'Unterstützt werden PDF, Word (.docx), HTML, CSV, Markdown und Text.',
         variant: 'destructive' 
       });
       if (fileInputRef.current) {
@@ -200,7 +209,10 @@ export function ProjectManagement() {
                 >
                   <FolderOpen className="h-4 w-4 text-muted-foreground flex-shrink-0" />
                   <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium truncate">{project.name}</p>
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium truncate">{project.name}</p>
+                      {project.is_public && <Badge variant="outline" className="text-xs">Öffentlich</Badge>}
+                    </div>
                     {project.description && (
                       <p className="text-xs text-muted-foreground truncate">
                         {project.description}
@@ -217,121 +229,136 @@ export function ProjectManagement() {
         </CardContent>
       </Card>
 
-      {/* Project Documents */}
-      <Card className="lg:col-span-2">
-        <CardHeader>
-          <div className="flex items-center justify-between">
-            <div>
-              <CardTitle className="text-lg">
-                {selectedProject ? selectedProject.name : 'Projekt auswählen'}
-              </CardTitle>
-              <CardDescription>
-                {selectedProject 
-                  ? `${projectDocs.length} Dokumente`
-                  : 'Wählen Sie ein Projekt aus der Liste'}
-              </CardDescription>
-            </div>
-            {selectedProject && (
-              <div className="flex gap-2">
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  multiple
-                  onChange={handleFileUpload}
-                  className="hidden"
-                  accept=".txt,.md"
-                />
-                <Button 
-                  size="sm" 
-                  variant="outline"
-                  onClick={() => loadProjectDocuments(selectedProject.id)}
-                >
-                  <RefreshCw className="h-4 w-4" />
-                </Button>
-                <Button 
-                  size="sm"
-                  onClick={() => fileInputRef.current?.click()}
-                  disabled={isUploading}
-                >
-                  {isUploading ? (
-                    <Loader2 className="h-4 w-4 animate-spin mr-1" />
-                  ) : (
-                    <Upload className="h-4 w-4 mr-1" />
-                  )}
-                  Hochladen
-                </Button>
-                <Button 
-                  size="sm" 
-                  variant="destructive"
-                  onClick={() => handleDeleteProject(selectedProject.id)}
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
+      <div className="lg:col-span-2 space-y-6">
+        {/* Project Documents */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-lg">
+                  {selectedProject ? selectedProject.name : 'Projekt auswählen'}
+                </CardTitle>
+                <CardDescription>
+                  {selectedProject 
+                    ? `${projectDocs.length} Dokumente`
+                    : 'Wählen Sie ein Projekt aus der Liste'}
+                </CardDescription>
               </div>
-            )}
-          </div>
-        </CardHeader>
-        <CardContent>
-          {!selectedProject ? (
-            <div className="text-center py-12 text-muted-foreground">
-              <FolderOpen className="h-12 w-12 mx-auto mb-4 opacity-30" />
-              <p>Wählen Sie ein Projekt aus</p>
-            </div>
-          ) : isLoadingDocs ? (
-            <div className="flex justify-center py-8">
-              <Loader2 className="h-6 w-6 animate-spin text-primary" />
-            </div>
-          ) : projectDocs.length === 0 ? (
-            <div className="text-center py-12 text-muted-foreground">
-              <FileText className="h-12 w-12 mx-auto mb-4 opacity-30" />
-              <p>Keine Dokumente in diesem Projekt</p>
-              <p className="text-xs mt-1">
-                Laden Sie .txt oder .md Dateien hoch
-              </p>
+              {selectedProject && (
+                <div className="flex gap-2">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    onChange={handleFileUpload}
+                    className="hidden"
+                    accept={DOCUMENT_EXTENSIONS.join(',')}
+                  />
+                  <Button 
+                    size="sm" 
+                    variant="outline"
+                    onClick={() => loadProjectDocuments(selectedProject.id)}
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                  <Button 
+                    size="sm"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isUploading}
+                  >
+                    {isUploading ? (
+                      <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                    ) : (
+                      <Upload className="h-4 w-4 mr-1" />
+                    )}
+                    Hochladen
+                  </Button>
+                  <Button 
+                    size="sm" 
+                    variant="destructive"
+                    onClick={() => handleDeleteProject(selectedProject.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
             </div>
-          ) : (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Dokument</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Größe</TableHead>
-                  <TableHead>Hochgeladen</TableHead>
-                  <TableHead className="text-right">Aktionen</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {projectDocs.map((doc) => (
-                  <TableRow key={doc.id}>
-                    <TableCell>
-                      <div className="flex items-center gap-2">
-                        <FileText className="h-4 w-4 text-muted-foreground" />
-                        <span className="truncate max-w-[200px]">{doc.name}</span>
-                      </div>
-                    </TableCell>
-                    <TableCell>{getStatusBadge(doc.status)}</TableCell>
-                    <TableCell className="text-muted-foreground text-sm">
-                      {doc.file_size ? `${(doc.file_size / 1024).toFixed(1)} KB` : '-'}
-                    </TableCell>
-                    <TableCell className="text-muted-foreground text-sm">
-                      {format(new Date(doc.created_at), 'dd.MM.yyyy HH:mm', { locale: de })}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => handleDeleteDocument(doc)}
-                      >
-                        <Trash2 className="h-4 w-4 text-destructive" />
-                      </Button>
-                    </TableCell>
+          </CardHeader>
+          <CardContent>
+            {!selectedProject ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <FolderOpen className="h-12 w-12 mx-auto mb-4 opacity-30" />
+                <p>Wählen Sie ein Projekt aus</p>
+              </div>
+            ) : isLoadingDocs ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : projectDocs.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                <FileText className="h-12 w-12 mx-auto mb-4 opacity-30" />
+                <p>Keine Dokumente in diesem Projekt</p>
+                <p className="text-xs mt-1">
+                  Laden Sie PDF-, Word-, HTML-, CSV-, Markdown- oder Textdateien hoch
+                </p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Dokument</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Größe</TableHead>
+                    <TableHead>Hochgeladen</TableHead>
+                    <TableHead className="text-right">Aktionen</TableHead>
                   </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          )}
-        </CardContent>
-      </Card>
+                </TableHeader>
+                <TableBody>
+                  {projectDocs.map((doc) => (
+                    <TableRow key={doc.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <FileText className="h-4 w-4 text-muted-foreground" />
+                          <span className="truncate max-w-[200px]">{doc.name}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{getStatusBadge(doc.status)}</TableCell>
+                      <TableCell className="text-muted-foreground text-sm">
+                        {doc.file_size ? `${(doc.file_size / 1024).toFixed(1)} KB` : '-'}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-sm">
+                        {format(new Date(doc.created_at), 'dd.MM.yyyy HH:mm', { locale: de })}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDeleteDocument(doc)}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {selectedProject && <ProjectAccess project={selectedProject} onSaved={handleProjectSaved} />}
+
+        {selectedProject && (
+          <ProjectRetrievalSettings
+            project={selectedProject}
+            documents={projectDocs}
+            onSaved={handleProjectSaved}
+            onReindexed={() => loadProjectDocuments(selectedProject.id)}
+          />
+        )}
+
+        {selectedProject && <ProjectGuidelines project={selectedProject} />}
+      </div>
 
       {/* Create Project Dialog */}
       <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
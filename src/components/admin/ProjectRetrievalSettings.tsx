@@ -0,0 +1,247 @@
+import { useState, useEffect } from 'react';
+import {
+  updateProject,
+  isDocumentOutdated,
+  reindexProjectDocuments,
+  Project,
+  ProjectDocument,
+} from '@/services/projectService';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, Loader2, RefreshCw, Save } from 'lucide-react';
+
+const EMBEDDING_MODELS = [
+  { value: 'text-embedding-3-small', label: 'text-embedding-3-small (Standard)' },
+  { value: 'text-embedding-3-large', label: 'text-embedding-3-large (genauer, teurer)' },
+  { value: 'text-embedding-ada-002', label: 'text-embedding-ada-002 (älter)' },
+];
+
+interface SettingsFormState {
+  chunkSize: string;
+  chunkOverlap: string;
+  embeddingModel: string;
+  topK: string;
+  threshold: string;
+  reranking: boolean;
+}
+
+function toForm(project: Project): SettingsFormState {
+  return {
+    chunkSize: String(project.chunk_size),
+    chunkOverlap: String(project.chunk_overlap),
+    embeddingModel: project.embedding_model,
+    topK: String(project.retrieval_top_k),
+    threshold: String(project.retrieval_threshold),
+    reranking: project.retrieval_reranking,
+  };
+}
+
+// Same limits as the check constraints on projects
+function validate(form: SettingsFormState): string | null {
+  const chunkSize = Number(form.chunkSize);
+  const chunkOverlap = Number(form.chunkOverlap);
+  const topK = Number(form.topK);
+  const threshold = Number(form.threshold);
+
+  if (!Number.isInteger(chunkSize) || chunkSize < 200 || chunkSize > 4000) {
+    return 'Die Chunk-Größe muss zwischen 200 und 4000 Zeichen liegen.';
+  }
+  if (!Number.isInteger(chunkOverlap) || chunkOverlap < 0 || chunkOverlap >= chunkSize) {
+    return 'Die Überlappung muss kleiner als die Chunk-Größe sein.';
+  }
+  if (!Number.isInteger(topK) || topK < 1 || topK > 20) {
+    return 'Top-k muss zwischen 1 und 20 liegen.';
+  }
+  if (Number.isNaN(threshold) || threshold < 0 || threshold > 1) {
+    return 'Der Schwellenwert muss zwischen 0 und 1 liegen.';
+  }
+  return null;
+}
+
+interface ProjectRetrievalSettingsProps {
+  project: Project;
+  documents: ProjectDocument[];
+  onSaved: (project: Project) => void;
+  onReindexed: () => void;
+}
+
+// Chunking and search parameters used by embed-document and retrieve-context
+export function ProjectRetrievalSettings({ project, documents, onSaved, onReindexed }: ProjectRetrievalSettingsProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<SettingsFormState>(() => toForm(project));
+  const [isSaving, setIsSaving] = useState(false);
+  const [reindexProgress, setReindexProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    setForm(toForm(project));
+  }, [project]);
+
+  const outdatedCount = documents.filter(doc => isDocumentOutdated(doc, project)).length;
+  const isReindexing = reindexProgress !== null;
+
+  const handleSave = async () => {
+    const validationError = validate(form);
+    if (validationError) {
+      toast({ title: 'Ungültige Einstellungen', description: validationError, variant: 'destructive' });
+      return;
+    }
+
+    const updates = {
+      chunk_size: Number(form.chunkSize),
+      chunk_overlap: Number(form.chunkOverlap),
+      embedding_model: form.embeddingModel,
+      retrieval_top_k: Number(form.topK),
+      retrieval_threshold: Number(form.threshold),
+      retrieval_reranking: form.reranking,
+    };
+
+    setIsSaving(true);
+    const success = await updateProject(project.id, updates);
+    setIsSaving(false);
+
+    if (success) {
+      const updated = { ...project, ...updates };
+      onSaved(updated);
+      const needsReindex = documents.some(doc => isDocumentOutdated(doc, updated));
+      toast({
+        title: 'Einstellungen gespeichert',
+        description: needsReindex
+          ? 'Chunking oder Embedding-Modell haben sich geändert. Bitte indexieren Sie das Projekt neu.'
+          : undefined,
+      });
+    } else {
+      toast({ title: 'Fehler beim Speichern', variant: 'destructive' });
+    }
+  };
+
+  const handleReindex = async () => {
+    setReindexProgress({ done: 0, total: documents.length });
+    const failed = await reindexProjectDocuments(project.id, (done, total) => setReindexProgress({ done, total }));
+    setReindexProgress(null);
+    onReindexed();
+
+    if (failed > 0) {
+      toast({ title: 'Neu-Indexierung unvollständig', description: `${failed} Dokument(e) konnten nicht indexiert werden.`, variant: 'destructive' });
+    } else {
+      toast({ title: 'Projekt neu indexiert' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Chunking & Retrieval</CardTitle>
+        <CardDescription>
+          Wie Dokumente dieses Projekts zerlegt und eingebettet werden und wie viele Auszüge die Analyse erhält.
+          Änderungen an Chunking oder Embedding-Modell gelten erst nach einer Neu-Indexierung.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="chunk-size">Chunk-Größe (Zeichen)</Label>
+            <Input
+              id="chunk-size"
+              type="number"
+              min={200}
+              max={4000}
+              value={form.chunkSize}
+              onChange={(e) => setForm({ ...form, chunkSize: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="chunk-overlap">Überlappung (Zeichen)</Label>
+            <Input
+              id="chunk-overlap"
+              type="number"
+              min={0}
+              value={form.chunkOverlap}
+              onChange={(e) => setForm({ ...form, chunkOverlap: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label>Embedding-Modell</Label>
+            <Select value={form.embeddingModel} onValueChange={(value) => setForm({ ...form, embeddingModel: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EMBEDDING_MODELS.map(model => (
+                  <SelectItem key={model.value} value={model.value}>{model.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="retrieval-top-k">Top-k (Auszüge pro Analyse)</Label>
+            <Input
+              id="retrieval-top-k"
+              type="number"
+              min={1}
+              max={20}
+              value={form.topK}
+              onChange={(e) => setForm({ ...form, topK: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="retrieval-threshold">Mindest-Ähnlichkeit (0–1)</Label>
+            <Input
+              id="retrieval-threshold"
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={form.threshold}
+              onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="retrieval-reranking">Re-Ranking</Label>
+            <p className="text-xs text-muted-foreground">
+              Ein LLM sortiert die Treffer nach Relevanz. Genauer, aber langsamer.
+            </p>
+          </div>
+          <Switch
+            id="retrieval-reranking"
+            checked={form.reranking}
+            onCheckedChange={(checked) => setForm({ ...form, reranking: checked })}
+          />
+        </div>
+
+        {outdatedCount > 0 && (
+          <div className="flex items-start gap-2 rounded-md border border-warning/50 bg-warning/10 p-3 text-sm">
+            <AlertTriangle className="h-4 w-4 text-warning mt-0.5" />
+            <span>
+              {outdatedCount} von {documents.length} Dokumenten wurden mit anderen Einstellungen indexiert.
+            </span>
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" onClick={handleReindex} disabled={isReindexing || isSaving || documents.length === 0}>
+            {isReindexing ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            {isReindexing
+              ? `Indexiere ${reindexProgress.done} / ${reindexProgress.total}`
+              : 'Projekt neu indexieren'}
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || isReindexing}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+            Speichern
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,626 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  fetchPromptTemplates,
+  createPromptTemplate,
+  activatePromptTemplate,
+  rollbackPromptStage,
+} from '@/services/promptTemplateService';
+import { testPromptDraft, PromptTestResult } from '@/services/llmProxyApi';
+import { diffLines } from '@/lib/textDiff';
+import { PROMPT_STAGES, PROMPT_STAGE_LABELS, PromptStage, PromptTemplate } from '@/types/storyTypes';
+import { PROMPT_REGISTRY_V1, PROMPT_VARIABLES, renderPromptTemplate } from '@/types/promptTemplates';
+import { extractTemplateVariables, TemplateError } from '@/lib/templateEngine';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Plus,
+  Loader2,
+  ScrollText,
+  ChevronRight,
+  CheckCircle,
+  GitCompare,
+  Pencil,
+  Play,
+  Save,
+  Undo2
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+
+// Placeholders the proxy fills in, see PROMPT_VARIABLES in llm-proxy
+const KNOWN_VARIABLES = PROMPT_VARIABLES.map(v => v.name);
+
+const TAG_PATTERN = /(\{\{[^{}]*\}\})/g;
+
+const DEFAULT_SAMPLE_STORY = 'Als Benutzer möchte ich Daten schnell laden können, damit ich effizient arbeiten kann.';
+
+// Block tags and loop values are always fine to highlight; broken tags
+// show up in the problem list below the editor
+function isKnownTag(tag: string): boolean {
+  const inner = tag.slice(2, -2).trim().replace(/^#(if|each)\s+/, '');
+  if (inner === 'else' || inner.startsWith('/') || inner.startsWith('@') || /^this\b/.test(inner)) return true;
+  return KNOWN_VARIABLES.includes(inner.split('.')[0]);
+}
+
+function extractVariables(template: string): string[] {
+  try {
+    return extractTemplateVariables(template);
+  } catch {
+    return [];
+  }
+}
+
+// Renders the template like the proxy would and returns what keeps it from rendering
+function findTemplateProblems(template: string, storyText: string): string[] {
+  if (!template.trim()) return [];
+  try {
+    renderPromptTemplate(template, { storyText: storyText || DEFAULT_SAMPLE_STORY });
+    return [];
+  } catch (error) {
+    return error instanceof TemplateError ? error.problems : [String(error)];
+  }
+}
+
+// Versions are free text; the suggestion continues the highest "vN"
+function suggestNextVersion(templates: PromptTemplate[]): string {
+  const numbers = templates
+    .map(t => /^v(\d+)$/i.exec(t.version)?.[1])
+    .filter((n): n is string => !!n)
+    .map(Number);
+  return `v${Math.max(1, ...numbers) + 1}`;
+}
+
+interface PromptEditorProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  minHeight?: string;
+}
+
+// Textarea over a mirrored backdrop that marks {{variables}} and block tags
+function PromptEditor({ id, value, onChange, minHeight = 'min-h-[280px]' }: PromptEditorProps) {
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  return (
+    <div className="relative rounded-md bg-background">
+      <div
+        ref={backdropRef}
+        aria-hidden
+        className="absolute inset-0 overflow-hidden whitespace-pre-wrap break-words border border-transparent px-3 py-2 font-mono text-sm text-transparent pointer-events-none"
+      >
+        {value.split(TAG_PATTERN).map((part, i) =>
+          i % 2 === 1 ? (
+            <mark
+              key={i}
+              className={`rounded-sm text-transparent ${
+                isKnownTag(part) ? 'bg-primary/20' : 'bg-destructive/20'
+              }`}
+            >
+              {part}
+            </mark>
+          ) : (
+            <span key={i}>{part}</span>
+          )
+        )}
+        {/* Keeps the backdrop as tall as the textarea after a trailing newline */}
+        {' '}
+      </div>
+      <Textarea
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={(e) => {
+          if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+        }}
+        spellCheck={false}
+        className={`relative bg-transparent font-mono text-sm ${minHeight}`}
+      />
+    </div>
+  );
+}
+
+interface DraftState {
+  version: string;
+  systemPrompt: string;
+  userPromptTemplate: string;
+  basedOn: string;
+}
+
+export function PromptManagement() {
+  const { toast } = useToast();
+  const [selectedStage, setSelectedStage] = useState<PromptStage>('ambiguity_analysis');
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  // Editor dialog
+  const [draft, setDraft] = useState<DraftState | null>(null);
+  const [sampleStory, setSampleStory] = useState(DEFAULT_SAMPLE_STORY);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<PromptTestResult | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Diff dialog
+  const [showDiffDialog, setShowDiffDialog] = useState(false);
+  const [diffFromId, setDiffFromId] = useState<string>('');
+  const [diffToId, setDiffToId] = useState<string>('');
+
+  useEffect(() => {
+    loadTemplates(selectedStage);
+  }, [selectedStage]);
+
+  const loadTemplates = async (stage: PromptStage) => {
+    setIsLoading(true);
+    const data = await fetchPromptTemplates(stage);
+    setTemplates(data);
+    setIsLoading(false);
+  };
+
+  const activeTemplate = templates.find(t => t.isActive) || null;
+
+  const draftVariables = draft ? extractVariables(`${draft.systemPrompt}\n${draft.userPromptTemplate}`) : [];
+  const draftProblems = draft
+    ? [...new Set([
+        ...findTemplateProblems(draft.systemPrompt, sampleStory),
+        ...findTemplateProblems(draft.userPromptTemplate, sampleStory),
+      ])]
+    : [];
+  const canRollBack = templates.some(t => !t.isActive && t.activatedAt) || !!activeTemplate;
+
+  const openEditor = (base: PromptTemplate | null) => {
+    // Without stored versions the prompt compiled into llm-proxy serves as starting point
+    const builtIn = selectedStage === 'analyze' ? '' : PROMPT_REGISTRY_V1.templates[selectedStage];
+    setDraft({
+      version: suggestNextVersion(templates),
+      systemPrompt: base ? base.systemPrompt : builtIn,
+      userPromptTemplate: base ? base.userPromptTemplate : '',
+      basedOn: base ? base.version : 'Vorlage v1',
+    });
+    setTestResult(null);
+  };
+
+  const handleTestRun = async () => {
+    if (!draft || !sampleStory.trim()) return;
+
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      const result = await testPromptDraft(selectedStage, sampleStory.trim(), {
+        systemPrompt: draft.systemPrompt,
+        userPromptTemplate: draft.userPromptTemplate || undefined,
+      });
+      setTestResult(result);
+    } catch (error) {
+      toast({
+        title: 'Testlauf fehlgeschlagen',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSaveDraft = async (activate: boolean) => {
+    if (!draft || !draft.version.trim() || !draft.systemPrompt.trim() || draftProblems.length > 0) return;
+
+    if (templates.some(t => t.version === draft.version.trim())) {
+      toast({ title: 'Version existiert bereits', description: 'Bitte vergeben Sie eine neue Versionsbezeichnung.', variant: 'destructive' });
+      return;
+    }
+
+    setIsSaving(true);
+    const created = await createPromptTemplate({
+      version: draft.version.trim(),
+      stage: selectedStage,
+      systemPrompt: draft.systemPrompt,
+      userPromptTemplate: draft.userPromptTemplate,
+      outputSchema: {},
+      variables: draftVariables.map(name =>
+        PROMPT_VARIABLES.find(v => v.name === name) || { name, type: 'string', required: false }
+      ),
+    });
+    const activated = created && activate ? await activatePromptTemplate(created.id) : true;
+    setIsSaving(false);
+
+    if (created && activated) {
+      toast({ title: activate ? 'Version gespeichert und aktiviert' : 'Version gespeichert' });
+      setDraft(null);
+      loadTemplates(selectedStage);
+    } else {
+      toast({ title: 'Fehler beim Speichern', variant: 'destructive' });
+    }
+  };
+
+  const handleActivate = async (template: PromptTemplate) => {
+    setIsUpdating(true);
+    const success = await activatePromptTemplate(template.id);
+    setIsUpdating(false);
+
+    if (success) {
+      toast({ title: `Version ${template.version} aktiviert` });
+      loadTemplates(selectedStage);
+    } else {
+      toast({ title: 'Fehler beim Aktivieren', variant: 'destructive' });
+    }
+  };
+
+  const handleRollback = async () => {
+    setIsUpdating(true);
+    const success = await rollbackPromptStage(selectedStage);
+    setIsUpdating(false);
+
+    if (success) {
+      toast({ title: 'Auf vorherige Version zurückgesetzt' });
+      loadTemplates(selectedStage);
+    } else {
+      toast({ title: 'Fehler beim Zurücksetzen', variant: 'destructive' });
+    }
+  };
+
+  const openDiff = (template: PromptTemplate) => {
+    const other = activeTemplate && activeTemplate.id !== template.id
+      ? activeTemplate
+      : templates.find(t => t.id !== template.id);
+    setDiffFromId(other?.id || template.id);
+    setDiffToId(template.id);
+    setShowDiffDialog(true);
+  };
+
+  const diff = useMemo(() => {
+    const from = templates.find(t => t.id === diffFromId);
+    const to = templates.find(t => t.id === diffToId);
+    if (!from || !to) return [];
+    return diffLines(from.systemPrompt, to.systemPrompt);
+  }, [templates, diffFromId, diffToId]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Stage List */}
+      <Card className="lg:col-span-1">
+        <CardHeader>
+          <CardTitle className="text-lg">Stages</CardTitle>
+          <CardDescription>Prompts je Analyse-Schritt</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {PROMPT_STAGES.map((stage) => (
+              <div
+                key={stage}
+                className={`flex items-center gap-2 p-3 rounded-lg cursor-pointer transition-colors ${
+                  selectedStage === stage
+                    ? 'bg-primary/10 border border-primary/20'
+                    : 'hover:bg-muted/50'
+                }`}
+                onClick={() => setSelectedStage(stage)}
+              >
+                <ScrollText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{PROMPT_STAGE_LABELS[stage]}</p>
+                  <p className="text-xs text-muted-foreground truncate font-mono">{stage}</p>
+                </div>
+                {selectedStage === stage && (
+                  <ChevronRight className="h-4 w-4 text-primary" />
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Versions */}
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-lg">{PROMPT_STAGE_LABELS[selectedStage]}</CardTitle>
+              <CardDescription>
+                {activeTemplate
+                  ? `Aktiv: ${activeTemplate.version}`
+                  : 'Aktiv: integrierter Prompt (v1)'}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleRollback}
+                disabled={!canRollBack || isUpdating}
+                title="Vorherige aktive Version wiederherstellen"
+              >
+                <Undo2 className="h-4 w-4 mr-1" />
+                Zurückrollen
+              </Button>
+              <Button size="sm" onClick={() => openEditor(activeTemplate || templates[0] || null)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Neue Version
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : templates.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <ScrollText className="h-12 w-12 mx-auto mb-4 opacity-30" />
+              <p>Keine gespeicherten Versionen</p>
+              <p className="text-xs mt-1">
+                Der Proxy verwendet den integrierten Prompt v1
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Variablen</TableHead>
+                  <TableHead>Erstellt</TableHead>
+                  <TableHead className="text-right">Aktionen</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map((template) => (
+                  <TableRow key={template.id}>
+                    <TableCell className="font-mono font-medium">{template.version}</TableCell>
+                    <TableCell>
+                      {template.isActive ? (
+                        <Badge variant="default" className="bg-success text-success-foreground">Aktiv</Badge>
+                      ) : template.activatedAt ? (
+                        <Badge variant="secondary">Früher aktiv</Badge>
+                      ) : (
+                        <Badge variant="outline">Entwurf</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-sm">
+                      {template.variables.length}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-sm">
+                      {format(new Date(template.createdAt), 'dd.MM.yyyy HH:mm', { locale: de })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openDiff(template)}
+                          disabled={templates.length < 2}
+                          title="Unterschiede anzeigen"
+                        >
+                          <GitCompare className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openEditor(template)}
+                          title="Als Basis für neue Version"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleActivate(template)}
+                          disabled={template.isActive || isUpdating}
+                          title="Aktivieren"
+                        >
+                          <CheckCircle className="h-4 w-4 text-success" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Editor Dialog */}
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh]">
+          <DialogHeader>
+            <DialogTitle>Neue Version: {PROMPT_STAGE_LABELS[selectedStage]}</DialogTitle>
+            <DialogDescription>
+              Basiert auf {draft?.basedOn}. Gespeicherte Versionen sind unveränderlich.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <ScrollArea className="max-h-[65vh]">
+              <div className="space-y-4 pr-4">
+                <div className="space-y-2">
+                  <Label htmlFor="prompt-version">Version</Label>
+                  <Input
+                    id="prompt-version"
+                    value={draft.version}
+                    onChange={(e) => setDraft({ ...draft, version: e.target.value })}
+                    className="font-mono max-w-[200px]"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="prompt-system">System-Prompt</Label>
+                  <PromptEditor
+                    id="prompt-system"
+                    value={draft.systemPrompt}
+                    onChange={(systemPrompt) => setDraft({ ...draft, systemPrompt })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="prompt-user">User-Prompt-Vorlage (optional)</Label>
+                  <PromptEditor
+                    id="prompt-user"
+                    value={draft.userPromptTemplate}
+                    onChange={(userPromptTemplate) => setDraft({ ...draft, userPromptTemplate })}
+                    minHeight="min-h-[100px]"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Leer lassen, um den Standard-User-Prompt (Story, Felder, Kontext) zu verwenden.
+                  </p>
+                </div>
+                {draftVariables.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {draftVariables.map(name => (
+                      <Badge
+                        key={name}
+                        variant={KNOWN_VARIABLES.includes(name) ? 'secondary' : 'destructive'}
+                        className="font-mono"
+                        title={KNOWN_VARIABLES.includes(name) ? undefined : 'Unbekannte Variable'}
+                      >
+                        {`{{${name}}}`}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {draftProblems.length > 0 && (
+                  <div className="rounded-md border border-destructive/30 bg-destructive/5 p-3 space-y-1">
+                    <p className="text-sm font-medium text-destructive">
+                      Die Vorlage kann so nicht gerendert werden:
+                    </p>
+                    <ul className="list-disc pl-5 text-xs text-destructive font-mono">
+                      {draftProblems.map(problem => (
+                        <li key={problem}>{problem}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <div className="space-y-2 border-t pt-4">
+                  <Label htmlFor="prompt-sample">Beispiel-Story für den Testlauf</Label>
+                  <Textarea
+                    id="prompt-sample"
+                    value={sampleStory}
+                    onChange={(e) => setSampleStory(e.target.value)}
+                    className="min-h-[80px]"
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleTestRun}
+                    disabled={isTesting || !sampleStory.trim() || !draft.systemPrompt.trim() || draftProblems.length > 0}
+                  >
+                    {isTesting ? (
+                      <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                    ) : (
+                      <Play className="h-4 w-4 mr-1" />
+                    )}
+                    Testlauf
+                  </Button>
+                </div>
+                {testResult && (
+                  <div className="space-y-2">
+                    <div className="flex flex-wrap gap-2">
+                      <Badge variant="outline">{(testResult.duration / 1000).toFixed(1)} s</Badge>
+                      {testResult.modelId && <Badge variant="outline">{testResult.modelId}</Badge>}
+                      {Array.isArray(testResult.data.issues) && (
+                        <Badge variant="secondary">{testResult.data.issues.length} Issues</Badge>
+                      )}
+                      {testResult.coercions.length > 0 && (
+                        <Badge variant="outline" className="border-warning text-warning">
+                          {testResult.coercions.length} Felder korrigiert
+                        </Badge>
+                      )}
+                    </div>
+                    <pre className="text-xs bg-muted p-3 rounded-md overflow-x-auto max-h-[300px]">
+                      {JSON.stringify(testResult.data, null, 2)}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            </ScrollArea>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Abbrechen
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => handleSaveDraft(false)}
+              disabled={isSaving || !draft?.version.trim() || !draft?.systemPrompt.trim() || draftProblems.length > 0}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Als Entwurf speichern
+            </Button>
+            <Button
+              onClick={() => handleSaveDraft(true)}
+              disabled={isSaving || !draft?.version.trim() || !draft?.systemPrompt.trim() || draftProblems.length > 0}
+            >
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Speichern & aktivieren
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Diff Dialog */}
+      <Dialog open={showDiffDialog} onOpenChange={setShowDiffDialog}>
+        <DialogContent className="max-w-4xl max-h-[90vh]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5" />
+              Versionen vergleichen
+            </DialogTitle>
+            <DialogDescription>
+              Unterschiede im System-Prompt
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Select value={diffFromId} onValueChange={setDiffFromId}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(t => (
+                  <SelectItem key={t.id} value={t.id}>{t.version}{t.isActive ? ' (aktiv)' : ''}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+            <Select value={diffToId} onValueChange={setDiffToId}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(t => (
+                  <SelectItem key={t.id} value={t.id}>{t.version}{t.isActive ? ' (aktiv)' : ''}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <ScrollArea className="max-h-[60vh] rounded-md border">
+            <div className="font-mono text-xs">
+              {diff.map((line, i) => (
+                <div
+                  key={i}
+                  className={`whitespace-pre-wrap px-3 ${
+                    line.type === 'added'
+                      ? 'bg-success/15'
+                      : line.type === 'removed'
+                        ? 'bg-destructive/15 line-through decoration-destructive/50'
+                        : ''
+                  }`}
+                >
+                  <span className="select-none text-muted-foreground mr-2">
+                    {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+                  </span>
+                  {line.text || ' '}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,14 +1,17 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useStory } from "@/store/StoryContext";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
-import { LoadingState } from "@/components/wizard/LoadingState";
 import { ErrorState } from "@/components/wizard/ErrorState";
-import { ArrowLeft, ArrowRight, AlertTriangle, CheckCircle, Info, Play, RefreshCw, AlertOctagon } from "lucide-react";
-import { IssueCategory, IssueSeverity } from "@/types/storyTypes";
+import { HighlightedStory } from "@/components/wizard/HighlightedStory";
+import { PipelineTimeline } from "@/components/wizard/PipelineTimeline";
+import { ArrowLeft, ArrowRight, AlertTriangle, CheckCircle, Info, Play, RefreshCw, AlertOctagon, FileText, Loader2, Replace, WifiOff } from "lucide-react";
+import { ContextSnippet, IssueCategory, IssueSeverity, PIPELINE_STAGES, PROMPT_STAGE_LABELS, QualityIssue } from "@/types/storyTypes";
 import { cn } from "@/lib/utils";
+import { locateIssues } from "@/lib/issueHighlighting";
+import { getStageStates } from "@/lib/pipelineStatus";
 
 const categoryLabels: Record<IssueCategory, string> = {
   ambiguity: "Mehrdeutigkeit",
@@ -34,6 +37,18 @@ const severityColors: Record<IssueSeverity, string> = {
   info: "border-muted-foreground/30 bg-muted/30",
 };
 
+// "Login › Passwort · Seite 3 · Zeilen 5–12", empty for manually added snippets
+function formatSnippetLocation(snippet: ContextSnippet): string {
+  const { startLine, endLine, page } = snippet.position ?? {};
+  const parts: string[] = [];
+  if (snippet.headingPath?.length) parts.push(snippet.headingPath.join(" › "));
+  if (page !== undefined) parts.push(`Seite ${page}`);
+  if (startLine !== undefined) {
+    parts.push(endLine !== undefined && endLine !== startLine ? `Zeilen ${startLine}–${endLine}` : `Zeile ${startLine}`);
+  }
+  return parts.join(" · ");
+}
+
 export function AnalysisStep() {
   const { state, actions } = useStory();
   const { 
@@ -41,19 +56,71 @@ export function AnalysisStep() {
     optimisedStoryText,
     analysisIssues, 
     analysisScore, 
+    analysisResult,
     additionalContext,
+    contextSnippets,
+    pipelineStages,
+    runningPipelineStages,
     isLoading, 
     error 
   } = state;
 
   const [expandedIssueId, setExpandedIssueId] = useState<string | null>(null);
+  const [focusedIssueId, setFocusedIssueId] = useState<string | null>(null);
 
   const storyText = optimisedStoryText || originalStoryText;
-  const hasAnalysisRun = analysisScore !== null;
+  const snippetById = useMemo(() => new Map(contextSnippets.map(s => [s.id, s])), [contextSnippets]);
+  const retrievedSnippets = contextSnippets.filter(s => s.origin === 'retrieval');
+  // While the pipeline is running, issues are shown as their stages report them
+  const hasAnalysisRun = analysisScore !== null && !isLoading;
+  const showIssues = hasAnalysisRun || isLoading;
   const relevantIssuesCount = analysisIssues.filter(i => i.isRelevant).length;
+  const isOfflineAnalysis = hasAnalysisRun && analysisResult?.mode === 'offline';
+
+  const highlights = useMemo(
+    () => (showIssues ? locateIssues(storyText, analysisIssues) : []),
+    [showIssues, storyText, analysisIssues]
+  );
+  const highlightById = useMemo(() => new Map(highlights.map(h => [h.issueId, h])), [highlights]);
+
+  const stageStates = useMemo(
+    () => getStageStates(pipelineStages, storyText, runningPipelineStages),
+    [pipelineStages, storyText, runningPipelineStages]
+  );
 
+  // Issues by the stage that found them, rule-based findings in their own group
+  const issueGroups = useMemo(() => {
+    const groups: { key: string; label: string; issues: QualityIssue[] }[] = PIPELINE_STAGES.map(stage => ({
+      key: stage,
+      label: PROMPT_STAGE_LABELS[stage],
+      issues: analysisIssues.filter(i => i.pipelineStage === stage),
+    }));
+    groups.push(
+      {
+        key: 'rule',
+        label: 'Regelbasierte Prüfungen',
+        issues: analysisIssues.filter(i => !i.pipelineStage && i.source === 'rule'),
+      },
+      {
+        key: 'other',
+        label: 'Weitere Befunde',
+        issues: analysisIssues.filter(i => !i.pipelineStage && i.source !== 'rule'),
+      }
+    );
+    return groups.filter(g => g.issues.length > 0);
+  }, [analysisIssues]);
+
+  // Clicking a highlight brings its issue card into view
+  const handleFocusIssue = (issueId: string, scroll: boolean) => {
+    setFocusedIssueId(issueId);
+    if (scroll) {
+      document.getElementById(`issue-${issueId}`)?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    }
+  };
+
+  // "Analyse wiederholen" skips the proxy cache, the first run may use it
   const handleStartAnalysis = async () => {
-    await actions.analyzeStoryAction();
+    await actions.runFullPipelineAction(hasAnalysisRun);
     actions.markStepCompleted('analysis');
   };
 
@@ -78,16 +145,140 @@ export function AnalysisStep() {
     }
   };
 
+  const renderIssue = (issue: QualityIssue) => (
+    <div
+      key={issue.id}
+      id={`issue-${issue.id}`}
+      onMouseEnter={() => setFocusedIssueId(issue.id)}
+      className={cn(
+        "rounded-lg border p-4 transition-all",
+        severityColors[issue.severity],
+        issue.isRelevant && "ring-2 ring-primary/50",
+        focusedIssueId === issue.id && "shadow-md border-foreground/40"
+      )}
+    >
+      <div className="space-y-3">
+        {/* Issue Header */}
+        <div className="flex items-start gap-3">
+          {getIssueIcon(issue.severity)}
+          <div className="flex-1">
+            <div className="flex items-center gap-2 mb-1 flex-wrap">
+              <span className="text-xs font-medium bg-muted px-2 py-0.5 rounded">
+                {categoryLabels[issue.category]}
+              </span>
+              {issue.source === 'rule' && (
+                <span className="text-xs font-medium bg-primary/10 text-primary px-2 py-0.5 rounded">
+                  Regelbasiert
+                </span>
+              )}
+            </div>
+
+            {/* Text Reference */}
+            {issue.textReference && (
+              <div className="mt-2 p-2 rounded bg-background/50 border border-border/50">
+                <p className="text-xs text-muted-foreground mb-1">
+                  Betroffene Textstelle
+                  {!highlightById.has(issue.id)
+                    ? " (nicht im Story-Text gefunden)"
+                    : !highlightById.get(issue.id)?.exact && " (ungefähre Fundstelle)"}:
+                </p>
+                <p className="text-sm font-mono text-foreground">"{issue.textReference}"</p>
+              </div>
+            )}
+
+            {/* Reasoning */}
+            <p className="text-sm font-medium text-foreground mt-2">{issue.reasoning}</p>
+
+            {/* Clarification Question */}
+            {issue.clarificationQuestion && (
+              <div className="mt-2 p-2 rounded bg-primary/5 border border-primary/20">
+                <p className="text-xs font-medium text-primary mb-1">Klärungsfrage:</p>
+                <p className="text-sm text-foreground italic">{issue.clarificationQuestion}</p>
+              </div>
+            )}
+
+            {/* Context Citations */}
+            {issue.contextCitations && issue.contextCitations.length > 0 && (
+              <div className="mt-2 space-y-2">
+                <p className="text-xs font-medium text-muted-foreground">Belegt durch:</p>
+                {issue.contextCitations.map((citation, index) => {
+                  const snippet = snippetById.get(citation.snippetId);
+                  const location = snippet ? formatSnippetLocation(snippet) : "";
+                  return (
+                    <div key={`${citation.snippetId}-${index}`} className="p-2 rounded bg-background/50 border border-border/50">
+                      <p className="flex items-center gap-1 text-xs text-muted-foreground mb-1 flex-wrap">
+                        <FileText className="h-3 w-3" />
+                        {snippet?.documentName || 'Kontext-Snippet'}
+                        {location && <span>· {location}</span>}
+                      </p>
+                      {citation.quote && <p className="text-sm text-foreground italic">"{citation.quote}"</p>}
+                      {citation.relevance && <p className="text-xs text-muted-foreground mt-1">{citation.relevance}</p>}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Human-in-the-loop Controls */}
+        <div className="border-t border-border/50 pt-3 space-y-3">
+          {/* One-click fix of linter findings */}
+          {issue.replacement !== undefined && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => actions.applyIssueReplacement(issue.id)}
+              disabled={isLoading}
+            >
+              <Replace className="h-4 w-4 mr-2" />
+              Durch "{issue.replacement}" ersetzen
+            </Button>
+          )}
+
+          {/* Relevance Toggle */}
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`relevant-${issue.id}`}
+              checked={issue.isRelevant || false}
+              onCheckedChange={(checked) => handleToggleRelevant(issue.id, checked === true)}
+            />
+            <label 
+              htmlFor={`relevant-${issue.id}`}
+              className="text-sm text-foreground cursor-pointer"
+            >
+              Als relevant für Rewrite markieren
+            </label>
+          </div>
+
+          {/* User Note */}
+          <div className="space-y-1">
+            <button
+              onClick={() => setExpandedIssueId(expandedIssueId === issue.id ? null : issue.id)}
+              className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+            >
+              {expandedIssueId === issue.id ? "Notiz ausblenden" : "Notiz hinzufügen"}
+            </button>
+            {(expandedIssueId === issue.id || issue.userNote) && (
+              <Input
+                placeholder="Ihre Notiz zu diesem Problem..."
+                value={issue.userNote || ""}
+                onChange={(e) => handleUpdateNote(issue.id, e.target.value)}
+                className="text-sm"
+              />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
   const getScoreColor = (score: number) => {
     if (score >= 80) return "text-success";
     if (score >= 50) return "text-warning";
     return "text-destructive";
   };
 
-  if (isLoading) {
-    return <LoadingState message="Story wird analysiert..." />;
-  }
-
   if (error) {
     return <ErrorState message={error} onRetry={handleStartAnalysis} />;
   }
@@ -104,7 +295,13 @@ export function AnalysisStep() {
       {/* Original Story Display */}
       <div className="rounded-lg border border-border bg-muted/30 p-4">
         <p className="text-xs font-medium text-muted-foreground mb-2">Ihre Story:</p>
-        <p className="text-sm text-foreground">{storyText}</p>
+        <HighlightedStory
+          storyText={storyText}
+          issues={analysisIssues}
+          highlights={highlights}
+          focusedIssueId={focusedIssueId}
+          onFocusIssue={handleFocusIssue}
+        />
       </div>
 
       {/* Additional Context Field */}
@@ -123,9 +320,43 @@ export function AnalysisStep() {
         </p>
       </div>
 
+      {/* Retrieved Project Context */}
+      {retrievedSnippets.length > 0 && (
+        <div className="rounded-lg border border-border bg-card p-4 space-y-2">
+          <h3 className="text-sm font-medium text-foreground">
+            Projektkontext ({retrievedSnippets.length})
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            Automatisch zur Story gefundene Auszüge aus den Projektdokumenten.
+          </p>
+          <ul className="space-y-2">
+            {retrievedSnippets.map(snippet => (
+              <li key={snippet.id} className="text-xs">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <FileText className="h-3 w-3" />
+                  <span className="font-medium text-foreground">{snippet.documentName || 'Unbekanntes Dokument'}</span>
+                  {snippet.relevanceScore !== undefined && (
+                    <span>Relevanz {Math.round(snippet.relevanceScore * 100)} %</span>
+                  )}
+                </div>
+                {formatSnippetLocation(snippet) && (
+                  <p className="text-muted-foreground mt-0.5">{formatSnippetLocation(snippet)}</p>
+                )}
+                <p className="text-muted-foreground mt-0.5 line-clamp-2">{snippet.text}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Analysis Actions */}
       <div className="flex gap-3">
-        {!hasAnalysisRun ? (
+        {isLoading ? (
+          <Button disabled className="flex-1">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Analyse läuft...
+          </Button>
+        ) : !hasAnalysisRun ? (
           <Button onClick={handleStartAnalysis} className="flex-1">
             <Play className="h-4 w-4 mr-2" />
             Analyse starten
@@ -138,10 +369,27 @@ export function AnalysisStep() {
         )}
       </div>
 
+      {/* Offline Fallback Notice */}
+      {isOfflineAnalysis && (
+        <div className="flex items-start gap-3 rounded-lg border border-warning/50 bg-warning/10 p-4">
+          <WifiOff className="h-5 w-5 text-warning mt-0.5" />
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-foreground">Offline-Analyse</p>
+            <p className="text-xs text-muted-foreground">
+              Der KI-Dienst war nicht erreichbar{analysisResult?.fallbackReason ? ` (${analysisResult.fallbackReason})` : ''}.
+              Die Befunde stammen aus lokalen Regeln zu Struktur, Wortwahl und Umfang und sind weniger gründlich.
+              Wiederholen Sie die Analyse, sobald der Dienst wieder verfügbar ist.
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Score Display */}
       {hasAnalysisRun && (
         <div className="rounded-lg border border-border bg-card p-6 text-center shadow-card">
-          <p className="text-sm text-muted-foreground mb-2">Qualitätsscore</p>
+          <p className="text-sm text-muted-foreground mb-2">
+            {isOfflineAnalysis ? 'Qualitätsscore (Offline-Analyse)' : 'Qualitätsscore'}
+          </p>
           <p className={cn("text-5xl font-bold", getScoreColor(analysisScore))}>
             {analysisScore}
             <span className="text-2xl text-muted-foreground">/100</span>
@@ -149,8 +397,18 @@ export function AnalysisStep() {
         </div>
       )}
 
+      {/* Stage Timeline */}
+      {(isLoading || hasAnalysisRun || pipelineStages.length > 0) && (
+        <PipelineTimeline
+          stages={pipelineStages}
+          stageStates={stageStates}
+          onRerun={actions.rerunPipelineStageAction}
+          disabled={isLoading}
+        />
+      )}
+
       {/* Issues List */}
-      {hasAnalysisRun && (
+      {showIssues && (
         <>
           {analysisIssues.length > 0 ? (
             <div className="space-y-4">
@@ -165,87 +423,17 @@ export function AnalysisStep() {
                 )}
               </div>
 
-              {analysisIssues.map((issue) => (
-                <div
-                  key={issue.id}
-                  className={cn(
-                    "rounded-lg border p-4 transition-all",
-                    severityColors[issue.severity],
-                    issue.isRelevant && "ring-2 ring-primary/50"
-                  )}
-                >
-                  <div className="space-y-3">
-                    {/* Issue Header */}
-                    <div className="flex items-start gap-3">
-                      {getIssueIcon(issue.severity)}
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2 mb-1 flex-wrap">
-                          <span className="text-xs font-medium bg-muted px-2 py-0.5 rounded">
-                            {categoryLabels[issue.category]}
-                          </span>
-                        </div>
-                        
-                        {/* Text Reference */}
-                        {issue.textReference && (
-                          <div className="mt-2 p-2 rounded bg-background/50 border border-border/50">
-                            <p className="text-xs text-muted-foreground mb-1">Betroffene Textstelle:</p>
-                            <p className="text-sm font-mono text-foreground">"{issue.textReference}"</p>
-                          </div>
-                        )}
-
-                        {/* Reasoning */}
-                        <p className="text-sm font-medium text-foreground mt-2">{issue.reasoning}</p>
-
-                        {/* Clarification Question */}
-                        {issue.clarificationQuestion && (
-                          <div className="mt-2 p-2 rounded bg-primary/5 border border-primary/20">
-                            <p className="text-xs font-medium text-primary mb-1">Klärungsfrage:</p>
-                            <p className="text-sm text-foreground italic">{issue.clarificationQuestion}</p>
-                          </div>
-                        )}
-                      </div>
-                    </div>
-
-                    {/* Human-in-the-loop Controls */}
-                    <div className="border-t border-border/50 pt-3 space-y-3">
-                      {/* Relevance Toggle */}
-                      <div className="flex items-center gap-2">
-                        <Checkbox
-                          id={`relevant-${issue.id}`}
-                          checked={issue.isRelevant || false}
-                          onCheckedChange={(checked) => handleToggleRelevant(issue.id, checked === true)}
-                        />
-                        <label 
-                          htmlFor={`relevant-${issue.id}`}
-                          className="text-sm text-foreground cursor-pointer"
-                        >
-                          Als relevant für Rewrite markieren
-                        </label>
-                      </div>
-
-                      {/* User Note */}
-                      <div className="space-y-1">
-                        <button
-                          onClick={() => setExpandedIssueId(expandedIssueId === issue.id ? null : issue.id)}
-                          className="text-xs text-muted-foreground hover:text-foreground transition-colors"
-                        >
-                          {expandedIssueId === issue.id ? "Notiz ausblenden" : "Notiz hinzufügen"}
-                        </button>
-                        {(expandedIssueId === issue.id || issue.userNote) && (
-                          <Input
-                            placeholder="Ihre Notiz zu diesem Problem..."
-                            value={issue.userNote || ""}
-                            onChange={(e) => handleUpdateNote(issue.id, e.target.value)}
-                            className="text-sm"
-                          />
-                        )}
-                      </div>
-                    </div>
+              {issueGroups.map(group => (
+                <div key={group.key} className="space-y-3">
+                  <div className="flex items-center gap-2 pt-2">
+                    <h4 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{group.label}</h4>
+                    <span className="text-xs text-muted-foreground">({group.issues.length})</span>
                   </div>
+                  {group.issues.map(renderIssue)}
                 </div>
               ))}
             </div>
-          ) : (
+          ) : isLoading ? null : (
             <div className="rounded-lg border border-success/30 bg-success/5 p-4">
               <div className="flex items-center gap-3">
                 <CheckCircle className="h-5 w-5 text-success" />
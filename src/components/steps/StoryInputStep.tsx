@@ -27,6 +27,9 @@ import {
   fetchProjects, 
   fetchProjectDocuments, 
   uploadDocument,
+  hasExtension,
+  DOCUMENT_EXTENSIONS,
+  LOCAL_DOCUMENT_EXTENSIONS,
   Project, 
   ProjectDocument 
 } from "@/services/projectService";
@@ -81,14 +84,16 @@ export function StoryInputStep() {
     const files = Array.from(e.target.files || []);
     if (files.length === 0) return;
 
-    // Validate file types - only allow .txt and .md
-    const allowedExtensions = ['.txt', '.md'];
-    const invalidFiles = files.filter(f => !allowedExtensions.some(ext => f.name.toLowerCase().endsWith(ext)));
+    // Without a project the browser reads the files itself, so only text formats work
+    const allowedExtensions = selectedProjectId ? DOCUMENT_EXTENSIONS : LOCAL_DOCUMENT_EXTENSIONS;
+    const invalidFiles = files.filter(f => !hasExtension(f.name, allowedExtensions));
     
     if (invalidFiles.length > 0) {
       toast({ 
         title: 'Ungültiges Dateiformat', 
-        description: 'Nur .txt und .md Dateien werden unterstützt.',
+        description: selectedProjectId
+          ? 'Unterstützt werden PDF, Word (.docx), HTML, CSV, Markdown und Text.'
+          : 'Ohne Projekt werden nur .txt, .md und .csv Dateien unterstützt. Wählen Sie ein Projekt für PDF-, Word- und HTML-Dateien.',
         variant: 'destructive' 
       });
       if (fileInputRef.current) {
@@ -315,7 +320,7 @@ export function StoryInputStep() {
           multiple
           onChange={handleFileUpload}
           className="hidden"
-          accept=".txt,.md"
+          accept={(selectedProjectId ? DOCUMENT_EXTENSIONS : LOCAL_DOCUMENT_EXTENSIONS).join(',')}
         />
         
         <Button
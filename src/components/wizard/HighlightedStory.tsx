@@ -0,0 +1,78 @@
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { buildHighlightSegments, IssueHighlight } from "@/lib/issueHighlighting";
+import { IssueSeverity, QualityIssue } from "@/types/storyTypes";
+
+const highlightColors: Record<IssueSeverity, string> = {
+  critical: "bg-destructive/20 decoration-destructive",
+  major: "bg-warning/25 decoration-warning",
+  minor: "bg-primary/15 decoration-primary",
+  info: "bg-muted decoration-muted-foreground",
+};
+
+interface HighlightedStoryProps {
+  storyText: string;
+  issues: QualityIssue[];
+  highlights: IssueHighlight[];
+  focusedIssueId: string | null;
+  onFocusIssue: (issueId: string, scroll: boolean) => void;
+}
+
+export function HighlightedStory({ storyText, issues, highlights, focusedIssueId, onFocusIssue }: HighlightedStoryProps) {
+  const segments = useMemo(
+    () => buildHighlightSegments(storyText, highlights, issues),
+    [storyText, highlights, issues]
+  );
+  const approximateIds = useMemo(
+    () => new Set(highlights.filter(h => !h.exact).map(h => h.issueId)),
+    [highlights]
+  );
+
+  // Repeated clicks on overlapping highlights step through their issues
+  const handleClick = (issueIds: string[]) => {
+    const current = focusedIssueId ? issueIds.indexOf(focusedIssueId) : -1;
+    onFocusIssue(issueIds[(current + 1) % issueIds.length], true);
+  };
+
+  return (
+    <p className="text-sm text-foreground whitespace-pre-wrap">
+      {segments.map(segment => {
+        if (segment.issueIds.length === 0 || !segment.severity) {
+          return <span key={segment.start}>{segment.text}</span>;
+        }
+
+        const isFocused = focusedIssueId !== null && segment.issueIds.includes(focusedIssueId);
+        const isApproximate = segment.issueIds.every(id => approximateIds.has(id));
+        return (
+          <mark
+            key={segment.start}
+            role="button"
+            tabIndex={0}
+            title={
+              segment.issueIds.length > 1
+                ? `${segment.issueIds.length} Befunde an dieser Stelle`
+                : isApproximate ? "Ungefähre Fundstelle" : undefined
+            }
+            onMouseEnter={() => onFocusIssue(segment.issueIds[0], false)}
+            onClick={() => handleClick(segment.issueIds)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === " ") {
+                e.preventDefault();
+                handleClick(segment.issueIds);
+              }
+            }}
+            className={cn(
+              "rounded-sm px-0.5 text-foreground cursor-pointer transition-all",
+              highlightColors[segment.severity],
+              isApproximate && "bg-transparent underline decoration-dashed decoration-2 underline-offset-4",
+              segment.issueIds.length > 1 && "font-medium",
+              isFocused && "ring-2 ring-foreground/40"
+            )}
+          >
+            {segment.text}
+          </mark>
+        );
+      })}
+    </p>
+  );
+}
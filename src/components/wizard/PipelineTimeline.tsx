@@ -0,0 +1,117 @@
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { getOutdatedDependencies, StageState } from "@/lib/pipelineStatus";
+import { PIPELINE_STAGES, PipelineStage, PipelineStageResult, PROMPT_STAGE_LABELS } from "@/types/storyTypes";
+import { CheckCircle, Circle, Clock, Loader2, MinusCircle, RotateCcw, XCircle } from "lucide-react";
+
+const stateLabels: Record<StageState, string> = {
+  pending: "Ausstehend",
+  running: "Läuft",
+  completed: "Abgeschlossen",
+  skipped: "Übersprungen",
+  failed: "Fehlgeschlagen",
+  outdated: "Veraltet",
+};
+
+interface PipelineTimelineProps {
+  stages: PipelineStageResult[];
+  stageStates: Record<PipelineStage, StageState>;
+  onRerun: (stage: PipelineStage) => void;
+  disabled?: boolean;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+export function PipelineTimeline({ stages, stageStates, onRerun, disabled }: PipelineTimelineProps) {
+  const getStateIcon = (state: StageState) => {
+    switch (state) {
+      case "running":
+        return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+      case "completed":
+        return <CheckCircle className="h-4 w-4 text-success" />;
+      case "failed":
+        return <XCircle className="h-4 w-4 text-destructive" />;
+      case "outdated":
+        return <Clock className="h-4 w-4 text-warning" />;
+      case "skipped":
+        return <MinusCircle className="h-4 w-4 text-muted-foreground" />;
+      case "pending":
+        return <Circle className="h-4 w-4 text-muted-foreground" />;
+    }
+  };
+
+  const completedCount = PIPELINE_STAGES.filter(stage => stageStates[stage] === "completed").length;
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 shadow-card">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-foreground">Analyse-Stufen</h3>
+        <span className="text-xs text-muted-foreground">
+          {completedCount} von {PIPELINE_STAGES.length} Stufen aktuell
+        </span>
+      </div>
+
+      <ol className="space-y-1">
+        {PIPELINE_STAGES.map((stage, index) => {
+          const state = stageStates[stage];
+          const result = stages.find(s => s.stage === stage);
+          // Stages that did not run, failed or work on an older story can run on their own,
+          // once the stages they read from are current
+          const isRerunnable = state === "failed" || state === "outdated" || state === "pending";
+          const outdatedDependencies = isRerunnable ? getOutdatedDependencies(stage, stageStates) : [];
+          const canRerun = isRerunnable && outdatedDependencies.length === 0;
+
+          return (
+            <li key={stage} className="relative flex items-start gap-3 py-2">
+              {index < PIPELINE_STAGES.length - 1 && (
+                <div className="absolute left-[7px] top-7 h-[calc(100%-1rem)] w-px bg-border" />
+              )}
+              <div className="mt-0.5 bg-card">{getStateIcon(state)}</div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm font-medium text-foreground">{PROMPT_STAGE_LABELS[stage]}</span>
+                  <span
+                    className={cn(
+                      "text-xs px-2 py-0.5 rounded",
+                      state === "failed" ? "bg-destructive/10 text-destructive"
+                        : state === "outdated" ? "bg-warning/10 text-warning"
+                        : "bg-muted text-muted-foreground"
+                    )}
+                  >
+                    {stateLabels[state]}
+                  </span>
+                  {result && state !== "running" && (
+                    <span className="text-xs text-muted-foreground">
+                      {formatDuration(result.duration)} · {result.issues.length} Befunde
+                    </span>
+                  )}
+                </div>
+                {state === "failed" && result?.error && (
+                  <p className="text-xs text-destructive mt-1 break-words">{result.error}</p>
+                )}
+                {state === "outdated" && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Die Story oder eine vorherige Stufe hat sich seit diesem Lauf geändert.
+                  </p>
+                )}
+                {outdatedDependencies.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Führen Sie zuerst {outdatedDependencies.map(dep => PROMPT_STAGE_LABELS[dep]).join(", ")} erneut aus.
+                  </p>
+                )}
+              </div>
+              {canRerun && (
+                <Button variant="ghost" size="sm" onClick={() => onRerun(stage)} disabled={disabled}>
+                  <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                  {state === "pending" ? "Ausführen" : "Erneut ausführen"}
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -24,6 +24,7 @@ export type Database = {
           id: string
           metadata: Json | null
           project_id: string
+          search_vector: unknown | null
           token_count: number | null
         }
         Insert: {
@@ -35,6 +36,7 @@ export type Database = {
           id?: string
           metadata?: Json | null
           project_id: string
+          search_vector?: unknown | null
           token_count?: number | null
         }
         Update: {
@@ -46,6 +48,7 @@ export type Database = {
           id?: string
           metadata?: Json | null
           project_id?: string
+          search_vector?: unknown | null
           token_count?: number | null
         }
         Relationships: [
@@ -118,30 +121,616 @@ export type Database = {
           },
         ]
       }
+      eval_cases: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expected_benefit: string | null
+          expected_criteria_count: number | null
+          expected_goal: string | null
+          expected_issue_categories: string[]
+          expected_role: string | null
+          id: string
+          name: string
+          notes: string | null
+          story_text: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expected_benefit?: string | null
+          expected_criteria_count?: number | null
+          expected_goal?: string | null
+          expected_issue_categories?: string[]
+          expected_role?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          story_text: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expected_benefit?: string | null
+          expected_criteria_count?: number | null
+          expected_goal?: string | null
+          expected_issue_categories?: string[]
+          expected_role?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          story_text?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      eval_runs: {
+        Row: {
+          case_count: number
+          case_results: Json
+          created_at: string
+          created_by: string | null
+          failed_count: number
+          id: string
+          label: string
+          metrics: Json
+          model: string
+          prompt_version: string
+          provider: string
+        }
+        Insert: {
+          case_count?: number
+          case_results?: Json
+          created_at?: string
+          created_by?: string | null
+          failed_count?: number
+          id?: string
+          label: string
+          metrics?: Json
+          model: string
+          prompt_version: string
+          provider: string
+        }
+        Update: {
+          case_count?: number
+          case_results?: Json
+          created_at?: string
+          created_by?: string | null
+          failed_count?: number
+          id?: string
+          label?: string
+          metrics?: Json
+          model?: string
+          prompt_version?: string
+          provider?: string
+        }
+        Relationships: []
+      }
+      experiment_signals: {
+        Row: {
+          call_id: string | null
+          created_at: string
+          created_by: string | null
+          experiment_id: string
+          id: string
+          signal: string
+          story_id: string | null
+          target_id: string | null
+          variant: string
+        }
+        Insert: {
+          call_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          experiment_id: string
+          id?: string
+          signal: string
+          story_id?: string | null
+          target_id?: string | null
+          variant: string
+        }
+        Update: {
+          call_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          experiment_id?: string
+          id?: string
+          signal?: string
+          story_id?: string | null
+          target_id?: string | null
+          variant?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "experiment_signals_call_id_fkey"
+            columns: ["call_id"]
+            isOneToOne: false
+            referencedRelation: "llm_calls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "experiment_signals_experiment_id_fkey"
+            columns: ["experiment_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_experiments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      few_shot_examples: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expected_output: string
+          explanation: string | null
+          id: string
+          input: string
+          is_active: boolean
+          language: string
+          project_id: string | null
+          stage: string
+          tags: string[]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expected_output: string
+          explanation?: string | null
+          id?: string
+          input: string
+          is_active?: boolean
+          language?: string
+          project_id?: string | null
+          stage: string
+          tags?: string[]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expected_output?: string
+          explanation?: string | null
+          id?: string
+          input?: string
+          is_active?: boolean
+          language?: string
+          project_id?: string | null
+          stage?: string
+          tags?: string[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "few_shot_examples_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      llm_calls: {
+        Row: {
+          cached: boolean
+          client_id: string | null
+          completion_tokens: number
+          created_at: string
+          error_message: string | null
+          estimated_cost: number | null
+          experiment_id: string | null
+          experiment_variant: string | null
+          id: string
+          latency_ms: number
+          model: string
+          operation: string
+          project_id: string | null
+          prompt_tokens: number
+          prompt_version: string
+          provider: string
+          retry_count: number
+          story_id: string | null
+          success: boolean
+          total_tokens: number
+          user_id: string | null
+        }
+        Insert: {
+          cached?: boolean
+          client_id?: string | null
+          completion_tokens?: number
+          created_at?: string
+          error_message?: string | null
+          estimated_cost?: number | null
+          experiment_id?: string | null
+          experiment_variant?: string | null
+          id?: string
+          latency_ms?: number
+          model: string
+          operation: string
+          project_id?: string | null
+          prompt_tokens?: number
+          prompt_version: string
+          provider: string
+          retry_count?: number
+          story_id?: string | null
+          success: boolean
+          total_tokens?: number
+          user_id?: string | null
+        }
+        Update: {
+          cached?: boolean
+          client_id?: string | null
+          completion_tokens?: number
+          created_at?: string
+          error_message?: string | null
+          estimated_cost?: number | null
+          experiment_id?: string | null
+          experiment_variant?: string | null
+          id?: string
+          latency_ms?: number
+          model?: string
+          operation?: string
+          project_id?: string | null
+          prompt_tokens?: number
+          prompt_version?: string
+          provider?: string
+          retry_count?: number
+          story_id?: string | null
+          success?: boolean
+          total_tokens?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "llm_calls_experiment_id_fkey"
+            columns: ["experiment_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_experiments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      llm_requests: {
+        Row: {
+          client_id: string | null
+          created_at: string
+          id: string
+          operation: string
+          project_id: string | null
+        }
+        Insert: {
+          client_id?: string | null
+          created_at?: string
+          id?: string
+          operation: string
+          project_id?: string | null
+        }
+        Update: {
+          client_id?: string | null
+          created_at?: string
+          id?: string
+          operation?: string
+          project_id?: string | null
+        }
+        Relationships: []
+      }
+      llm_response_cache: {
+        Row: {
+          cache_key: string
+          coercions: Json | null
+          created_at: string
+          expires_at: string
+          model: string
+          operation: string
+          prompt_version: string
+          response: Json
+        }
+        Insert: {
+          cache_key: string
+          coercions?: Json | null
+          created_at?: string
+          expires_at: string
+          model: string
+          operation: string
+          prompt_version: string
+          response: Json
+        }
+        Update: {
+          cache_key?: string
+          coercions?: Json | null
+          created_at?: string
+          expires_at?: string
+          model?: string
+          operation?: string
+          prompt_version?: string
+          response?: Json
+        }
+        Relationships: []
+      }
+      project_members: {
+        Row: {
+          created_at: string
+          id: string
+          project_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          project_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          project_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_members_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_quality_rules: {
+        Row: {
+          category: string
+          check_criteria: string
+          created_at: string
+          created_by: string | null
+          description: string
+          id: string
+          is_active: boolean
+          name: string
+          project_id: string
+          updated_at: string
+        }
+        Insert: {
+          category?: string
+          check_criteria: string
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          project_id: string
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          check_criteria?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          project_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_quality_rules_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_vocabulary: {
+        Row: {
+          avoid_terms: string[]
+          created_at: string
+          created_by: string | null
+          definition: string
+          id: string
+          project_id: string
+          synonyms: string[]
+          term: string
+          updated_at: string
+        }
+        Insert: {
+          avoid_terms?: string[]
+          created_at?: string
+          created_by?: string | null
+          definition: string
+          id?: string
+          project_id: string
+          synonyms?: string[]
+          term: string
+          updated_at?: string
+        }
+        Update: {
+          avoid_terms?: string[]
+          created_at?: string
+          created_by?: string | null
+          definition?: string
+          id?: string
+          project_id?: string
+          synonyms?: string[]
+          term?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_vocabulary_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       projects: {
         Row: {
+          chunk_overlap: number
+          chunk_size: number
           created_at: string
           created_by: string | null
           description: string | null
+          embedding_model: string
           id: string
+          is_public: boolean
+          llm_client_cost_per_day: number | null
+          llm_client_requests_per_minute: number | null
+          llm_client_tokens_per_day: number | null
+          llm_cost_per_day: number | null
+          llm_requests_per_minute: number | null
+          llm_tokens_per_day: number | null
           name: string
+          retrieval_reranking: boolean
+          retrieval_threshold: number
+          retrieval_top_k: number
           updated_at: string
         }
         Insert: {
+          chunk_overlap?: number
+          chunk_size?: number
           created_at?: string
           created_by?: string | null
           description?: string | null
+          embedding_model?: string
           id?: string
+          is_public?: boolean
+          llm_client_cost_per_day?: number | null
+          llm_client_requests_per_minute?: number | null
+          llm_client_tokens_per_day?: number | null
+          llm_cost_per_day?: number | null
+          llm_requests_per_minute?: number | null
+          llm_tokens_per_day?: number | null
           name: string
+          retrieval_reranking?: boolean
+          retrieval_threshold?: number
+          retrieval_top_k?: number
           updated_at?: string
         }
         Update: {
+          chunk_overlap?: number
+          chunk_size?: number
           created_at?: string
           created_by?: string | null
           description?: string | null
+          embedding_model?: string
+          id?: string
+          is_public?: boolean
+          llm_client_cost_per_day?: number | null
+          llm_client_requests_per_minute?: number | null
+          llm_client_tokens_per_day?: number | null
+          llm_cost_per_day?: number | null
+          llm_requests_per_minute?: number | null
+          llm_tokens_per_day?: number | null
+          name?: string
+          retrieval_reranking?: boolean
+          retrieval_threshold?: number
+          retrieval_top_k?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      prompt_experiments: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          ended_at: string | null
+          id: string
+          name: string
+          stage: string
+          started_at: string
+          status: string
+          traffic_percent_b: number
+          updated_at: string
+          variant_a_version: string
+          variant_b_version: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          ended_at?: string | null
+          id?: string
+          name: string
+          stage: string
+          started_at?: string
+          status?: string
+          traffic_percent_b?: number
+          updated_at?: string
+          variant_a_version: string
+          variant_b_version: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          ended_at?: string | null
           id?: string
           name?: string
+          stage?: string
+          started_at?: string
+          status?: string
+          traffic_percent_b?: number
+          updated_at?: string
+          variant_a_version?: string
+          variant_b_version?: string
+        }
+        Relationships: []
+      }
+      prompt_templates: {
+        Row: {
+          activated_at: string | null
+          created_at: string
+          created_by: string | null
+          examples: Json | null
+          id: string
+          is_active: boolean
+          output_schema: Json
+          quality_rules: Json | null
+          stage: string
+          system_prompt: string
+          updated_at: string
+          user_prompt_template: string
+          variables: Json
+          version: string
+          vocabulary: Json | null
+        }
+        Insert: {
+          activated_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          examples?: Json | null
+          id?: string
+          is_active?: boolean
+          output_schema?: Json
+          quality_rules?: Json | null
+          stage: string
+          system_prompt: string
           updated_at?: string
+          user_prompt_template?: string
+          variables?: Json
+          version: string
+          vocabulary?: Json | null
+        }
+        Update: {
+          activated_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          examples?: Json | null
+          id?: string
+          is_active?: boolean
+          output_schema?: Json
+          quality_rules?: Json | null
+          stage?: string
+          system_prompt?: string
+          updated_at?: string
+          user_prompt_template?: string
+          variables?: Json
+          version?: string
+          vocabulary?: Json | null
         }
         Relationships: []
       }
@@ -269,6 +858,101 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      activate_prompt_template: {
+        Args: { p_template_id: string }
+        Returns: undefined
+      }
+      add_project_member: {
+        Args: { p_email: string; p_project_id: string }
+        Returns: string
+      }
+      admit_llm_request: {
+        Args: {
+          p_client_cost_per_day: number
+          p_client_id: string
+          p_client_requests_per_minute: number
+          p_client_tokens_per_day: number
+          p_operation: string
+          p_project_cost_per_day: number
+          p_project_id: string
+          p_project_requests_per_minute: number
+          p_project_tokens_per_day: number
+          p_request_count?: number
+        }
+        Returns: {
+          admitted: boolean
+          client_cost_today: number
+          client_oldest_request_at: string
+          client_requests_last_minute: number
+          client_tokens_today: number
+          project_cost_today: number
+          project_oldest_request_at: string
+          project_requests_last_minute: number
+          project_tokens_today: number
+        }[]
+      }
+      can_access_project: {
+        Args: { _project_id: string; _user_id: string }
+        Returns: boolean
+      }
+      deactivate_prompt_stage: {
+        Args: { p_stage: string }
+        Returns: undefined
+      }
+      get_experiment_results: {
+        Args: { p_experiment_id: string }
+        Returns: {
+          avg_latency_ms: number
+          call_count: number
+          criteria_rejected: number
+          estimated_cost: number
+          failed_count: number
+          issues_marked_relevant: number
+          prompt_version: string
+          rewrites_accepted: number
+          variant: string
+        }[]
+      }
+      get_llm_usage_by_project: {
+        Args: never
+        Returns: {
+          avg_latency_ms: number
+          cached_count: number
+          call_count: number
+          completion_tokens: number
+          estimated_cost: number
+          failed_count: number
+          last_call_at: string
+          project_id: string
+          prompt_tokens: number
+          total_tokens: number
+        }[]
+      }
+      get_llm_usage_by_story: {
+        Args: { p_project_id?: string }
+        Returns: {
+          avg_latency_ms: number
+          cached_count: number
+          call_count: number
+          completion_tokens: number
+          estimated_cost: number
+          failed_count: number
+          last_call_at: string
+          project_id: string
+          prompt_tokens: number
+          story_id: string
+          total_tokens: number
+        }[]
+      }
+      get_project_members: {
+        Args: { p_project_id: string }
+        Returns: {
+          created_at: string
+          email: string
+          id: string
+          user_id: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -276,6 +960,20 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_own_experiment_call: {
+        Args: {
+          _call_id: string
+          _experiment_id: string
+          _user_id: string
+          _variant: string
+        }
+        Returns: boolean
+      }
+      purge_expired_llm_cache: { Args: never; Returns: number }
+      rollback_prompt_stage: {
+        Args: { p_stage: string }
+        Returns: string
+      }
       save_story: {
         Args: {
           p_acceptance_criteria?: Json
@@ -306,6 +1004,26 @@ export type Database = {
           similarity: number
         }[]
       }
+      search_document_chunks_hybrid: {
+        Args: {
+          match_count?: number
+          match_threshold?: number
+          p_project_id: string
+          query_embedding?: string
+          query_text: string
+          rrf_k?: number
+          search_mode?: string
+        }
+        Returns: {
+          content: string
+          document_id: string
+          id: string
+          keyword_rank: number
+          metadata: Json
+          score: number
+          similarity: number
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "user"
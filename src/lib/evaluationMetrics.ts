@@ -0,0 +1,247 @@
+import {
+  CategoryMetrics,
+  EvalCase,
+  EvalCaseResult,
+  EvalMetrics,
+  EvalRun,
+  IssueCategory,
+  PipelineStage,
+  StructureField,
+  StructuredStoryModel,
+} from '@/types/storyTypes';
+
+export const STRUCTURE_FIELDS: StructureField[] = ['role', 'goal', 'benefit'];
+
+// What the pipeline produced for one case, reduced to the evaluated parts
+export interface EvalObservation {
+  categories: IssueCategory[];
+  structuredModel?: StructuredStoryModel;
+  criteriaCount?: number;
+  failedStages: PipelineStage[];
+  duration: number;
+}
+
+export interface CategoryComparison {
+  category: IssueCategory;
+  base?: CategoryMetrics;
+  candidate?: CategoryMetrics;
+  precisionDelta: number | null;
+  recallDelta: number | null;
+}
+
+export interface CaseComparison {
+  caseId: string;
+  caseName: string;
+  // Categories the candidate gets right and the base got wrong, and vice versa
+  fixed: IssueCategory[];
+  regressed: IssueCategory[];
+}
+
+export interface EvalComparison {
+  categories: CategoryComparison[];
+  microPrecisionDelta: number | null;
+  microRecallDelta: number | null;
+  structureAccuracyDelta: number | null;
+  criteriaCountExactRateDelta: number | null;
+  cases: CaseComparison[];
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function delta(base: number | null, candidate: number | null): number | null {
+  return base !== null && candidate !== null ? candidate - base : null;
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Extracted parts rarely match the label word for word ("Vertriebsmitarbeiter"
+ * vs. "ein Vertriebsmitarbeiter"), so containment after normalisation counts.
+ */
+export function structureFieldMatches(expected: string, actual: string | undefined): boolean {
+  const a = normalize(expected);
+  const b = normalize(actual || '');
+  if (!a || !b) return false;
+  return a === b || a.includes(b) || b.includes(a);
+}
+
+function expectedStructure(evalCase: EvalCase): Partial<Record<StructureField, string>> {
+  return {
+    role: evalCase.expectedRole?.trim() || undefined,
+    goal: evalCase.expectedGoal?.trim() || undefined,
+    benefit: evalCase.expectedBenefit?.trim() || undefined,
+  };
+}
+
+export function scoreEvalCase(evalCase: EvalCase, observation: EvalObservation): EvalCaseResult {
+  const expected = expectedStructure(evalCase);
+  const structureMatches: EvalCaseResult['structureMatches'] = {};
+  for (const field of STRUCTURE_FIELDS) {
+    const label = expected[field];
+    if (label) {
+      structureMatches[field] = structureFieldMatches(label, observation.structuredModel?.[field]);
+    }
+  }
+
+  return {
+    caseId: evalCase.id,
+    caseName: evalCase.name,
+    status: 'completed',
+    expectedCategories: [...new Set(evalCase.expectedIssueCategories)],
+    predictedCategories: [...new Set(observation.categories)],
+    extracted: observation.structuredModel
+      ? {
+          role: observation.structuredModel.role,
+          goal: observation.structuredModel.goal,
+          benefit: observation.structuredModel.benefit,
+        }
+      : undefined,
+    structureMatches,
+    expectedCriteriaCount: evalCase.expectedCriteriaCount,
+    criteriaCount: observation.criteriaCount,
+    failedStages: observation.failedStages,
+    duration: observation.duration,
+  };
+}
+
+export function failedEvalCase(evalCase: EvalCase, error: string, duration: number): EvalCaseResult {
+  return {
+    caseId: evalCase.id,
+    caseName: evalCase.name,
+    status: 'failed',
+    error,
+    expectedCategories: [...new Set(evalCase.expectedIssueCategories)],
+    predictedCategories: [],
+    structureMatches: {},
+    expectedCriteriaCount: evalCase.expectedCriteriaCount,
+    failedStages: [],
+    duration,
+  };
+}
+
+/**
+ * Aggregates the case results of a run. Categories are compared as sets per
+ * case: several issues of one category count once. Failed cases are left out,
+ * they would otherwise show up as missed categories.
+ */
+export function computeEvalMetrics(results: EvalCaseResult[]): EvalMetrics {
+  const completed = results.filter(r => r.status === 'completed');
+  const counts: Partial<Record<IssueCategory, { tp: number; fp: number; fn: number }>> = {};
+  const count = (category: IssueCategory) => (counts[category] ??= { tp: 0, fp: 0, fn: 0 });
+
+  for (const result of completed) {
+    const expected = new Set(result.expectedCategories);
+    const predicted = new Set(result.predictedCategories);
+    for (const category of predicted) {
+      if (expected.has(category)) count(category).tp++;
+      else count(category).fp++;
+    }
+    for (const category of expected) {
+      if (!predicted.has(category)) count(category).fn++;
+    }
+  }
+
+  const categories: EvalMetrics['categories'] = {};
+  let tp = 0;
+  let fp = 0;
+  let fn = 0;
+  for (const [category, c] of Object.entries(counts) as [IssueCategory, { tp: number; fp: number; fn: number }][]) {
+    categories[category] = {
+      truePositives: c.tp,
+      falsePositives: c.fp,
+      falseNegatives: c.fn,
+      precision: ratio(c.tp, c.tp + c.fp),
+      recall: ratio(c.tp, c.tp + c.fn),
+    };
+    tp += c.tp;
+    fp += c.fp;
+    fn += c.fn;
+  }
+
+  const structureChecks = completed.flatMap(r => Object.values(r.structureMatches));
+  const criteriaResults = completed.filter(
+    r => r.expectedCriteriaCount !== undefined && r.expectedCriteriaCount !== null && r.criteriaCount !== undefined
+  );
+  const criteriaErrors = criteriaResults.map(r => Math.abs(r.criteriaCount! - r.expectedCriteriaCount!));
+
+  return {
+    categories,
+    microPrecision: ratio(tp, tp + fp),
+    microRecall: ratio(tp, tp + fn),
+    structureAccuracy: ratio(structureChecks.filter(Boolean).length, structureChecks.length),
+    structureFieldsChecked: structureChecks.length,
+    criteriaCountExactRate: ratio(criteriaErrors.filter(e => e === 0).length, criteriaErrors.length),
+    criteriaCountMeanAbsError: ratio(criteriaErrors.reduce((sum, e) => sum + e, 0), criteriaErrors.length),
+    failedStageCount: completed.reduce((sum, r) => sum + r.failedStages.length, 0),
+  };
+}
+
+// Categories of a case that were classified correctly, present or absent
+function correctCategories(result: EvalCaseResult, universe: IssueCategory[]): Set<IssueCategory> {
+  const expected = new Set(result.expectedCategories);
+  const predicted = new Set(result.predictedCategories);
+  return new Set(universe.filter(c => expected.has(c) === predicted.has(c)));
+}
+
+/**
+ * Compares two runs, typically the same dataset on two prompt versions.
+ * Deltas are candidate minus base; cases are matched by id and only cases
+ * that completed in both runs are compared.
+ */
+export function compareEvalRuns(base: EvalRun, candidate: EvalRun): EvalComparison {
+  const categoryNames = [...new Set([
+    ...Object.keys(base.metrics.categories),
+    ...Object.keys(candidate.metrics.categories),
+  ])].sort() as IssueCategory[];
+
+  const categories = categoryNames.map(category => {
+    const b = base.metrics.categories[category];
+    const c = candidate.metrics.categories[category];
+    return {
+      category,
+      base: b,
+      candidate: c,
+      precisionDelta: delta(b?.precision ?? null, c?.precision ?? null),
+      recallDelta: delta(b?.recall ?? null, c?.recall ?? null),
+    };
+  });
+
+  const baseResults = new Map(base.caseResults.map(r => [r.caseId, r]));
+  const cases: CaseComparison[] = [];
+  for (const result of candidate.caseResults) {
+    const previous = baseResults.get(result.caseId);
+    if (!previous || previous.status !== 'completed' || result.status !== 'completed') continue;
+
+    const universe = [...new Set([
+      ...previous.expectedCategories,
+      ...previous.predictedCategories,
+      ...result.expectedCategories,
+      ...result.predictedCategories,
+    ])];
+    const before = correctCategories(previous, universe);
+    const after = correctCategories(result, universe);
+    const fixed = universe.filter(c => after.has(c) && !before.has(c));
+    const regressed = universe.filter(c => before.has(c) && !after.has(c));
+
+    if (fixed.length > 0 || regressed.length > 0) {
+      cases.push({ caseId: result.caseId, caseName: result.caseName, fixed, regressed });
+    }
+  }
+
+  return {
+    categories,
+    microPrecisionDelta: delta(base.metrics.microPrecision, candidate.metrics.microPrecision),
+    microRecallDelta: delta(base.metrics.microRecall, candidate.metrics.microRecall),
+    structureAccuracyDelta: delta(base.metrics.structureAccuracy, candidate.metrics.structureAccuracy),
+    criteriaCountExactRateDelta: delta(base.metrics.criteriaCountExactRate, candidate.metrics.criteriaCountExactRate),
+    cases,
+  };
+}
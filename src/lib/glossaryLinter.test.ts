@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { VocabularyEntry } from '@/types/storyTypes';
+import { applyGlossaryReplacement, findTermOccurrences, lintGlossary, mergeGlossary } from './glossaryLinter';
+
+const VOCABULARY: VocabularyEntry[] = [
+  { term: 'Benutzer', definition: 'Aktiver Systemnutzer', avoidTerms: ['jemand', 'man'] },
+  { term: 'möchte ich', definition: 'Gewünschtes Ziel', avoidTerms: ['brauche', 'muss haben'] },
+];
+
+describe('findTermOccurrences', () => {
+  it('matches whole words case-insensitively', () => {
+    expect(findTermOccurrences('Man fragt den Manager, ob man darf.', 'man')).toEqual([
+      { start: 0, end: 3 },
+      { start: 26, end: 29 },
+    ]);
+  });
+
+  it('lets inner spaces of a term match any whitespace', () => {
+    expect(findTermOccurrences('Das muss\nhaben wir.', 'muss haben')).toEqual([{ start: 4, end: 14 }]);
+  });
+
+  it('finds nothing for an empty term', () => {
+    expect(findTermOccurrences('Text', '  ')).toEqual([]);
+  });
+});
+
+describe('mergeGlossary', () => {
+  it('replaces built-in entries with project entries of the same term', () => {
+    const project: VocabularyEntry[] = [
+      { term: 'benutzer', definition: 'Kunde im Portal' },
+      { term: 'Mandant', definition: 'Firma' },
+    ];
+    expect(mergeGlossary(VOCABULARY, project).map(v => v.definition)).toEqual([
+      'Gewünschtes Ziel',
+      'Kunde im Portal',
+      'Firma',
+    ]);
+  });
+});
+
+describe('lintGlossary', () => {
+  it('flags avoided terms with offsets and the preferred term', () => {
+    const [issue] = lintGlossary('Als Admin brauche ich einen Export.', VOCABULARY);
+    expect(issue).toMatchObject({
+      id: 'rule-10-21',
+      source: 'rule',
+      textReference: 'brauche ich',
+      replacement: 'möchte ich',
+      textSpan: { start: 10, end: 21 },
+    });
+  });
+
+  it('capitalizes the replacement at the start of a sentence', () => {
+    const [issue] = lintGlossary('Jemand soll Berichte sehen.', VOCABULARY);
+    expect(issue.replacement).toBe('Benutzer');
+  });
+
+  it('yields the same ids for the same text', () => {
+    const text = 'Man muss haben, dass jemand exportiert.';
+    expect(lintGlossary(text, VOCABULARY).map(i => i.id)).toEqual(lintGlossary(text, VOCABULARY).map(i => i.id));
+    expect(lintGlossary(text, VOCABULARY)).toHaveLength(3);
+  });
+});
+
+describe('applyGlossaryReplacement', () => {
+  it('replaces the term and moves the later issues', () => {
+    const text = 'Jemand sagt, man brauche Export.';
+    const issues = lintGlossary(text, VOCABULARY);
+    const result = applyGlossaryReplacement(text, issues, issues[0].id);
+
+    expect(result?.storyText).toBe('Benutzer sagt, man brauche Export.');
+    expect(result?.issues).toHaveLength(2);
+    for (const issue of result!.issues) {
+      expect(result!.storyText.slice(issue.textSpan!.start, issue.textSpan!.end)).toBe(issue.textReference);
+    }
+  });
+
+  it('returns null when the text changed at that position', () => {
+    const issues = lintGlossary('Jemand sagt etwas.', VOCABULARY);
+    expect(applyGlossaryReplacement('Niemand sagt etwas.', issues, issues[0].id)).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+import type { QualityIssue, TextSpan, VocabularyEntry } from '@/types/storyTypes';
+
+interface GlossaryMatch {
+  start: number;
+  end: number;
+  avoidTerm: string;
+  preferredTerm: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole words only, so "man" does not hit "Manager"; inner spaces match any whitespace
+function termPattern(term: string): RegExp {
+  const words = term.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+  return new RegExp(`(?<![\\p{L}\\d])${words}(?![\\p{L}\\d])`, 'giu');
+}
+
+/** Case-insensitive whole-word occurrences of a term */
+export function findTermOccurrences(text: string, term: string): TextSpan[] {
+  if (!term.trim()) return [];
+  return [...text.matchAll(termPattern(term))].map(match => {
+    const start = match.index ?? 0;
+    return { start, end: start + match[0].length };
+  });
+}
+
+/** Project entries replace built-in ones with the same term, the rest are appended */
+export function mergeGlossary(base: VocabularyEntry[], project: VocabularyEntry[]): VocabularyEntry[] {
+  const overridden = new Set(project.map(v => v.term.toLowerCase()));
+  return [...base.filter(v => !overridden.has(v.term.toLowerCase())), ...project];
+}
+
+function findMatches(storyText: string, vocabulary: VocabularyEntry[]): GlossaryMatch[] {
+  const matches: GlossaryMatch[] = [];
+  for (const entry of vocabulary) {
+    for (const avoidTerm of entry.avoidTerms || []) {
+      for (const span of findTermOccurrences(storyText, avoidTerm)) {
+        matches.push({ ...span, avoidTerm, preferredTerm: entry.term });
+      }
+    }
+  }
+
+  // Of overlapping hits the earliest and then the longest wins
+  matches.sort((a, b) => a.start - b.start || b.end - a.end);
+  const result: GlossaryMatch[] = [];
+  for (const match of matches) {
+    const previous = result[result.length - 1];
+    if (previous && match.start < previous.end) continue;
+    result.push(match);
+  }
+  return result;
+}
+
+// "brauche ich" becomes "möchte ich" rather than "möchte ich ich"
+function extendOverRepeatedWord(storyText: string, match: GlossaryMatch): number {
+  const lastWord = match.preferredTerm.trim().split(/\s+/).pop();
+  if (!lastWord || lastWord.toLowerCase() === match.preferredTerm.trim().toLowerCase()) return match.end;
+
+  const following = storyText.slice(match.end).match(/^\s+([\p{L}\d]+)/u);
+  if (following && following[1].toLowerCase() === lastWord.toLowerCase()) {
+    return match.end + following[0].length;
+  }
+  return match.end;
+}
+
+// Keeps a capital letter at the start of a sentence
+function matchCase(replacement: string, original: string): string {
+  const first = original.charAt(0);
+  if (first !== first.toUpperCase() || first === first.toLowerCase()) return replacement;
+  return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+}
+
+/**
+ * Flags every avoided glossary term in the story. The issues carry the exact
+ * offsets and the preferred term, so they can be fixed without an LLM call.
+ * Ids derive from the offsets, the same text always yields the same issues.
+ */
+export function lintGlossary(storyText: string, vocabulary: VocabularyEntry[]): QualityIssue[] {
+  return findMatches(storyText, vocabulary).map(match => {
+    const end = extendOverRepeatedWord(storyText, match);
+    const textReference = storyText.slice(match.start, end);
+    const replacement = matchCase(match.preferredTerm, textReference);
+
+    return {
+      id: `rule-${match.start}-${end}`,
+      category: 'vague_language',
+      severity: 'minor',
+      affectedSection: 'overall',
+      textReference,
+      reasoning: `"${match.avoidTerm}" steht im Glossar als zu vermeidender Begriff, bevorzugt wird "${match.preferredTerm}".`,
+      suggestedAction: `"${textReference}" durch "${replacement}" ersetzen`,
+      confidence: 'high',
+      source: 'rule',
+      textSpan: { start: match.start, end },
+      replacement,
+    };
+  });
+}
+
+/**
+ * Applies the replacement of a rule issue. The other rule issues keep their
+ * user notes, their offsets move with the text. Returns null when the text
+ * no longer holds the flagged term at that position.
+ */
+export function applyGlossaryReplacement(
+  storyText: string,
+  issues: QualityIssue[],
+  id: string
+): { storyText: string; issues: QualityIssue[] } | null {
+  const issue = issues.find(i => i.id === id);
+  if (!issue?.textSpan || issue.replacement === undefined) return null;
+
+  const { start, end } = issue.textSpan;
+  if (storyText.slice(start, end) !== issue.textReference) return null;
+
+  const delta = issue.replacement.length - (end - start);
+  return {
+    storyText: storyText.slice(0, start) + issue.replacement + storyText.slice(end),
+    issues: issues
+      .filter(i => i.id !== id)
+      .map(i => i.textSpan && i.textSpan.start >= end
+        ? { ...i, textSpan: { start: i.textSpan.start + delta, end: i.textSpan.end + delta } }
+        : i
+      ),
+  };
+}
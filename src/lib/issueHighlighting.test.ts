@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { IssueSeverity, QualityIssue } from '@/types/storyTypes';
+import { buildHighlightSegments, locateIssues, locateTextReference } from './issueHighlighting';
+
+const STORY = 'Als Admin möchte ich Rechnungen exportieren.';
+
+function issue(id: string, severity: IssueSeverity, textReference: string, textSpan?: QualityIssue['textSpan']): QualityIssue {
+  return {
+    id,
+    category: 'vague_language',
+    severity,
+    affectedSection: 'overall',
+    textReference,
+    reasoning: '',
+    confidence: 'high',
+    textSpan,
+  };
+}
+
+describe('locateTextReference', () => {
+  it('finds a verbatim quote without its quotation marks', () => {
+    expect(locateTextReference(STORY, '„Rechnungen exportieren“')).toEqual({ span: { start: 21, end: 43 }, exact: true });
+  });
+
+  it('treats different case and spacing as exact', () => {
+    expect(locateTextReference(STORY, 'rechnungen   Exportieren')).toEqual({ span: { start: 21, end: 43 }, exact: true });
+  });
+
+  it('falls back to the closest words for inflected quotes', () => {
+    expect(locateTextReference(STORY, 'Rechnung exportieren')).toEqual({ span: { start: 21, end: 43 }, exact: false });
+  });
+
+  it('gives up when too few words match', () => {
+    expect(locateTextReference(STORY, 'Lieferanten anlegen')).toBeNull();
+    expect(locateTextReference(STORY, '  ')).toBeNull();
+  });
+});
+
+describe('locateIssues', () => {
+  it('keeps valid spans, searches stale ones and drops what is not found', () => {
+    const issues = [
+      issue('a', 'minor', 'Admin', { start: 4, end: 9 }),
+      issue('b', 'major', 'Rechnungen', { start: 0, end: 10 }),
+      issue('c', 'info', 'Lieferanten'),
+    ];
+    expect(locateIssues(STORY, issues)).toEqual([
+      { issueId: 'a', span: { start: 4, end: 9 }, exact: true },
+      { issueId: 'b', span: { start: 21, end: 31 }, exact: true },
+    ]);
+  });
+});
+
+describe('buildHighlightSegments', () => {
+  it('splits overlapping highlights and colors them by the most severe issue', () => {
+    const issues = [issue('minor', 'minor', 'bcd'), issue('critical', 'critical', 'cde')];
+    const segments = buildHighlightSegments(
+      'abcdef',
+      [
+        { issueId: 'minor', span: { start: 1, end: 4 }, exact: true },
+        { issueId: 'critical', span: { start: 2, end: 5 }, exact: true },
+      ],
+      issues
+    );
+
+    expect(segments.map(s => [s.text, s.issueIds, s.severity])).toEqual([
+      ['a', [], null],
+      ['b', ['minor'], 'minor'],
+      ['cd', ['critical', 'minor'], 'critical'],
+      ['e', ['critical'], 'critical'],
+      ['f', [], null],
+    ]);
+  });
+
+  it('returns the whole story as one segment without highlights', () => {
+    expect(buildHighlightSegments(STORY, [], [])).toEqual([
+      { start: 0, end: STORY.length, text: STORY, issueIds: [], severity: null },
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+import type { IssueSeverity, QualityIssue, TextSpan } from '@/types/storyTypes';
+
+// Share of the quoted words a fuzzy match has to find in the story
+const MIN_FUZZY_SCORE = 0.6;
+
+// Inflected forms ("Rechnung", "Rechnungen") count as the same word
+const STEM_LENGTH = 5;
+
+const SEVERITY_RANK: Record<IssueSeverity, number> = {
+  critical: 0,
+  major: 1,
+  minor: 2,
+  info: 3,
+};
+
+export interface IssueHighlight {
+  issueId: string;
+  span: TextSpan;
+  // false when the story does not contain the quoted words and the span is the closest match
+  exact: boolean;
+}
+
+export interface HighlightSegment {
+  start: number;
+  end: number;
+  text: string;
+  // Most severe issue first
+  issueIds: string[];
+  severity: IssueSeverity | null;
+}
+
+interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+function words(text: string): Word[] {
+  return [...text.matchAll(/[\p{L}\d]+/gu)].map(match => ({
+    text: match[0].toLowerCase(),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+function sameWord(a: string, b: string): boolean {
+  if (a === b) return true;
+  return a.length >= STEM_LENGTH && b.length >= STEM_LENGTH && a.slice(0, STEM_LENGTH) === b.slice(0, STEM_LENGTH);
+}
+
+/**
+ * Finds the quote of an issue in the story. Tries the verbatim quote first,
+ * then the same words with different case, spacing or punctuation, and at
+ * last the window of story words that shares the most words with the quote.
+ */
+export function locateTextReference(storyText: string, reference: string): { span: TextSpan; exact: boolean } | null {
+  const quote = reference.trim().replace(/^["'„“»]+|["'“”«]+$/g, '');
+  if (!quote) return null;
+
+  const index = storyText.indexOf(quote);
+  if (index !== -1) return { span: { start: index, end: index + quote.length }, exact: true };
+
+  const storyWords = words(storyText);
+  const quoteWords = words(quote);
+  if (quoteWords.length === 0 || storyWords.length === 0) return null;
+
+  const windowSize = Math.min(quoteWords.length, storyWords.length);
+  let best: { from: number; to: number; score: number; exact: boolean } | null = null;
+
+  for (let from = 0; from + windowSize <= storyWords.length; from++) {
+    const window = storyWords.slice(from, from + windowSize);
+    const inOrder = window.every((word, i) => word.text === quoteWords[i].text);
+    if (inOrder && windowSize === quoteWords.length) {
+      best = { from, to: from + windowSize - 1, score: 1, exact: true };
+      break;
+    }
+
+    const matched = quoteWords.filter(q => window.some(w => sameWord(w.text, q.text))).length;
+    const score = matched / quoteWords.length;
+    if (!best || score > best.score) {
+      // Trim the window to the first and last matching word
+      const hits = window.map((w, i) => (quoteWords.some(q => sameWord(w.text, q.text)) ? i : -1)).filter(i => i !== -1);
+      if (hits.length > 0) {
+        best = { from: from + hits[0], to: from + hits[hits.length - 1], score, exact: false };
+      }
+    }
+  }
+
+  if (!best || best.score < MIN_FUZZY_SCORE) return null;
+  return { span: { start: storyWords[best.from].start, end: storyWords[best.to].end }, exact: best.exact };
+}
+
+/** Linter spans are exact already, LLM quotes are searched for */
+export function locateIssues(storyText: string, issues: QualityIssue[]): IssueHighlight[] {
+  const highlights: IssueHighlight[] = [];
+  for (const issue of issues) {
+    const { textSpan } = issue;
+    if (textSpan && storyText.slice(textSpan.start, textSpan.end) === issue.textReference) {
+      highlights.push({ issueId: issue.id, span: textSpan, exact: true });
+      continue;
+    }
+    const located = locateTextReference(storyText, issue.textReference);
+    if (located) highlights.push({ issueId: issue.id, ...located });
+  }
+  return highlights;
+}
+
+/**
+ * Cuts the story at every highlight border. Overlapping highlights produce
+ * segments that belong to several issues, colored by the most severe one.
+ */
+export function buildHighlightSegments(
+  storyText: string,
+  highlights: IssueHighlight[],
+  issues: QualityIssue[]
+): HighlightSegment[] {
+  const severityOf = new Map(issues.map(i => [i.id, i.severity]));
+  const borders = new Set([0, storyText.length]);
+  for (const { span } of highlights) {
+    borders.add(span.start);
+    borders.add(span.end);
+  }
+  const sorted = [...borders].sort((a, b) => a - b);
+
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const start = sorted[i];
+    const end = sorted[i + 1];
+    const issueIds = highlights
+      .filter(h => h.span.start <= start && h.span.end >= end)
+      .map(h => h.issueId)
+      .sort((a, b) => SEVERITY_RANK[severityOf.get(a) ?? 'info'] - SEVERITY_RANK[severityOf.get(b) ?? 'info']);
+    segments.push({
+      start,
+      end,
+      text: storyText.slice(start, end),
+      issueIds,
+      severity: issueIds.length > 0 ? severityOf.get(issueIds[0]) ?? null : null,
+    });
+  }
+  return segments;
+}
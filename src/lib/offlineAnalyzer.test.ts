@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeStoryOffline } from './offlineAnalyzer';
+
+describe('analyzeStoryOffline', () => {
+  it('finds nothing in a complete, measurable story', () => {
+    const result = analyzeStoryOffline('Als Vertriebsleiter möchte ich alle offenen Angebote sehen, damit ich nachfassen kann.');
+    expect(result.issues).toEqual([]);
+    expect(result.score).toBe(100);
+    expect(result.summary).toBe('Die Offline-Analyse hat keine offensichtlichen Probleme gefunden.');
+  });
+
+  it('reports missing role, goal and benefit for free text', () => {
+    const result = analyzeStoryOffline('Berichte exportieren');
+    expect(result.issues.map(i => [i.category, i.severity])).toEqual([
+      ['missing_role', 'critical'],
+      ['missing_goal', 'critical'],
+      ['missing_benefit', 'major'],
+    ]);
+    expect(result.score).toBe(50);
+    expect(result.summary).toBe('Die Offline-Analyse hat 3 mögliche Probleme gefunden.');
+  });
+
+  it('marks vague words and technology names at their position', () => {
+    const text = 'Als Admin möchte ich alle Daten schnell als Excel laden, damit ich sie prüfe.';
+    const { issues, score } = analyzeStoryOffline(text);
+
+    expect(issues.map(i => [i.category, i.textReference])).toEqual([
+      ['vague_language', 'schnell'],
+      ['solution_bias', 'Excel'],
+    ]);
+    for (const issue of issues) {
+      expect(text.slice(issue.textSpan!.start, issue.textSpan!.end)).toBe(issue.textReference);
+    }
+    expect(score).toBe(85);
+  });
+
+  it('flags a goal with several parts and no measurable limit', () => {
+    const { issues } = analyzeStoryOffline(
+      'Als Admin möchte ich Benutzer anlegen, sperren und löschen, damit das Team arbeiten kann.'
+    );
+    expect(issues.map(i => i.category)).toEqual(['too_broad_scope', 'not_testable']);
+    expect(issues[0].textReference).toBe('Benutzer anlegen, sperren und löschen');
+  });
+
+  it('never scores below zero', () => {
+    const text = 'schnell einfach intuitiv modern optimal flexibel effizient SQL REST API JSON';
+    expect(analyzeStoryOffline(text).score).toBe(0);
+  });
+});
@@ -0,0 +1,116 @@
+import type { AffectedSection, IssueCategory, IssueSeverity, QualityIssue, TextSpan } from '@/types/storyTypes';
+import { parseUserStory } from '@/lib/storyParser';
+import { findTermOccurrences } from '@/lib/glossaryLinter';
+
+// Words that sound like a requirement but cannot be tested
+const VAGUE_WORDS = [
+  'schnell', 'einfach', 'benutzerfreundlich', 'intuitiv', 'übersichtlich', 'flexibel',
+  'effizient', 'modern', 'performant', 'optimal', 'nahtlos', 'möglichst', 'bequem',
+  'fast', 'easy', 'user-friendly', 'intuitive', 'simple', 'seamless',
+];
+
+// Technology names in a story prescribe the solution instead of the need
+const SOLUTION_KEYWORDS = [
+  'Datenbank', 'SQL', 'REST', 'API', 'JSON', 'XML', 'Excel', 'Dropdown', 'Popup', 'Pop-up',
+  'Button', 'Checkbox', 'Microservice', 'Cronjob', 'Kafka', 'Docker', 'Kubernetes', 'SAP',
+  'React', 'Angular', 'Java', 'Python', 'PostgreSQL', 'MongoDB', 'Redis', 'AWS', 'Azure', 'Lambda',
+];
+
+// More of these in the goal than this suggests several stories in one
+const MAX_GOAL_CONJUNCTIONS = 1;
+const CONJUNCTIONS = ['und', 'oder', 'sowie', 'außerdem', 'and', 'or'];
+
+// Numbers and words that make a goal measurable
+const QUANTIFIER_PATTERN = /\d|\b(?:alle|jede[nrsm]?|keine[nrsm]?|maximal|mindestens|höchstens|innerhalb|pro|all|every|each|within|at most|at least)\b/i;
+
+const SEVERITY_PENALTY: Record<IssueSeverity, number> = {
+  critical: 20,
+  major: 10,
+  minor: 5,
+  info: 2,
+};
+
+export interface OfflineAnalysis {
+  issues: QualityIssue[];
+  score: number;
+  summary: string;
+}
+
+/**
+ * Heuristic analysis without the LLM, for when llm-proxy is not reachable.
+ * It only sees the story structure and word lists, so it finds the obvious
+ * problems and misses everything that needs an understanding of the domain.
+ */
+export function analyzeStoryOffline(storyText: string): OfflineAnalysis {
+  const issues: QualityIssue[] = [];
+  const addIssue = (
+    category: IssueCategory,
+    severity: IssueSeverity,
+    affectedSection: AffectedSection,
+    reasoning: string,
+    textReference = '',
+    textSpan?: TextSpan
+  ) => {
+    issues.push({
+      id: `offline-${category}-${issues.length + 1}`,
+      category,
+      severity,
+      affectedSection,
+      textReference,
+      reasoning,
+      confidence: 'medium',
+      source: 'rule',
+      textSpan,
+      isRelevant: false,
+      userNote: '',
+    });
+  };
+
+  const parsed = parseUserStory(storyText);
+  if (!parsed || parsed.role === 'Nicht erkannt') {
+    addIssue('missing_role', 'critical', 'role', 'Die Story nennt keine Rolle ("Als ...").');
+  }
+  if (!parsed || parsed.goal === 'Nicht erkannt') {
+    addIssue('missing_goal', 'critical', 'goal', 'Die Story nennt kein Ziel ("möchte ich ...").');
+  }
+  if (!parsed || parsed.benefit === 'Nicht angegeben') {
+    addIssue('missing_benefit', 'major', 'benefit', 'Die Story nennt keinen Nutzen ("damit ...").');
+  }
+
+  for (const word of VAGUE_WORDS) {
+    for (const span of findTermOccurrences(storyText, word)) {
+      const found = storyText.slice(span.start, span.end);
+      addIssue('vague_language', 'minor', 'overall', `"${found}" ist nicht messbar. Beschreiben Sie, woran man das Ergebnis erkennt.`, found, span);
+    }
+  }
+
+  for (const keyword of SOLUTION_KEYWORDS) {
+    for (const span of findTermOccurrences(storyText, keyword)) {
+      const found = storyText.slice(span.start, span.end);
+      addIssue('solution_bias', 'major', 'overall', `"${found}" legt die technische Lösung fest. Beschreiben Sie stattdessen das Bedürfnis.`, found, span);
+    }
+  }
+
+  const goal = parsed && parsed.goal !== 'Nicht erkannt' ? parsed.goal : '';
+  if (goal) {
+    const conjunctions = CONJUNCTIONS.reduce((count, word) => count + findTermOccurrences(goal, word).length, 0)
+      + (goal.match(/,/g) || []).length;
+    if (conjunctions > MAX_GOAL_CONJUNCTIONS) {
+      addIssue('too_broad_scope', 'major', 'goal', `Das Ziel verknüpft ${conjunctions + 1} Teilziele. Teilen Sie die Story auf.`, goal);
+    }
+    if (!QUANTIFIER_PATTERN.test(storyText)) {
+      addIssue('not_testable', 'minor', 'goal', 'Die Story enthält keine Mengen, Grenzen oder Zahlen, an denen sich das Ergebnis prüfen lässt.', goal);
+    }
+  }
+
+  issues.sort((a, b) => (a.textSpan?.start ?? -1) - (b.textSpan?.start ?? -1));
+  const score = Math.max(0, issues.reduce((total, issue) => total - SEVERITY_PENALTY[issue.severity], 100));
+
+  return {
+    issues,
+    score,
+    summary: issues.length === 0
+      ? 'Die Offline-Analyse hat keine offensichtlichen Probleme gefunden.'
+      : `Die Offline-Analyse hat ${issues.length} mögliche Probleme gefunden.`,
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import type { PipelineStageResult, QualityIssue, StructuredStoryModel } from '@/types/storyTypes';
+import { buildPreviousResults, getOutdatedDependencies, getStageStates, isStageOutdated } from './pipelineStatus';
+
+const STORY = 'Als Admin möchte ich Rechnungen exportieren.';
+
+function result(stage: PipelineStageResult['stage'], completedAt: string, extra: Partial<PipelineStageResult> = {}): PipelineStageResult {
+  return { stage, status: 'completed', issues: [], duration: 10, completedAt, analyzedText: STORY, ...extra };
+}
+
+describe('isStageOutdated', () => {
+  it('is outdated when the story changed since the run', () => {
+    const quality = result('quality_check', '2026-01-01T10:00:00Z');
+    expect(isStageOutdated(quality, [quality], STORY)).toBe(false);
+    expect(isStageOutdated(quality, [quality], `${STORY} Neu.`)).toBe(true);
+  });
+
+  it('is outdated when a dependency ran again afterwards', () => {
+    const structure = result('structure_check', '2026-01-01T11:00:00Z');
+    const quality = result('quality_check', '2026-01-01T10:00:00Z');
+    const business = result('business_value', '2026-01-01T12:00:00Z');
+    const stages = [structure, quality, business];
+
+    expect(isStageOutdated(quality, stages, STORY)).toBe(true);
+    expect(isStageOutdated(business, stages, STORY)).toBe(false);
+  });
+
+  it('never marks failed or skipped stages', () => {
+    const failed = result('quality_check', '2026-01-01T10:00:00Z', { status: 'failed' });
+    expect(isStageOutdated(failed, [failed], 'anderer Text')).toBe(false);
+  });
+});
+
+describe('getStageStates', () => {
+  it('combines running, pending, outdated and stored states', () => {
+    const stages = [
+      result('ambiguity_analysis', '2026-01-01T10:00:00Z', { analyzedText: 'alt' }),
+      result('structure_check', '2026-01-01T10:00:00Z'),
+      result('business_value', '2026-01-01T10:00:00Z', { status: 'skipped' }),
+    ];
+    expect(getStageStates(stages, STORY, ['quality_check'])).toEqual({
+      ambiguity_analysis: 'outdated',
+      structure_check: 'completed',
+      quality_check: 'running',
+      acceptance_criteria: 'pending',
+      business_value: 'skipped',
+      solution_bias: 'pending',
+    });
+  });
+});
+
+describe('getOutdatedDependencies', () => {
+  it('lists only the outdated stages the stage reads from', () => {
+    const states = getStageStates(
+      [
+        result('ambiguity_analysis', '2026-01-01T10:00:00Z', { analyzedText: 'alt' }),
+        result('structure_check', '2026-01-01T10:00:00Z', { analyzedText: 'alt' }),
+      ],
+      STORY,
+      []
+    );
+    expect(getOutdatedDependencies('acceptance_criteria', states)).toEqual(['ambiguity_analysis', 'structure_check']);
+    expect(getOutdatedDependencies('business_value', states)).toEqual(['structure_check']);
+    expect(getOutdatedDependencies('ambiguity_analysis', states)).toEqual([]);
+  });
+});
+
+describe('buildPreviousResults', () => {
+  it('summarizes the completed dependencies with their issues', () => {
+    const structuredStory = { role: 'Admin', goal: 'Rechnungen exportieren' } as StructuredStoryModel;
+    const issues: QualityIssue[] = [
+      {
+        id: 'i1',
+        category: 'vague_language',
+        severity: 'minor',
+        affectedSection: 'goal',
+        textReference: 'exportieren',
+        reasoning: 'Format offen',
+        confidence: 'high',
+        pipelineStage: 'ambiguity_analysis',
+        userNote: 'nicht mitsenden',
+      },
+    ];
+    const stages = [
+      result('ambiguity_analysis', '2026-01-01T10:00:00Z', { summary: 'Eine Unklarheit' }),
+      result('structure_check', '2026-01-01T10:00:00Z', { status: 'failed' }),
+    ];
+
+    expect(buildPreviousResults('quality_check', stages, issues, structuredStory)).toEqual({
+      ambiguity_analysis: {
+        issues: [{ id: 'i1', category: 'vague_language', severity: 'minor', textReference: 'exportieren', reasoning: 'Format offen' }],
+        summary: 'Eine Unklarheit',
+      },
+    });
+  });
+
+  it('adds the structured model to the structure check', () => {
+    const structuredStory = { role: 'Admin' } as StructuredStoryModel;
+    const stages = [result('structure_check', '2026-01-01T10:00:00Z')];
+    expect(buildPreviousResults('business_value', stages, [], structuredStory)).toEqual({
+      structure_check: { issues: [], summary: undefined, structuredModel: structuredStory },
+    });
+  });
+});
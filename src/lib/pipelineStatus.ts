@@ -0,0 +1,88 @@
+import {
+  PIPELINE_STAGE_DEPENDENCIES,
+  PIPELINE_STAGES,
+  PipelineStage,
+  PipelineStageResult,
+  QualityIssue,
+  StructuredStoryModel,
+} from '@/types/storyTypes';
+
+export type StageState = 'pending' | 'running' | 'completed' | 'skipped' | 'failed' | 'outdated';
+
+/**
+ * A stage result is outdated when the story changed since the stage ran or
+ * when one of the stages it read from was run again after it.
+ */
+export function isStageOutdated(
+  result: PipelineStageResult,
+  stages: PipelineStageResult[],
+  storyText: string
+): boolean {
+  if (result.status !== 'completed') return false;
+  if (result.analyzedText !== undefined && result.analyzedText !== storyText) return true;
+
+  return PIPELINE_STAGE_DEPENDENCIES[result.stage].some(dep => {
+    const dependency = stages.find(s => s.stage === dep);
+    return dependency?.status === 'completed' && !!dependency.completedAt && !!result.completedAt
+      && dependency.completedAt > result.completedAt;
+  });
+}
+
+export function getStageStates(
+  stages: PipelineStageResult[],
+  storyText: string,
+  runningStages: PipelineStage[]
+): Record<PipelineStage, StageState> {
+  return Object.fromEntries(PIPELINE_STAGES.map(stage => {
+    const result = stages.find(s => s.stage === stage);
+    if (runningStages.includes(stage)) return [stage, 'running'];
+    if (!result) return [stage, 'pending'];
+    if (isStageOutdated(result, stages, storyText)) return [stage, 'outdated'];
+    return [stage, result.status];
+  })) as Record<PipelineStage, StageState>;
+}
+
+/**
+ * Dependencies of a stage whose results are outdated. Run alone, the stage
+ * would read their summaries of an older story, so they have to run first.
+ */
+export function getOutdatedDependencies(
+  stage: PipelineStage,
+  stageStates: Record<PipelineStage, StageState>
+): PipelineStage[] {
+  return PIPELINE_STAGE_DEPENDENCIES[stage].filter(dep => stageStates[dep] === 'outdated');
+}
+
+/**
+ * Rebuilds what the proxy hands a stage from the stages it depends on, so a
+ * single stage can run again without repeating the others. Dependencies
+ * without a result are left out, as in the server-side pipeline.
+ */
+export function buildPreviousResults(
+  stage: PipelineStage,
+  stages: PipelineStageResult[],
+  issues: QualityIssue[],
+  structuredStory: StructuredStoryModel | null
+): Record<string, unknown> {
+  const previousResults: Record<string, unknown> = {};
+  for (const dep of PIPELINE_STAGE_DEPENDENCIES[stage]) {
+    const result = stages.find(s => s.stage === dep && s.status === 'completed');
+    if (!result) continue;
+
+    const summary: Record<string, unknown> = {
+      issues: issues
+        .filter(i => i.pipelineStage === dep)
+        .map(i => ({
+          id: i.id,
+          category: i.category,
+          severity: i.severity,
+          textReference: i.textReference,
+          reasoning: i.reasoning,
+        })),
+      summary: result.summary,
+    };
+    if (dep === 'structure_check' && structuredStory) summary.structuredModel = structuredStory;
+    previousResults[dep] = summary;
+  }
+  return previousResults;
+}
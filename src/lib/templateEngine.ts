@@ -0,0 +1,10 @@
+// The renderer lives with the edge functions so that llm-proxy and the web
+// app fill prompts the same way; Deno cannot import from src.
+export {
+  TemplateError,
+  extractTemplateVariables,
+  parseTemplate,
+  renderTemplate,
+  validateTemplate,
+} from '../../supabase/functions/_shared/template-engine.ts';
+export type { TemplateData, TemplateVariableDefinition } from '../../supabase/functions/_shared/template-engine.ts';
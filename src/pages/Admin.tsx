@@ -11,12 +11,16 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
-import { LogOut, FileText, History, Trash2, Eye, Loader2, AlertTriangle, CheckCircle, Clock, FolderOpen, Home } from 'lucide-react';
+import { LogOut, FileText, History, Trash2, Eye, Loader2, AlertTriangle, CheckCircle, Clock, FolderOpen, Home, ScrollText, FlaskConical, ClipboardCheck, Library } from 'lucide-react';
 import { format } from 'date-fns';
 import { de } from 'date-fns/locale';
 import type { StructuredStoryModel } from '@/types/storyTypes';
 import type { Json } from '@/integrations/supabase/types';
 import { ProjectManagement } from '@/components/admin/ProjectManagement';
+import { PromptManagement } from '@/components/admin/PromptManagement';
+import { FewShotManagement } from '@/components/admin/FewShotManagement';
+import { ExperimentManagement } from '@/components/admin/ExperimentManagement';
+import { EvaluationManagement } from '@/components/admin/EvaluationManagement';
 
 export default function Admin() {
   const { user, isAdmin, isLoading: authLoading, signOut } = useAuth();
@@ -131,6 +135,22 @@ export default function Admin() {
               <FolderOpen className="h-4 w-4" />
               Projekte
             </TabsTrigger>
+            <TabsTrigger value="prompts" className="gap-2">
+              <ScrollText className="h-4 w-4" />
+              Prompts
+            </TabsTrigger>
+            <TabsTrigger value="examples" className="gap-2">
+              <Library className="h-4 w-4" />
+              Beispiele
+            </TabsTrigger>
+            <TabsTrigger value="experiments" className="gap-2">
+              <FlaskConical className="h-4 w-4" />
+              Experimente
+            </TabsTrigger>
+            <TabsTrigger value="evaluation" className="gap-2">
+              <ClipboardCheck className="h-4 w-4" />
+              Evaluation
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="stories">
@@ -231,6 +251,22 @@ export default function Admin() {
           <TabsContent value="projects">
             <ProjectManagement />
           </TabsContent>
+
+          <TabsContent value="prompts">
+            <PromptManagement />
+          </TabsContent>
+
+          <TabsContent value="examples">
+            <FewShotManagement />
+          </TabsContent>
+
+          <TabsContent value="experiments">
+            <ExperimentManagement />
+          </TabsContent>
+
+          <TabsContent value="evaluation">
+            <EvaluationManagement />
+          </TabsContent>
         </Tabs>
       </main>
 
@@ -0,0 +1,220 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import type {
+  EvalCase,
+  EvalCaseResult,
+  EvalMetrics,
+  EvalRun,
+  EvaluationProvider,
+  IssueCategory,
+  LLMRuntimeConfig,
+} from '@/types/storyTypes';
+import { runEvaluationPipeline } from '@/services/llmProxyApi';
+import { computeEvalMetrics, failedEvalCase, scoreEvalCase } from '@/lib/evaluationMetrics';
+
+type EvalCaseRow = Database['public']['Tables']['eval_cases']['Row'];
+type EvalRunRow = Database['public']['Tables']['eval_runs']['Row'];
+
+export type NewEvalCase = Omit<EvalCase, 'id' | 'createdAt'>;
+
+export interface EvaluationSettings {
+  label: string;
+  promptVersion: string;
+  provider: EvaluationProvider;
+  runtimeConfig?: Partial<LLMRuntimeConfig>;
+}
+
+function mapEvalCase(row: EvalCaseRow): EvalCase {
+  return {
+    id: row.id,
+    name: row.name,
+    storyText: row.story_text,
+    expectedIssueCategories: row.expected_issue_categories as IssueCategory[],
+    expectedRole: row.expected_role || undefined,
+    expectedGoal: row.expected_goal || undefined,
+    expectedBenefit: row.expected_benefit || undefined,
+    expectedCriteriaCount: row.expected_criteria_count ?? undefined,
+    notes: row.notes || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function mapEvalRun(row: EvalRunRow): EvalRun {
+  return {
+    id: row.id,
+    label: row.label,
+    promptVersion: row.prompt_version,
+    model: row.model,
+    provider: row.provider as EvaluationProvider,
+    caseCount: row.case_count,
+    failedCount: row.failed_count,
+    metrics: row.metrics as unknown as EvalMetrics,
+    caseResults: row.case_results as unknown as EvalCaseResult[],
+    createdAt: row.created_at,
+  };
+}
+
+function toEvalCaseRow(evalCase: NewEvalCase) {
+  return {
+    name: evalCase.name,
+    story_text: evalCase.storyText,
+    expected_issue_categories: evalCase.expectedIssueCategories,
+    expected_role: evalCase.expectedRole || null,
+    expected_goal: evalCase.expectedGoal || null,
+    expected_benefit: evalCase.expectedBenefit || null,
+    expected_criteria_count: evalCase.expectedCriteriaCount ?? null,
+    notes: evalCase.notes || null,
+  };
+}
+
+export async function fetchEvalCases(): Promise<EvalCase[]> {
+  const { data, error } = await supabase
+    .from('eval_cases')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching eval cases:', error);
+    return [];
+  }
+
+  return data.map(mapEvalCase);
+}
+
+export async function createEvalCase(evalCase: NewEvalCase): Promise<EvalCase | null> {
+  const { data, error } = await supabase
+    .from('eval_cases')
+    .insert(toEvalCaseRow(evalCase))
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating eval case:', error);
+    return null;
+  }
+
+  return mapEvalCase(data);
+}
+
+export async function updateEvalCase(id: string, evalCase: NewEvalCase): Promise<boolean> {
+  const { error } = await supabase
+    .from('eval_cases')
+    .update(toEvalCaseRow(evalCase))
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error updating eval case:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function deleteEvalCase(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('eval_cases')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting eval case:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function fetchEvalRuns(): Promise<EvalRun[]> {
+  const { data, error } = await supabase
+    .from('eval_runs')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching eval runs:', error);
+    return [];
+  }
+
+  return data.map(mapEvalRun);
+}
+
+export async function deleteEvalRun(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('eval_runs')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting eval run:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Replays the cases one after another through the full pipeline and stores
+ * the scored run. A failing case is recorded and does not stop the run.
+ * Returns null when the run could not be saved.
+ */
+export async function runEvaluation(
+  cases: EvalCase[],
+  settings: EvaluationSettings,
+  onProgress?: (done: number, total: number) => void
+): Promise<EvalRun | null> {
+  const results: EvalCaseResult[] = [];
+  const resolvedVersions = new Set<string>();
+  let model: string | undefined;
+
+  for (const evalCase of cases) {
+    const startTime = Date.now();
+    try {
+      const result = await runEvaluationPipeline(
+        evalCase.storyText,
+        settings.promptVersion,
+        settings.provider,
+        settings.runtimeConfig
+      );
+      if (result.promptVersion) resolvedVersions.add(result.promptVersion);
+      model = model || result.modelId;
+
+      results.push(scoreEvalCase(evalCase, {
+        categories: result.allIssues.map(issue => issue.category),
+        structuredModel: result.stages.find(s => s.stage === 'structure_check')?.structuredModel,
+        criteriaCount: result.stages.find(s => s.stage === 'acceptance_criteria' && s.status === 'completed')?.criteria?.length,
+        failedStages: result.stages.filter(s => s.status === 'failed').map(s => s.stage),
+        duration: Date.now() - startTime,
+      }));
+    } catch (error) {
+      results.push(failedEvalCase(
+        evalCase,
+        error instanceof Error ? error.message : 'Unbekannter Fehler',
+        Date.now() - startTime
+      ));
+    }
+    onProgress?.(results.length, cases.length);
+  }
+
+  const { data, error } = await supabase
+    .from('eval_runs')
+    .insert({
+      label: settings.label,
+      // 'active' is stored as the versions it resolved to at the time of the run
+      prompt_version: resolvedVersions.size > 0 ? [...resolvedVersions].join(' | ') : settings.promptVersion,
+      model: model || settings.runtimeConfig?.modelId || 'unbekannt',
+      provider: settings.provider,
+      case_count: results.length,
+      failed_count: results.filter(r => r.status === 'failed').length,
+      metrics: computeEvalMetrics(results) as unknown as Json,
+      case_results: results as unknown as Json,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error saving eval run:', error);
+    return null;
+  }
+
+  return mapEvalRun(data);
+}
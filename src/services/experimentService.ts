@@ -0,0 +1,122 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { ExperimentAssignment, ExperimentSignal, ExperimentVariant, PromptStage } from '@/types/storyTypes';
+
+export interface PromptExperiment {
+  id: string;
+  name: string;
+  stage: PromptStage;
+  variant_a_version: string;
+  variant_b_version: string;
+  // Share of requests that get variant B
+  traffic_percent_b: number;
+  status: 'running' | 'stopped';
+  created_by: string | null;
+  started_at: string;
+  ended_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ExperimentVariantResult {
+  variant: ExperimentVariant;
+  prompt_version: string;
+  call_count: number;
+  failed_count: number;
+  avg_latency_ms: number | null;
+  estimated_cost: number;
+  issues_marked_relevant: number;
+  rewrites_accepted: number;
+  criteria_rejected: number;
+}
+
+export type NewPromptExperiment = Pick<
+  PromptExperiment,
+  'name' | 'stage' | 'variant_a_version' | 'variant_b_version' | 'traffic_percent_b'
+>;
+
+export async function fetchExperiments(): Promise<PromptExperiment[]> {
+  const { data, error } = await supabase
+    .from('prompt_experiments')
+    .select('*')
+    .order('started_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching experiments:', error);
+    return [];
+  }
+
+  return data as PromptExperiment[];
+}
+
+// Fails while another experiment runs for the same stage
+export async function createExperiment(experiment: NewPromptExperiment): Promise<PromptExperiment | null> {
+  const { data, error } = await supabase
+    .from('prompt_experiments')
+    .insert(experiment)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating experiment:', error);
+    return null;
+  }
+
+  return data as PromptExperiment;
+}
+
+export async function stopExperiment(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('prompt_experiments')
+    .update({ status: 'stopped', ended_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error stopping experiment:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function fetchExperimentResults(id: string): Promise<ExperimentVariantResult[]> {
+  const { data, error } = await supabase.rpc('get_experiment_results', { p_experiment_id: id });
+
+  if (error) {
+    console.error('Error fetching experiment results:', error);
+    return [];
+  }
+
+  return (data || []).map(row => ({
+    ...row,
+    variant: row.variant as ExperimentVariant,
+    estimated_cost: Number(row.estimated_cost),
+    avg_latency_ms: row.avg_latency_ms !== null ? Number(row.avg_latency_ms) : null,
+  }));
+}
+
+// Fire and forget: a lost signal must never interrupt the user. Signals
+// without the call they react to are rejected by the database.
+export async function recordExperimentSignal(
+  assignment: ExperimentAssignment,
+  signal: ExperimentSignal,
+  targetId: string,
+  storyId?: string
+): Promise<void> {
+  if (!assignment.callId) return;
+
+  const { error } = await supabase
+    .from('experiment_signals')
+    .insert({
+      call_id: assignment.callId,
+      experiment_id: assignment.experimentId,
+      variant: assignment.variant,
+      signal,
+      target_id: targetId,
+      story_id: storyId || null,
+    });
+
+  // 23505: the same reaction was already counted, e.g. from another tab
+  if (error && error.code !== '23505') {
+    console.error('Error recording experiment signal:', error);
+  }
+}
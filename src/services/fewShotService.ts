@@ -0,0 +1,109 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { ExampleLanguage, LibraryFewShotExample, PromptStage } from '@/types/storyTypes';
+
+type FewShotExampleRow = Database['public']['Tables']['few_shot_examples']['Row'];
+
+export type NewFewShotExample = Omit<LibraryFewShotExample, 'id' | 'createdAt' | 'updatedAt'>;
+
+function mapFewShotExample(row: FewShotExampleRow): LibraryFewShotExample {
+  return {
+    id: row.id,
+    stage: row.stage as PromptStage,
+    language: row.language as ExampleLanguage,
+    projectId: row.project_id,
+    input: row.input,
+    expectedOutput: row.expected_output,
+    explanation: row.explanation || undefined,
+    tags: row.tags,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toFewShotExampleRow(example: NewFewShotExample) {
+  return {
+    stage: example.stage,
+    language: example.language,
+    project_id: example.projectId,
+    input: example.input,
+    expected_output: example.expectedOutput,
+    explanation: example.explanation || null,
+    tags: example.tags,
+    is_active: example.isActive,
+  };
+}
+
+// All examples of a stage, global defaults and project examples alike
+export async function fetchFewShotExamples(stage: PromptStage): Promise<LibraryFewShotExample[]> {
+  const { data, error } = await supabase
+    .from('few_shot_examples')
+    .select('*')
+    .eq('stage', stage)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching few-shot examples:', error);
+    return [];
+  }
+
+  return data.map(mapFewShotExample);
+}
+
+export async function createFewShotExample(example: NewFewShotExample): Promise<LibraryFewShotExample | null> {
+  const { data, error } = await supabase
+    .from('few_shot_examples')
+    .insert(toFewShotExampleRow(example))
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating few-shot example:', error);
+    return null;
+  }
+
+  return mapFewShotExample(data);
+}
+
+export async function updateFewShotExample(id: string, example: NewFewShotExample): Promise<boolean> {
+  const { error } = await supabase
+    .from('few_shot_examples')
+    .update(toFewShotExampleRow(example))
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error updating few-shot example:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function setFewShotExampleActive(id: string, isActive: boolean): Promise<boolean> {
+  const { error } = await supabase
+    .from('few_shot_examples')
+    .update({ is_active: isActive })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error updating few-shot example:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function deleteFewShotExample(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('few_shot_examples')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting few-shot example:', error);
+    return false;
+  }
+
+  return true;
+}
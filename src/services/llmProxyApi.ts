@@ -1,26 +1,37 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { ensureSession } from "@/services/sessionService";
 import { 
   QualityIssue, 
   RewriteSuggestion, 
   AcceptanceCriterionItem,
   StructuredStoryModel,
+  ContextCitation,
   ContextSnippet,
   PipelineStage,
   PIPELINE_STAGES,
+  PromptStage,
+  ExperimentAssignment,
+  EvaluationProvider,
   PipelineStageResult,
   generateId, 
   createTimestamp,
   LLMRuntimeConfig,
   DEFAULT_LLM_CONFIG,
+  ACTIVE_PROMPT_VERSION,
 } from "@/types/storyTypes";
 
 // ============================================
 // Request Types
 // ============================================
 interface LLMProxyRequest {
-  operation: PipelineStage | 'analyze' | 'rewrite' | 'acceptance_criteria';
+  operation: PipelineStage | 'analyze' | 'rewrite' | 'acceptance_criteria' | 'full_pipeline';
   storyText: string;
   promptVersion?: string;
+  // Unsaved prompt from the admin editor; the proxy accepts it from admins only
+  promptDraft?: PromptDraft;
+  // Deterministic mock instead of the configured provider (evaluation runs)
+  provider?: 'mock';
   structuredStory?: {
     role?: string;
     goal?: string;
@@ -28,6 +39,12 @@ interface LLMProxyRequest {
     constraints?: string[];
   };
   context?: string;
+  // Snippets the model can cite; citations come back with the snippet id
+  contextSources?: Array<{
+    id: string;
+    text: string;
+    documentName?: string;
+  }>;
   relevantIssues?: Array<{
     id?: string;
     category: string;
@@ -36,12 +53,50 @@ interface LLMProxyRequest {
     textReference?: string;
   }>;
   previousResults?: Record<string, unknown>;
-  runtimeConfig?: Partial<LLMRuntimeConfig>;
+  // Skip the proxy's response cache and force a fresh LLM call
+  bypassCache?: boolean;
+  projectId?: string;
+  storyId?: string;
+  runtimeConfig?: Pick<Partial<LLMRuntimeConfig>, 'modelId' | 'temperature' | 'topK' | 'maxTokens'>;
+}
+
+export interface PromptDraft {
+  systemPrompt: string;
+  userPromptTemplate?: string;
+}
+
+// Project and story the call is accounted to (llm_calls)
+export interface LLMCallScope {
+  projectId?: string;
+  storyId?: string;
 }
 
 // ============================================
 // Response Types from Backend
 // ============================================
+// A field the proxy had to coerce to match the response schema
+export interface LLMProxyCoercion {
+  path: string;
+  from: unknown;
+  to: unknown;
+}
+
+interface LLMProxyMeta {
+  promptVersion: string;
+  operation: string;
+  provider?: string;
+  model?: string;
+  cached?: boolean;
+  coercions?: LLMProxyCoercion[];
+  experiments?: ExperimentAssignment[];
+  timestamp: string;
+}
+
+interface LLMProxyResult<T> {
+  data: T;
+  meta: LLMProxyMeta;
+}
+
 interface BaseStageResponse {
   stage: PipelineStage;
   issues: Array<{
@@ -57,6 +112,7 @@ interface BaseStageResponse {
     investCriterion?: string;
     alternativeFormulation?: string;
     suggestedBenefit?: string;
+    contextCitations?: ContextCitation[];
   }>;
   summary?: string;
 }
@@ -129,6 +185,21 @@ interface RewriteResponse {
   }>;
 }
 
+interface FullPipelineResponse {
+  stages: Array<{
+    stage: PipelineStage;
+    status: PipelineStageResult['status'];
+    issues: string[];
+    duration: number;
+    error?: string;
+    modelId?: string;
+    promptVersion?: string;
+    result?: BaseStageResponse | AcceptanceCriteriaResponse;
+  }>;
+  overallScore?: number;
+  summary?: string;
+}
+
 // Legacy analyze response (for backward compatibility)
 interface LegacyAnalyzeResponse {
   issues: Array<{
@@ -149,11 +220,21 @@ interface LegacyAnalyzeResponse {
 // ============================================
 export interface PipelineStageResultData {
   stage: PipelineStage;
+  status: PipelineStageResult['status'];
   issues: QualityIssue[];
   structuredModel?: StructuredStoryModel;
+  criteria?: AcceptanceCriterionItem[];
   overallScore?: number;
   summary?: string;
   duration: number;
+  modelId?: string;
+  promptVersion?: string;
+  error?: string;
+}
+
+// A single stage run from the timeline
+export interface PipelineStageRunResult extends PipelineStageResultData {
+  experiments?: ExperimentAssignment[];
 }
 
 export interface FullPipelineResult {
@@ -162,10 +243,25 @@ export interface FullPipelineResult {
   structuredModel?: StructuredStoryModel;
   overallScore: number;
   summary: string;
+  modelId?: string;
+  promptVersion?: string;
+  experiments?: ExperimentAssignment[];
+}
+
+export interface AnalyzeResult {
+  issues: QualityIssue[];
+  score: number;
+  summary?: string;
+  modelId?: string;
+  promptVersion?: string;
+  experiments?: ExperimentAssignment[];
 }
 
 export interface RewriteResult {
   candidates: RewriteSuggestion[];
+  modelId?: string;
+  promptVersion?: string;
+  experiments?: ExperimentAssignment[];
 }
 
 export interface AcceptanceCriteriaResult {
@@ -177,26 +273,126 @@ export interface AcceptanceCriteriaResult {
     negativeCases: boolean;
   };
   openQuestions?: string[];
+  modelId?: string;
+  promptVersion?: string;
+  experiments?: ExperimentAssignment[];
+}
+
+// ============================================
+// Budget Errors (HTTP 429)
+// ============================================
+interface BudgetViolation {
+  scope: 'project' | 'client';
+  limit: 'requests_per_minute' | 'tokens_per_day' | 'cost_per_day';
+  max: number;
+  used: number;
+  resetAt: string;
+}
+
+const BUDGET_LIMIT_LABELS: Record<BudgetViolation['limit'], string> = {
+  requests_per_minute: 'Anfragen pro Minute',
+  tokens_per_day: 'Tokens pro Tag',
+  cost_per_day: 'Kosten pro Tag',
+};
+
+function formatBudgetError(budget: BudgetViolation): string {
+  const resetAt = new Date(budget.resetAt);
+  const time = resetAt.toLocaleTimeString('de-DE', {
+    hour: '2-digit',
+    minute: '2-digit',
+    ...(budget.limit === 'requests_per_minute' ? { second: '2-digit' } : {}),
+  });
+  const when = resetAt.toDateString() === new Date().toDateString()
+    ? `${time} Uhr`
+    : `${resetAt.toLocaleDateString('de-DE')}, ${time} Uhr`;
+  const owner = budget.scope === 'project' ? 'dieses Projekt' : 'Ihren Zugang';
+  const usage = budget.limit === 'cost_per_day'
+    ? `${budget.used.toFixed(2)} $ von ${budget.max.toFixed(2)} $`
+    : `${budget.used} von ${budget.max}`;
+
+  return `Das Limit „${BUDGET_LIMIT_LABELS[budget.limit]}" für ${owner} ist erreicht (${usage}). Bitte versuchen Sie es ab ${when} erneut.`;
+}
+
+// Returns the UI message for a budget rejection, or null for other errors
+function getBudgetErrorMessage(status: number, body: unknown): string | null {
+  const payload = body as { code?: string; budget?: BudgetViolation } | null;
+  if (status !== 429 || payload?.code !== 'budget_exceeded' || !payload.budget) {
+    return null;
+  }
+  return formatBudgetError(payload.budget);
+}
+
+// ============================================
+// Proxy Errors
+// ============================================
+// UI message for a rejected call, or null to show the proxy's own message
+function getRejectionMessage(status: number, body: unknown): string | null {
+  if (status === 401) return 'Ihre Sitzung ist abgelaufen. Bitte laden Sie die Seite neu.';
+  if (status === 403) return 'Sie haben keinen Zugriff auf dieses Projekt oder diese Aktion.';
+  return getBudgetErrorMessage(status, body);
+}
+
+// status is the HTTP status of the proxy response; undefined when the proxy
+// could not be reached or the LLM failed during a stream
+export class LLMProxyError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'LLMProxyError';
+  }
+}
+
+// Only an unreachable proxy or a failing LLM justifies the offline analysis;
+// budget limits (429), missing access (401/403) and bad requests are shown as errors
+export function canFallBackOffline(error: unknown): boolean {
+  if (!(error instanceof LLMProxyError)) return true;
+  return error.status === undefined || error.status >= 500;
 }
 
 // ============================================
 // API Call Helper
 // ============================================
-async function callLLMProxy<T>(request: LLMProxyRequest): Promise<T> {
+async function callLLMProxy<T>(request: LLMProxyRequest): Promise<LLMProxyResult<T>> {
+  await ensureSession();
   const { data, error } = await supabase.functions.invoke('llm-proxy', {
     body: request,
   });
 
   if (error) {
     console.error('LLM Proxy error:', error);
-    throw new Error(error.message || 'Fehler beim Aufrufen des LLM-Proxy');
+    if (error instanceof FunctionsHttpError) {
+      const response = error.context as Response;
+      const errorBody = await response.json().catch(() => null);
+      throw new LLMProxyError(
+        getRejectionMessage(response.status, errorBody) || errorBody?.error || error.message || 'Fehler beim Aufrufen des LLM-Proxy',
+        response.status
+      );
+    }
+    throw new LLMProxyError(error.message || 'Fehler beim Aufrufen des LLM-Proxy');
   }
 
   if (!data?.success) {
-    throw new Error(data?.error || 'Ungültige Antwort vom LLM-Proxy');
+    throw new LLMProxyError(data?.error || 'Ungültige Antwort vom LLM-Proxy');
+  }
+
+  const meta = data.meta as LLMProxyMeta;
+  if (meta?.coercions?.length) {
+    console.warn(`LLM Proxy coerced ${meta.coercions.length} field(s) for ${meta.operation}:`, meta.coercions);
   }
 
-  return data.data as T;
+  return { data: data.data as T, meta };
+}
+
+// Only the sampling parameters and model travel to the proxy; the prompt
+// version is sent separately. Without an explicitly chosen model the proxy
+// uses its configured one.
+function toProxyRuntimeConfig(config?: Partial<LLMRuntimeConfig>): LLMProxyRequest['runtimeConfig'] {
+  if (!config) return undefined;
+  return {
+    modelId: config.modelId || undefined,
+    temperature: config.temperature,
+    topK: config.topK,
+    maxTokens: config.maxTokens,
+  };
 }
 
 // ============================================
@@ -269,65 +465,60 @@ function mapIssueFromResponse(issue: BaseStageResponse['issues'][0], stage: Pipe
     clarificationQuestion: issue.clarificationQuestion,
     suggestedAction: issue.suggestedAction || issue.alternativeFormulation || issue.suggestedBenefit,
     confidence: mapConfidence(issue.confidence),
+    pipelineStage: stage,
+    contextCitations: issue.contextCitations?.length ? issue.contextCitations : undefined,
     isRelevant: false,
     userNote: '',
   };
 }
 
-function buildContextString(snippets: ContextSnippet[], additionalContext?: string): string | undefined {
-  const parts: string[] = [];
-  
-  if (snippets && snippets.length > 0) {
-    parts.push(snippets.map(s => {
-      let text = s.text;
-      if (s.documentName) text = `[${s.documentName}] ${text}`;
-      return text;
-    }).join('\n\n'));
-  }
-  
-  if (additionalContext?.trim()) {
-    parts.push(additionalContext.trim());
-  }
-  
-  return parts.length > 0 ? parts.join('\n\n---\n\n') : undefined;
+function mapCriterionFromResponse(c: AcceptanceCriteriaResponse['criteria'][0]): AcceptanceCriterionItem {
+  return {
+    id: c.id || generateId(),
+    title: c.title || '',
+    given: c.given,
+    when: c.when,
+    then: c.then,
+    notes: c.notes,
+    type: (c.type as AcceptanceCriterionItem['type']) || 'happy_path',
+    priority: (c.priority as 'must' | 'should' | 'could') || 'should',
+    confidence: mapConfidence(c.confidence),
+    status: 'pending',
+  };
+}
+
+// Snippets travel as citable sources, free-text context as plain context
+function buildContextFields(
+  snippets: ContextSnippet[],
+  additionalContext?: string
+): Pick<LLMProxyRequest, 'context' | 'contextSources'> {
+  return {
+    context: additionalContext?.trim() || undefined,
+    contextSources: snippets && snippets.length > 0
+      ? snippets.map(s => ({ id: s.id, text: s.text, documentName: s.documentName }))
+      : undefined,
+  };
 }
 
 // ============================================
-// Single Stage API Call
+// Stage Response Mapping
 // ============================================
-export async function runPipelineStage(
+function mapStageResponse(
   stage: PipelineStage,
-  storyText: string,
-  structuredStory: StructuredStoryModel | null,
-  contextSnippets: ContextSnippet[],
-  previousResults?: Record<string, unknown>,
-  promptVersion: string = 'v1',
-  runtimeConfig?: Partial<LLMRuntimeConfig>
-): Promise<PipelineStageResultData> {
-  const startTime = Date.now();
-
-  const response = await callLLMProxy<BaseStageResponse>({
-    operation: stage,
-    storyText,
-    promptVersion,
-    structuredStory: structuredStory ? {
-      role: structuredStory.role,
-      goal: structuredStory.goal,
-      benefit: structuredStory.benefit,
-      constraints: structuredStory.constraints,
-    } : undefined,
-    context: buildContextString(contextSnippets),
-    previousResults,
-    runtimeConfig,
-  });
-
-  const issues = response.issues.map(issue => mapIssueFromResponse(issue, stage));
+  response: BaseStageResponse | AcceptanceCriteriaResponse,
+  duration: number,
+  modelId?: string
+): PipelineStageResultData {
+  const issues = ('issues' in response && Array.isArray(response.issues) ? response.issues : [])
+    .map(issue => mapIssueFromResponse(issue, stage));
   
   const result: PipelineStageResultData = {
     stage,
+    status: 'completed',
     issues,
-    summary: response.summary,
-    duration: Date.now() - startTime,
+    summary: 'summary' in response ? response.summary : undefined,
+    duration,
+    modelId,
   };
 
   // Handle stage-specific data
@@ -351,85 +542,124 @@ export async function runPipelineStage(
     result.overallScore = qualResp.overallScore;
   }
 
+  if (stage === 'acceptance_criteria') {
+    const acResp = response as AcceptanceCriteriaResponse;
+    result.criteria = (acResp.criteria || []).map(mapCriterionFromResponse);
+  }
+
   return result;
 }
 
+// ============================================
+// Single Stage API Call
+// ============================================
+export async function runPipelineStage(
+  stage: PipelineStage,
+  storyText: string,
+  structuredStory: StructuredStoryModel | null,
+  contextSnippets: ContextSnippet[],
+  previousResults?: Record<string, unknown>,
+  promptVersion: string = ACTIVE_PROMPT_VERSION,
+  runtimeConfig?: Partial<LLMRuntimeConfig>,
+  scope?: LLMCallScope,
+  bypassCache = false
+): Promise<PipelineStageRunResult> {
+  const startTime = Date.now();
+
+  const { data: response, meta } = await callLLMProxy<BaseStageResponse>({
+    operation: stage,
+    storyText,
+    promptVersion,
+    structuredStory: structuredStory ? {
+      role: structuredStory.role,
+      goal: structuredStory.goal,
+      benefit: structuredStory.benefit,
+      constraints: structuredStory.constraints,
+    } : undefined,
+    ...buildContextFields(contextSnippets),
+    previousResults,
+    bypassCache,
+    runtimeConfig: toProxyRuntimeConfig(runtimeConfig),
+    ...scope,
+  });
+
+  return {
+    ...mapStageResponse(stage, response, Date.now() - startTime, meta?.model),
+    promptVersion: meta?.promptVersion,
+    experiments: meta?.experiments,
+  };
+}
+
 // ============================================
 // Full Pipeline Execution
 // ============================================
+// All stages run server-side in a single proxy call; independent stages are
+// executed in parallel there.
 export async function runFullPipeline(
   storyText: string,
   structuredStory: StructuredStoryModel | null,
   contextSnippets: ContextSnippet[],
   additionalContext?: string,
-  promptVersion: string = 'v1',
+  promptVersion: string = ACTIVE_PROMPT_VERSION,
   runtimeConfig?: Partial<LLMRuntimeConfig>,
-  onStageComplete?: (stage: PipelineStage, result: PipelineStageResultData) => void
+  onStageComplete?: (stage: PipelineStage, result: PipelineStageResultData) => void,
+  scope?: LLMCallScope
 ): Promise<FullPipelineResult> {
-  const stages: PipelineStageResultData[] = [];
-  const allIssues: QualityIssue[] = [];
-  let currentStructuredModel = structuredStory;
-  let overallScore = 0;
-  
-  // Build accumulated results for each stage
-  const accumulatedResults: Record<string, unknown> = {};
-
-  // Run stages sequentially
-  for (const stage of PIPELINE_STAGES) {
-    console.log(`Running pipeline stage: ${stage}`);
-    
-    try {
-      const result = await runPipelineStage(
-        stage,
-        storyText,
-        currentStructuredModel,
-        contextSnippets,
-        accumulatedResults,
-        promptVersion,
-        runtimeConfig
-      );
-
-      stages.push(result);
-      allIssues.push(...result.issues);
-
-      // Update structured model if returned from structure_check
-      if (result.structuredModel) {
-        currentStructuredModel = result.structuredModel;
-      }
-
-      // Track overall score from quality_check
-      if (result.overallScore !== undefined) {
-        overallScore = result.overallScore;
-      }
+  const { data: response, meta } = await callLLMProxy<FullPipelineResponse>({
+    operation: 'full_pipeline',
+    storyText,
+    promptVersion,
+    structuredStory: structuredStory ? {
+      role: structuredStory.role,
+      goal: structuredStory.goal,
+      benefit: structuredStory.benefit,
+      constraints: structuredStory.constraints,
+    } : undefined,
+    ...buildContextFields(contextSnippets, additionalContext),
+    runtimeConfig: toProxyRuntimeConfig(runtimeConfig),
+    ...scope,
+  });
 
-      // Accumulate results for next stages
-      accumulatedResults[stage] = {
-        issues: result.issues.map(i => ({
-          id: i.id,
-          category: i.category,
-          severity: i.severity,
-          textReference: i.textReference,
-          reasoning: i.reasoning,
-        })),
-        summary: result.summary,
-      };
+  const stages = response.stages.map(stageResponse => {
+    const result = mapPipelineStageResponse(stageResponse);
+    if (onStageComplete) {
+      onStageComplete(result.stage, result);
+    }
+    return result;
+  });
 
-      // Callback for progress updates
-      if (onStageComplete) {
-        onStageComplete(stage, result);
-      }
+  return {
+    ...buildFullPipelineResult(stages, structuredStory, meta?.model, meta?.promptVersion),
+    experiments: meta?.experiments,
+  };
+}
 
-    } catch (error) {
-      console.error(`Pipeline stage ${stage} failed:`, error);
-      // Continue with next stage even if one fails
-      stages.push({
-        stage,
-        issues: [],
-        duration: 0,
-        summary: `Stage fehlgeschlagen: ${error instanceof Error ? error.message : 'Unbekannter Fehler'}`,
-      });
-    }
+function mapPipelineStageResponse(stageResponse: FullPipelineResponse['stages'][0]): PipelineStageResultData {
+  if (stageResponse.status !== 'completed' || !stageResponse.result) {
+    return {
+      stage: stageResponse.stage,
+      status: stageResponse.status,
+      issues: [],
+      duration: stageResponse.duration,
+      error: stageResponse.error,
+      summary: `Stage fehlgeschlagen: ${stageResponse.error || 'Unbekannter Fehler'}`,
+    };
   }
+  return {
+    ...mapStageResponse(stageResponse.stage, stageResponse.result, stageResponse.duration, stageResponse.modelId),
+    promptVersion: stageResponse.promptVersion,
+  };
+}
+
+function buildFullPipelineResult(
+  stages: PipelineStageResultData[],
+  structuredStory: StructuredStoryModel | null,
+  modelId?: string,
+  promptVersion?: string
+): FullPipelineResult {
+  const allIssues = stages.flatMap(s => s.issues);
+  const structuredModel = stages.find(s => s.structuredModel)?.structuredModel || structuredStory || undefined;
+  const overallScore = stages.find(s => s.overallScore !== undefined)?.overallScore;
 
   // Build summary
   const summary = stages
@@ -440,12 +670,168 @@ export async function runFullPipeline(
   return {
     stages,
     allIssues,
-    structuredModel: currentStructuredModel || undefined,
+    structuredModel,
     overallScore: overallScore || calculateScoreFromIssues(allIssues),
     summary,
+    modelId: modelId || stages.find(s => s.modelId)?.modelId,
+    promptVersion,
   };
 }
 
+// ============================================
+// Streaming Pipeline Execution (SSE)
+// ============================================
+export interface PipelineStreamHandlers {
+  onStageStart?: (stage: PipelineStage) => void;
+  onStageIssues?: (stage: PipelineStage, issues: QualityIssue[]) => void;
+  onStageComplete?: (stage: PipelineStage, result: PipelineStageResultData) => void;
+}
+
+interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+function parseServerSentEvent(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+  }
+
+  return dataLines.length > 0 ? { event, data: dataLines.join('\n') } : null;
+}
+
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const parsed = parseServerSentEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) yield parsed;
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+
+  const rest = parseServerSentEvent(buffer.trim());
+  if (rest) yield rest;
+}
+
+async function openLLMProxyStream(request: LLMProxyRequest): Promise<ReadableStream<Uint8Array>> {
+  const session = await ensureSession();
+  const publishableKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/llm-proxy`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      'apikey': publishableKey,
+      'Authorization': `Bearer ${session?.access_token || publishableKey}`,
+    },
+    body: JSON.stringify({ ...request, stream: true }),
+  });
+
+  if (!response.ok || !response.body) {
+    const errorBody = await response.json().catch(() => null);
+    console.error('LLM Proxy stream error:', response.status, errorBody);
+    throw new LLMProxyError(
+      getRejectionMessage(response.status, errorBody) || errorBody?.error || 'Fehler beim Aufrufen des LLM-Proxy',
+      response.ok ? undefined : response.status
+    );
+  }
+
+  return response.body;
+}
+
+/**
+ * Streaming variant of runFullPipeline: the proxy reports each stage as it
+ * starts and finishes, so issues can be shown before the whole pipeline is done.
+ */
+export async function runFullPipelineStream(
+  storyText: string,
+  structuredStory: StructuredStoryModel | null,
+  contextSnippets: ContextSnippet[],
+  additionalContext?: string,
+  promptVersion: string = ACTIVE_PROMPT_VERSION,
+  runtimeConfig?: Partial<LLMRuntimeConfig>,
+  handlers: PipelineStreamHandlers = {},
+  scope?: LLMCallScope,
+  bypassCache = false
+): Promise<FullPipelineResult> {
+  const body = await openLLMProxyStream({
+    operation: 'full_pipeline',
+    storyText,
+    promptVersion,
+    structuredStory: structuredStory ? {
+      role: structuredStory.role,
+      goal: structuredStory.goal,
+      benefit: structuredStory.benefit,
+      constraints: structuredStory.constraints,
+    } : undefined,
+    ...buildContextFields(contextSnippets, additionalContext),
+    bypassCache,
+    runtimeConfig: toProxyRuntimeConfig(runtimeConfig),
+    ...scope,
+  });
+
+  const stages: PipelineStageResultData[] = [];
+  let modelId: string | undefined;
+  let resolvedVersion: string | undefined;
+  let experiments: ExperimentAssignment[] | undefined;
+  let completed = false;
+
+  for await (const { event, data } of readServerSentEvents(body)) {
+    const payload = JSON.parse(data);
+
+    switch (event) {
+      case 'stage_start':
+        handlers.onStageStart?.(payload.stage);
+        break;
+      case 'stage_issues':
+        handlers.onStageIssues?.(
+          payload.stage,
+          (payload.issues as BaseStageResponse['issues']).map(issue => mapIssueFromResponse(issue, payload.stage))
+        );
+        break;
+      case 'stage_complete': {
+        const result = mapPipelineStageResponse(payload);
+        stages.push(result);
+        handlers.onStageComplete?.(result.stage, result);
+        break;
+      }
+      case 'complete':
+        completed = true;
+        modelId = payload.meta?.model;
+        resolvedVersion = payload.meta?.promptVersion;
+        experiments = payload.meta?.experiments;
+        break;
+      case 'error':
+        throw new LLMProxyError(payload.error || 'Fehler bei der Pipeline');
+    }
+  }
+
+  // Connection dropped or the function timed out before the pipeline finished
+  if (!completed) {
+    throw new LLMProxyError('Die Verbindung zum LLM-Proxy wurde vor dem Ende der Pipeline unterbrochen');
+  }
+
+  // Keep the canonical stage order regardless of completion order
+  stages.sort((a, b) => PIPELINE_STAGES.indexOf(a.stage) - PIPELINE_STAGES.indexOf(b.stage));
+
+  return { ...buildFullPipelineResult(stages, structuredStory, modelId, resolvedVersion), experiments };
+}
+
 function calculateScoreFromIssues(issues: QualityIssue[]): number {
   if (issues.length === 0) return 100;
   
@@ -469,9 +855,11 @@ export async function analyzeStoryApi(
   structuredStory: StructuredStoryModel | null,
   contextSnippets: ContextSnippet[],
   additionalContext?: string,
-  promptVersion: string = 'v1'
-): Promise<{ issues: QualityIssue[]; score: number }> {
-  const response = await callLLMProxy<LegacyAnalyzeResponse>({
+  promptVersion: string = ACTIVE_PROMPT_VERSION,
+  runtimeConfig?: Partial<LLMRuntimeConfig>,
+  scope?: LLMCallScope
+): Promise<AnalyzeResult> {
+  const { data: response, meta } = await callLLMProxy<LegacyAnalyzeResponse>({
     operation: 'analyze',
     storyText,
     promptVersion,
@@ -481,7 +869,9 @@ export async function analyzeStoryApi(
       benefit: structuredStory.benefit,
       constraints: structuredStory.constraints,
     } : undefined,
-    context: buildContextString(contextSnippets, additionalContext),
+    ...buildContextFields(contextSnippets, additionalContext),
+    runtimeConfig: toProxyRuntimeConfig(runtimeConfig),
+    ...scope,
   });
 
   const issues: QualityIssue[] = response.issues.map((issue) => ({
@@ -497,7 +887,14 @@ export async function analyzeStoryApi(
     userNote: '',
   }));
 
-  return { issues, score: response.score };
+  return {
+    issues,
+    score: response.score,
+    summary: response.summary,
+    modelId: meta?.model,
+    promptVersion: meta?.promptVersion,
+    experiments: meta?.experiments,
+  };
 }
 
 // ============================================
@@ -516,9 +913,11 @@ export async function rewriteStoryApi(
   structuredStory: StructuredStoryModel | null,
   contextSnippets: ContextSnippet[],
   relevantIssues?: RelevantIssue[],
-  promptVersion: string = 'v1'
+  promptVersion: string = ACTIVE_PROMPT_VERSION,
+  runtimeConfig?: Partial<LLMRuntimeConfig>,
+  scope?: LLMCallScope
 ): Promise<RewriteResult> {
-  const response = await callLLMProxy<RewriteResponse>({
+  const { data: response, meta } = await callLLMProxy<RewriteResponse>({
     operation: 'rewrite',
     storyText,
     promptVersion,
@@ -528,8 +927,10 @@ export async function rewriteStoryApi(
       benefit: structuredStory.benefit,
       constraints: structuredStory.constraints,
     } : undefined,
-    context: buildContextString(contextSnippets),
+    ...buildContextFields(contextSnippets),
     relevantIssues,
+    runtimeConfig: toProxyRuntimeConfig(runtimeConfig),
+    ...scope,
   });
 
   const candidates: RewriteSuggestion[] = response.candidates.map((candidate) => ({
@@ -548,7 +949,7 @@ export async function rewriteStoryApi(
     status: 'pending',
   }));
 
-  return { candidates };
+  return { candidates, modelId: meta?.model, promptVersion: meta?.promptVersion, experiments: meta?.experiments };
 }
 
 // ============================================
@@ -558,9 +959,11 @@ export async function generateAcceptanceCriteriaApi(
   storyText: string,
   structuredStory: StructuredStoryModel | null,
   contextSnippets: ContextSnippet[],
-  promptVersion: string = 'v1'
+  promptVersion: string = ACTIVE_PROMPT_VERSION,
+  runtimeConfig?: Partial<LLMRuntimeConfig>,
+  scope?: LLMCallScope
 ): Promise<AcceptanceCriteriaResult> {
-  const response = await callLLMProxy<AcceptanceCriteriaResponse>({
+  const { data: response, meta } = await callLLMProxy<AcceptanceCriteriaResponse>({
     operation: 'acceptance_criteria',
     storyText,
     promptVersion,
@@ -570,21 +973,12 @@ export async function generateAcceptanceCriteriaApi(
       benefit: structuredStory.benefit,
       constraints: structuredStory.constraints,
     } : undefined,
-    context: buildContextString(contextSnippets),
+    ...buildContextFields(contextSnippets),
+    runtimeConfig: toProxyRuntimeConfig(runtimeConfig),
+    ...scope,
   });
 
-  const criteria: AcceptanceCriterionItem[] = response.criteria.map((c) => ({
-    id: c.id || generateId(),
-    title: c.title || '',
-    given: c.given,
-    when: c.when,
-    then: c.then,
-    notes: c.notes,
-    type: (c.type as AcceptanceCriterionItem['type']) || 'happy_path',
-    priority: (c.priority as 'must' | 'should' | 'could') || 'should',
-    confidence: mapConfidence(c.confidence),
-    status: 'pending',
-  }));
+  const criteria: AcceptanceCriterionItem[] = response.criteria.map(mapCriterionFromResponse);
 
   return { 
     criteria,
@@ -595,5 +989,67 @@ export async function generateAcceptanceCriteriaApi(
       negativeCases: response.coverage.negativeCases || false,
     } : undefined,
     openQuestions: response.openQuestions,
+    modelId: meta?.model,
+    promptVersion: meta?.promptVersion,
+    experiments: meta?.experiments,
   };
 }
+
+// ============================================
+// Prompt Draft Test Run (admins)
+// ============================================
+export interface PromptTestResult {
+  data: Record<string, unknown>;
+  modelId?: string;
+  coercions: LLMProxyCoercion[];
+  duration: number;
+}
+
+// Runs a single stage with an unsaved prompt. Pipeline stages that build on
+// earlier stages run without their results.
+export async function testPromptDraft(
+  stage: PromptStage,
+  storyText: string,
+  draft: PromptDraft,
+  runtimeConfig?: Partial<LLMRuntimeConfig>
+): Promise<PromptTestResult> {
+  const startTime = Date.now();
+
+  const { data, meta } = await callLLMProxy<Record<string, unknown>>({
+    operation: stage,
+    storyText,
+    promptDraft: draft,
+    runtimeConfig: toProxyRuntimeConfig(runtimeConfig),
+  });
+
+  return {
+    data,
+    modelId: meta?.model,
+    coercions: meta?.coercions || [],
+    duration: Date.now() - startTime,
+  };
+}
+
+// ============================================
+// Evaluation Replay (admins)
+// ============================================
+// Runs the pipeline on a golden-dataset story. No structured model is passed,
+// the extraction of role, goal and benefit is part of what gets evaluated.
+export async function runEvaluationPipeline(
+  storyText: string,
+  promptVersion: string,
+  provider: EvaluationProvider,
+  runtimeConfig?: Partial<LLMRuntimeConfig>
+): Promise<FullPipelineResult> {
+  const { data: response, meta } = await callLLMProxy<FullPipelineResponse>({
+    operation: 'full_pipeline',
+    storyText,
+    promptVersion,
+    provider: provider === 'mock' ? 'mock' : undefined,
+    // The mock only knows its own model
+    runtimeConfig: toProxyRuntimeConfig(provider === 'mock' ? { ...runtimeConfig, modelId: undefined } : runtimeConfig),
+  });
+
+  const stages = response.stages.map(mapPipelineStageResponse);
+  return buildFullPipelineResult(stages, null, meta?.model, meta?.promptVersion);
+}
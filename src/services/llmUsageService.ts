@@ -0,0 +1,84 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface LLMCall {
+  id: string;
+  operation: string;
+  prompt_version: string;
+  provider: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  estimated_cost: number | null;
+  latency_ms: number;
+  retry_count: number;
+  cached: boolean;
+  success: boolean;
+  error_message: string | null;
+  project_id: string | null;
+  story_id: string | null;
+  created_at: string;
+}
+
+export interface LLMUsageTotals {
+  call_count: number;
+  failed_count: number;
+  cached_count: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  estimated_cost: number;
+  avg_latency_ms: number;
+  last_call_at: string;
+}
+
+export interface ProjectUsage extends LLMUsageTotals {
+  project_id: string | null;
+}
+
+export interface StoryUsage extends LLMUsageTotals {
+  story_id: string;
+  project_id: string | null;
+}
+
+// Totals per project, most recently used first
+export async function fetchUsageByProject(): Promise<ProjectUsage[]> {
+  const { data, error } = await supabase.rpc('get_llm_usage_by_project');
+
+  if (error) {
+    console.error('Error fetching usage by project:', error);
+    return [];
+  }
+
+  return data as ProjectUsage[];
+}
+
+// Totals per story, optionally for a single project
+export async function fetchUsageByStory(projectId?: string): Promise<StoryUsage[]> {
+  const { data, error } = await supabase.rpc('get_llm_usage_by_story', {
+    p_project_id: projectId,
+  });
+
+  if (error) {
+    console.error('Error fetching usage by story:', error);
+    return [];
+  }
+
+  return data as StoryUsage[];
+}
+
+// Individual calls of a story, newest first
+export async function fetchStoryCalls(storyId: string): Promise<LLMCall[]> {
+  const { data, error } = await supabase
+    .from('llm_calls')
+    .select('*')
+    .eq('story_id', storyId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching story calls:', error);
+    return [];
+  }
+
+  return data as LLMCall[];
+}
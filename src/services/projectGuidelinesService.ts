@@ -0,0 +1,142 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { IssueCategory, ProjectQualityRule, ProjectVocabularyEntry } from '@/types/storyTypes';
+
+type VocabularyRow = Database['public']['Tables']['project_vocabulary']['Row'];
+type QualityRuleRow = Database['public']['Tables']['project_quality_rules']['Row'];
+
+export type NewProjectVocabularyEntry = Omit<ProjectVocabularyEntry, 'id'>;
+export type NewProjectQualityRule = Omit<ProjectQualityRule, 'id'>;
+
+function mapVocabularyEntry(row: VocabularyRow): ProjectVocabularyEntry {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    term: row.term,
+    definition: row.definition,
+    synonyms: row.synonyms,
+    avoidTerms: row.avoid_terms,
+  };
+}
+
+function mapQualityRule(row: QualityRuleRow): ProjectQualityRule {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    name: row.name,
+    description: row.description,
+    category: row.category as IssueCategory,
+    checkCriteria: row.check_criteria,
+    isActive: row.is_active,
+  };
+}
+
+function toVocabularyRow(entry: NewProjectVocabularyEntry) {
+  return {
+    project_id: entry.projectId,
+    term: entry.term,
+    definition: entry.definition,
+    synonyms: entry.synonyms || [],
+    avoid_terms: entry.avoidTerms || [],
+  };
+}
+
+function toQualityRuleRow(rule: NewProjectQualityRule) {
+  return {
+    project_id: rule.projectId,
+    name: rule.name,
+    description: rule.description,
+    category: rule.category,
+    check_criteria: rule.checkCriteria,
+    is_active: rule.isActive,
+  };
+}
+
+// Vocabulary
+export async function fetchProjectVocabulary(projectId: string): Promise<ProjectVocabularyEntry[]> {
+  const { data, error } = await supabase
+    .from('project_vocabulary')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('term');
+
+  if (error) {
+    console.error('Error fetching project vocabulary:', error);
+    return [];
+  }
+
+  return data.map(mapVocabularyEntry);
+}
+
+export async function saveProjectVocabularyEntry(
+  entry: NewProjectVocabularyEntry,
+  id?: string
+): Promise<boolean> {
+  const { error } = id
+    ? await supabase.from('project_vocabulary').update(toVocabularyRow(entry)).eq('id', id)
+    : await supabase.from('project_vocabulary').insert(toVocabularyRow(entry));
+
+  if (error) {
+    console.error('Error saving vocabulary entry:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function deleteProjectVocabularyEntry(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('project_vocabulary')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting vocabulary entry:', error);
+    return false;
+  }
+
+  return true;
+}
+
+// Quality rules
+export async function fetchProjectQualityRules(projectId: string): Promise<ProjectQualityRule[]> {
+  const { data, error } = await supabase
+    .from('project_quality_rules')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching project quality rules:', error);
+    return [];
+  }
+
+  return data.map(mapQualityRule);
+}
+
+export async function saveProjectQualityRule(rule: NewProjectQualityRule, id?: string): Promise<boolean> {
+  const { error } = id
+    ? await supabase.from('project_quality_rules').update(toQualityRuleRow(rule)).eq('id', id)
+    : await supabase.from('project_quality_rules').insert(toQualityRuleRow(rule));
+
+  if (error) {
+    console.error('Error saving quality rule:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function deleteProjectQualityRule(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('project_quality_rules')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting quality rule:', error);
+    return false;
+  }
+
+  return true;
+}
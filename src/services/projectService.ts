@@ -1,9 +1,27 @@
 import { supabase } from '@/integrations/supabase/client';
+import { ensureSession } from '@/services/sessionService';
+import { ContextSnippet, StructuredStoryModel, createTimestamp } from '@/types/storyTypes';
 
 export interface Project {
   id: string;
   name: string;
   description: string | null;
+  // Private projects (default) are only visible to admins, the creator and members
+  is_public: boolean;
+  // LLM budgets, null = unlimited (client limits fall back to the proxy defaults)
+  llm_requests_per_minute: number | null;
+  llm_tokens_per_day: number | null;
+  llm_cost_per_day: number | null;
+  llm_client_requests_per_minute: number | null;
+  llm_client_tokens_per_day: number | null;
+  llm_client_cost_per_day: number | null;
+  // Chunking and retrieval; documents indexed with other values are outdated
+  chunk_size: number;
+  chunk_overlap: number;
+  embedding_model: string;
+  retrieval_top_k: number;
+  retrieval_threshold: number;
+  retrieval_reranking: boolean;
   created_by: string | null;
   created_at: string;
   updated_at: string;
@@ -82,7 +100,62 @@ export async function deleteProject(id: string): Promise<boolean> {
   return true;
 }
 
+// Members of private projects, managed by admins
+export interface ProjectMember {
+  id: string;
+  user_id: string;
+  email: string;
+  created_at: string;
+}
+
+export async function fetchProjectMembers(projectId: string): Promise<ProjectMember[]> {
+  const { data, error } = await supabase.rpc('get_project_members', { p_project_id: projectId });
+
+  if (error) {
+    console.error('Error fetching project members:', error);
+    return [];
+  }
+
+  return data as ProjectMember[];
+}
+
+// Fails when there is no account with this email address
+export async function addProjectMember(projectId: string, email: string): Promise<boolean> {
+  const { error } = await supabase.rpc('add_project_member', { p_project_id: projectId, p_email: email });
+
+  if (error) {
+    console.error('Error adding project member:', error);
+    return false;
+  }
+
+  return true;
+}
+
+export async function removeProjectMember(memberId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('project_members')
+    .delete()
+    .eq('id', memberId);
+
+  if (error) {
+    console.error('Error removing project member:', error);
+    return false;
+  }
+
+  return true;
+}
+
 // Documents
+// File types embed-document can extract; binary formats need the server
+export const DOCUMENT_EXTENSIONS = ['.txt', '.md', '.pdf', '.docx', '.html', '.htm', '.csv'];
+// File types the browser can read as text when no project is selected
+export const LOCAL_DOCUMENT_EXTENSIONS = ['.txt', '.md', '.csv'];
+
+export function hasExtension(fileName: string, extensions: string[]): boolean {
+  const name = fileName.toLowerCase();
+  return extensions.some(ext => name.endsWith(ext));
+}
+
 export async function fetchProjectDocuments(projectId: string): Promise<ProjectDocument[]> {
   const { data, error } = await supabase
     .from('documents')
@@ -164,18 +237,64 @@ export async function deleteDocument(id: string, filePath: string): Promise<bool
 }
 
 // Trigger document embedding via edge function
-async function triggerDocumentEmbedding(documentId: string): Promise<void> {
+async function triggerDocumentEmbedding(documentId: string): Promise<boolean> {
   try {
+    await ensureSession();
     const { error } = await supabase.functions.invoke('embed-document', {
       body: { document_id: documentId },
     });
 
     if (error) {
       console.error('Error triggering embedding:', error);
+      return false;
     }
+    return true;
   } catch (err) {
     console.error('Error calling embed-document function:', err);
+    return false;
+  }
+}
+
+// A document is outdated when it was chunked or embedded with other settings
+// than the project has now; documents indexed before the settings existed
+// used the defaults
+export function isDocumentOutdated(document: ProjectDocument, project: Project): boolean {
+  if (document.status !== 'indexed') return false;
+  const { metadata } = document;
+  return (metadata.chunk_size ?? 1000) !== project.chunk_size
+    || (metadata.chunk_overlap ?? 200) !== project.chunk_overlap
+    || (metadata.embedding_model ?? 'text-embedding-3-small') !== project.embedding_model;
+}
+
+// Re-chunks and re-embeds the documents one after another, so the embedding
+// API is not hit in parallel. Returns the number of failed documents.
+export async function reindexProjectDocuments(
+  projectId: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<number> {
+  const documents = await fetchProjectDocuments(projectId);
+  let failed = 0;
+
+  for (let i = 0; i < documents.length; i++) {
+    if (!(await triggerDocumentEmbedding(documents[i].id))) failed++;
+    onProgress?.(i + 1, documents.length);
   }
+  return failed;
+}
+
+// 'hybrid' fuses vector similarity and full-text rank; 'keyword' finds exact IDs and acronyms
+export type SearchMode = 'vector' | 'keyword' | 'hybrid';
+
+export interface RetrievedSnippet {
+  id: string;
+  text: string;
+  documentId?: string;
+  source: string;
+  relevanceScore: number;
+  keywordRank?: number;
+  rank?: number;
+  position?: ContextSnippet['position'];
+  headingPath?: string[];
 }
 
 // Retrieve context for a query
@@ -186,16 +305,20 @@ export async function retrieveContext(
     matchCount?: number;
     matchThreshold?: number;
     includeReranking?: boolean;
+    searchMode?: SearchMode;
   }
-): Promise<{ snippets: Array<{ id: string; text: string; source: string; relevanceScore: number }> }> {
+): Promise<{ snippets: RetrievedSnippet[] }> {
   try {
+    await ensureSession();
     const { data, error } = await supabase.functions.invoke('retrieve-context', {
       body: {
         project_id: projectId,
         query,
-        match_count: options?.matchCount ?? 5,
-        match_threshold: options?.matchThreshold ?? 0.6,
-        include_reranking: options?.includeReranking ?? true,
+        // Left out, the project's retrieval settings and hybrid search apply
+        match_count: options?.matchCount,
+        match_threshold: options?.matchThreshold,
+        include_reranking: options?.includeReranking,
+        search_mode: options?.searchMode,
       },
     });
 
@@ -210,3 +333,33 @@ export async function retrieveContext(
     return { snippets: [] };
   }
 }
+
+// Snippets the analysis pipeline fetches for a story; the structured fields
+// repeat role, goal and benefit so a short story still finds its documents
+export async function retrieveStorySnippets(
+  projectId: string,
+  storyText: string,
+  structuredStory: StructuredStoryModel | null
+): Promise<ContextSnippet[]> {
+  const query = [
+    storyText,
+    structuredStory?.role,
+    structuredStory?.goal,
+    structuredStory?.benefit,
+    ...(structuredStory?.constraints ?? []),
+  ].filter(part => part?.trim()).join('\n');
+
+  const { snippets } = await retrieveContext(projectId, query);
+  const addedAt = createTimestamp();
+  return (snippets ?? []).map(snippet => ({
+    id: snippet.id,
+    text: snippet.text,
+    documentId: snippet.documentId,
+    documentName: snippet.source,
+    relevanceScore: snippet.relevanceScore,
+    position: snippet.position,
+    headingPath: snippet.headingPath?.length ? snippet.headingPath : undefined,
+    origin: 'retrieval' as const,
+    addedAt,
+  }));
+}
@@ -0,0 +1,117 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import type {
+  FewShotExample,
+  PromptStage,
+  PromptTemplate,
+  PromptVariable,
+  QualityRule,
+  VocabularyEntry,
+} from '@/types/storyTypes';
+
+type PromptTemplateRow = Database['public']['Tables']['prompt_templates']['Row'];
+
+export type NewPromptTemplate = Omit<PromptTemplate, 'id' | 'createdAt' | 'updatedAt' | 'isActive'>;
+
+function mapPromptTemplate(row: PromptTemplateRow): PromptTemplate {
+  return {
+    id: row.id,
+    version: row.version,
+    stage: row.stage as PromptStage,
+    systemPrompt: row.system_prompt,
+    userPromptTemplate: row.user_prompt_template,
+    outputSchema: (row.output_schema as object) || {},
+    variables: (row.variables as unknown as PromptVariable[]) || [],
+    examples: (row.examples as unknown as FewShotExample[] | null) || undefined,
+    qualityRules: (row.quality_rules as unknown as QualityRule[] | null) || undefined,
+    vocabulary: (row.vocabulary as unknown as VocabularyEntry[] | null) || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    isActive: row.is_active,
+    activatedAt: row.activated_at || undefined,
+  };
+}
+
+// Newest first, optionally limited to one stage
+export async function fetchPromptTemplates(stage?: PromptStage): Promise<PromptTemplate[]> {
+  let query = supabase
+    .from('prompt_templates')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (stage) {
+    query = query.eq('stage', stage);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching prompt templates:', error);
+    return [];
+  }
+
+  return data.map(mapPromptTemplate);
+}
+
+// New versions start inactive; they go live with activatePromptTemplate
+export async function createPromptTemplate(template: NewPromptTemplate): Promise<PromptTemplate | null> {
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .insert({
+      version: template.version,
+      stage: template.stage,
+      system_prompt: template.systemPrompt,
+      user_prompt_template: template.userPromptTemplate,
+      output_schema: template.outputSchema as Json,
+      variables: template.variables as unknown as Json,
+      examples: (template.examples ?? []) as unknown as Json,
+      quality_rules: (template.qualityRules ?? null) as unknown as Json,
+      vocabulary: (template.vocabulary ?? null) as unknown as Json,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating prompt template:', error);
+    return null;
+  }
+
+  return mapPromptTemplate(data);
+}
+
+// Deactivates the other versions of the same stage
+export async function activatePromptTemplate(id: string): Promise<boolean> {
+  const { error } = await supabase.rpc('activate_prompt_template', { p_template_id: id });
+
+  if (error) {
+    console.error('Error activating prompt template:', error);
+    return false;
+  }
+
+  return true;
+}
+
+// The stage falls back to the prompts built into the proxy
+export async function deactivatePromptStage(stage: PromptStage): Promise<boolean> {
+  const { error } = await supabase.rpc('deactivate_prompt_stage', { p_stage: stage });
+
+  if (error) {
+    console.error('Error deactivating prompt stage:', error);
+    return false;
+  }
+
+  return true;
+}
+
+// Re-activates the previously live version; without one the stage falls back
+// to the built-in prompts
+export async function rollbackPromptStage(stage: PromptStage): Promise<boolean> {
+  const { error } = await supabase.rpc('rollback_prompt_stage', { p_stage: stage });
+
+  if (error) {
+    console.error('Error rolling back prompt stage:', error);
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,28 @@
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+let pendingSession: Promise<Session | null> | null = null;
+
+// Edge functions only accept signed-in callers. Visitors without an account
+// get an anonymous Supabase session, which carries a signed token as well.
+export async function ensureSession(): Promise<Session | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (session) return session;
+
+  // Parallel calls share one sign-in instead of creating several anonymous users
+  if (!pendingSession) {
+    pendingSession = supabase.auth.signInAnonymously()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error creating anonymous session:', error);
+          return null;
+        }
+        return data.session;
+      })
+      .finally(() => {
+        pendingSession = null;
+      });
+  }
+
+  return pendingSession;
+}
@@ -1,10 +1,11 @@
-import React, { createContext, useContext, useReducer, useCallback, ReactNode, useEffect, useRef } from 'react';
+import React, { createContext, useContext, useReducer, useCallback, ReactNode, useEffect, useRef, useState } from 'react';
 import {
   UserStoryInput,
   StructuredStoryModel,
   ContextDocument,
   ContextSnippet,
   QualityIssue,
+  AnalysisResult,
   RewriteSuggestion,
   AcceptanceCriterionItem,
   OptimizedStory,
@@ -13,6 +14,12 @@ import {
   VersionHistoryEntry,
   PipelineStage,
   PipelineStageResult,
+  PIPELINE_STAGES,
+  PROMPT_STAGE_LABELS,
+  PromptStage,
+  VocabularyEntry,
+  ExperimentAssignment,
+  ExperimentSignal,
   LLMRuntimeConfig,
   DEFAULT_LLM_CONFIG,
   generateId,
@@ -23,11 +30,37 @@ import {
   analyzeStoryApi,
   rewriteStoryApi,
   generateAcceptanceCriteriaApi,
-  runFullPipeline,
+  runFullPipelineStream,
   runPipelineStage,
-  PipelineStageResultData,
+  canFallBackOffline,
+  LLMCallScope,
 } from '@/services/llmProxyApi';
 import { saveStory } from '@/services/storyPersistence';
+import { recordExperimentSignal } from '@/services/experimentService';
+import { fetchProjectVocabulary } from '@/services/projectGuidelinesService';
+import { retrieveStorySnippets } from '@/services/projectService';
+import { DEFAULT_VOCABULARY } from '@/types/promptTemplates';
+import { applyGlossaryReplacement, lintGlossary, mergeGlossary } from '@/lib/glossaryLinter';
+import { analyzeStoryOffline } from '@/lib/offlineAnalyzer';
+import { buildPreviousResults, getOutdatedDependencies, getStageStates } from '@/lib/pipelineStatus';
+
+// Stories without a chosen project carry a generated id instead of a project UUID
+const PROJECT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Report fields derived from the issues, filled the same way after a full run and a stage re-run
+function summarizeIssues(issues: QualityIssue[]): Pick<QualityReport, 'allIssues' | 'prioritizedIssues' | 'issuesByCategory'> {
+  const severityOrder = { critical: 0, major: 1, minor: 2, info: 3 };
+  return {
+    allIssues: issues,
+    prioritizedIssues: [...issues]
+      .sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity])
+      .map(i => i.id),
+    issuesByCategory: issues.reduce((acc, issue) => {
+      acc[issue.category] = (acc[issue.category] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>),
+  };
+}
 
 // ============================================
 // State Interface
@@ -47,10 +80,13 @@ export interface StoryState {
   // Pipeline Results
   pipelineStages: PipelineStageResult[];
   currentPipelineStage: PipelineStage | null;
+  // Independent stages run in parallel, so more than one can be active
+  runningPipelineStages: PipelineStage[];
   
   // Analysis Results
   analysisIssues: QualityIssue[];
   analysisScore: number | null;
+  analysisResult: AnalysisResult | null;
 
   // Rewrite Options
   rewriteCandidates: RewriteSuggestion[];
@@ -113,8 +149,10 @@ const initialState: StoryState = {
   additionalContext: '',
   pipelineStages: [],
   currentPipelineStage: null,
+  runningPipelineStages: [],
   analysisIssues: [],
   analysisScore: null,
+  analysisResult: null,
   rewriteCandidates: [],
   selectedRewriteId: null,
   acceptanceCriteria: [],
@@ -148,12 +186,17 @@ type StoryAction =
   | { type: 'REMOVE_CONTEXT_DOCUMENT'; payload: string }
   | { type: 'ADD_CONTEXT_SNIPPET'; payload: ContextSnippet }
   | { type: 'REMOVE_CONTEXT_SNIPPET'; payload: string }
+  | { type: 'SET_RETRIEVED_SNIPPETS'; payload: ContextSnippet[] }
   | { type: 'SET_ADDITIONAL_CONTEXT'; payload: string }
   | { type: 'SET_PIPELINE_STAGES'; payload: PipelineStageResult[] }
   | { type: 'ADD_PIPELINE_STAGE'; payload: PipelineStageResult }
+  | { type: 'UPDATE_PIPELINE_STAGE'; payload: PipelineStageResult }
   | { type: 'SET_CURRENT_PIPELINE_STAGE'; payload: PipelineStage | null }
+  | { type: 'SET_RUNNING_PIPELINE_STAGES'; payload: PipelineStage[] }
   | { type: 'SET_ANALYSIS_ISSUES'; payload: QualityIssue[] }
+  | { type: 'ADD_ANALYSIS_ISSUES'; payload: QualityIssue[] }
   | { type: 'SET_ANALYSIS_SCORE'; payload: number }
+  | { type: 'SET_ANALYSIS_RESULT'; payload: AnalysisResult | null }
   | { type: 'UPDATE_ANALYSIS_ISSUE'; payload: { id: string; updates: Partial<QualityIssue> } }
   | { type: 'SET_REWRITE_CANDIDATES'; payload: RewriteSuggestion[] }
   | { type: 'UPDATE_REWRITE_CANDIDATE'; payload: { id: string; updates: Partial<RewriteSuggestion> } }
@@ -191,6 +234,7 @@ function storyReducer(state: StoryState, action: StoryAction): StoryState {
         structuredStory: null,
         analysisIssues: [],
         analysisScore: null,
+        analysisResult: null,
         rewriteCandidates: [],
         selectedRewriteId: null,
         acceptanceCriteria: [],
@@ -215,6 +259,12 @@ function storyReducer(state: StoryState, action: StoryAction): StoryState {
     case 'REMOVE_CONTEXT_SNIPPET':
       return { ...state, contextSnippets: state.contextSnippets.filter(s => s.id !== action.payload) };
 
+    case 'SET_RETRIEVED_SNIPPETS':
+      return {
+        ...state,
+        contextSnippets: [...state.contextSnippets.filter(s => s.origin !== 'retrieval'), ...action.payload],
+      };
+
     case 'SET_ADDITIONAL_CONTEXT':
       return { ...state, additionalContext: action.payload };
 
@@ -224,15 +274,32 @@ function storyReducer(state: StoryState, action: StoryAction): StoryState {
     case 'ADD_PIPELINE_STAGE':
       return { ...state, pipelineStages: [...state.pipelineStages, action.payload] };
 
+    case 'UPDATE_PIPELINE_STAGE':
+      return {
+        ...state,
+        pipelineStages: state.pipelineStages.some(s => s.stage === action.payload.stage)
+          ? state.pipelineStages.map(s => s.stage === action.payload.stage ? action.payload : s)
+          : [...state.pipelineStages, action.payload],
+      };
+
     case 'SET_CURRENT_PIPELINE_STAGE':
       return { ...state, currentPipelineStage: action.payload };
 
+    case 'SET_RUNNING_PIPELINE_STAGES':
+      return { ...state, runningPipelineStages: action.payload };
+
     case 'SET_ANALYSIS_ISSUES':
       return { ...state, analysisIssues: action.payload };
 
+    case 'ADD_ANALYSIS_ISSUES':
+      return { ...state, analysisIssues: [...state.analysisIssues, ...action.payload] };
+
     case 'SET_ANALYSIS_SCORE':
       return { ...state, analysisScore: action.payload };
 
+    case 'SET_ANALYSIS_RESULT':
+      return { ...state, analysisResult: action.payload };
+
     case 'UPDATE_ANALYSIS_ISSUE':
       return {
         ...state,
@@ -336,6 +403,7 @@ interface StoryContextValue {
     // Analysis
     setAnalysisResults: (issues: QualityIssue[], score: number) => void;
     updateAnalysisIssue: (id: string, updates: Partial<QualityIssue>) => void;
+    applyIssueReplacement: (id: string) => void;
     
     // Rewrite
     setRewriteCandidates: (candidates: RewriteSuggestion[]) => void;
@@ -369,7 +437,9 @@ interface StoryContextValue {
     
     // LLM Actions
     analyzeStoryAction: () => Promise<void>;
-    runFullPipelineAction: () => Promise<void>;
+    // bypassCache: deliberate re-runs ask the LLM again instead of the proxy cache
+    runFullPipelineAction: (bypassCache?: boolean) => Promise<void>;
+    rerunPipelineStageAction: (stage: PipelineStage) => Promise<void>;
     rewriteStoryAction: () => Promise<void>;
     generateAcceptanceCriteriaAction: () => Promise<void>;
   };
@@ -391,6 +461,58 @@ export function StoryProvider({ children }: StoryProviderProps) {
   const [state, dispatch] = useReducer(storyReducer, initialState);
   const storyIdRef = useRef<string | null>(null);
 
+  // Project and story the LLM calls are accounted to
+  const getCallScope = useCallback((): LLMCallScope => ({
+    projectId: state.meta.projectId,
+    storyId: storyIdRef.current || undefined,
+  }), [state.meta.projectId]);
+
+  // Glossary the linter checks against, the built-in one plus the project's terms
+  const [projectVocabulary, setProjectVocabulary] = useState<VocabularyEntry[]>([]);
+
+  useEffect(() => {
+    const projectId = state.meta.projectId;
+    setProjectVocabulary([]);
+    if (!PROJECT_ID_PATTERN.test(projectId)) return;
+
+    let cancelled = false;
+    fetchProjectVocabulary(projectId).then(entries => {
+      if (!cancelled) setProjectVocabulary(entries);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [state.meta.projectId]);
+
+  const lintStory = useCallback((storyText: string): QualityIssue[] =>
+    lintGlossary(storyText, mergeGlossary(DEFAULT_VOCABULARY, projectVocabulary)),
+  [projectVocabulary]);
+
+  // Experiment variants behind the current results, per stage
+  const experimentAssignmentsRef = useRef<Partial<Record<PromptStage, ExperimentAssignment>>>({});
+  const sentSignalsRef = useRef<Set<string>>(new Set());
+
+  const rememberExperiments = useCallback((stages: PromptStage[], assignments?: ExperimentAssignment[]) => {
+    for (const stage of stages) {
+      delete experimentAssignmentsRef.current[stage];
+    }
+    for (const assignment of assignments || []) {
+      experimentAssignmentsRef.current[assignment.stage] = assignment;
+    }
+  }, []);
+
+  // A target counts once, toggling it back and forth sends no new signal
+  const sendExperimentSignal = useCallback((stage: PromptStage, signal: ExperimentSignal, targetId: string) => {
+    const assignment = experimentAssignmentsRef.current[stage];
+    if (!assignment) return;
+
+    const key = `${assignment.experimentId}:${signal}:${targetId}`;
+    if (sentSignalsRef.current.has(key)) return;
+    sentSignalsRef.current.add(key);
+
+    void recordExperimentSignal(assignment, signal, targetId, storyIdRef.current || undefined);
+  }, []);
+
   const setOriginalStory = useCallback((text: string) => {
     dispatch({ type: 'SET_ORIGINAL_STORY', payload: text });
   }, []);
@@ -437,7 +559,40 @@ export function StoryProvider({ children }: StoryProviderProps) {
 
   const updateAnalysisIssue = useCallback((id: string, updates: Partial<QualityIssue>) => {
     dispatch({ type: 'UPDATE_ANALYSIS_ISSUE', payload: { id, updates } });
-  }, []);
+    // Linter findings come from no prompt variant
+    const isRuleIssue = state.analysisIssues.some(i => i.id === id && i.source === 'rule');
+    if (updates.isRelevant && !isRuleIssue) {
+      // Issues of the legacy analyze call belong to no pipeline stage
+      const stage = state.pipelineStages.find(s => s.issues.includes(id))?.stage ?? 'analyze';
+      sendExperimentSignal(stage, 'issue_relevant', id);
+    }
+  }, [state.analysisIssues, state.pipelineStages, sendExperimentSignal]);
+
+  const applyIssueReplacement = useCallback((id: string) => {
+    const storyText = state.optimisedStoryText || state.originalStoryText;
+    const issue = state.analysisIssues.find(i => i.id === id);
+    const applied = applyGlossaryReplacement(storyText, state.analysisIssues, id);
+    if (!issue || !applied) {
+      dispatch({ type: 'SET_ERROR', payload: 'Die Textstelle hat sich geändert, bitte analysieren Sie die Story erneut' });
+      return;
+    }
+
+    // The optimised text keeps the analysis, replacing the original would reset it
+    dispatch({ type: 'SET_OPTIMISED_STORY', payload: applied.storyText });
+    dispatch({ type: 'SET_ANALYSIS_ISSUES', payload: applied.issues });
+    dispatch({
+      type: 'ADD_USER_DECISION',
+      payload: {
+        id: generateId(),
+        targetType: 'issue',
+        targetId: id,
+        decision: 'accepted',
+        originalValue: issue.textReference,
+        editedValue: issue.replacement,
+        timestamp: createTimestamp(),
+      },
+    });
+  }, [state.optimisedStoryText, state.originalStoryText, state.analysisIssues]);
 
   const setRewriteCandidates = useCallback((candidates: RewriteSuggestion[]) => {
     dispatch({ type: 'SET_REWRITE_CANDIDATES', payload: candidates });
@@ -471,7 +626,8 @@ export function StoryProvider({ children }: StoryProviderProps) {
         timestamp: createTimestamp(),
       },
     });
-  }, [state.rewriteCandidates]);
+    sendExperimentSignal('rewrite', 'rewrite_accepted', id);
+  }, [state.rewriteCandidates, sendExperimentSignal]);
 
   const rejectRewrite = useCallback((id: string) => {
     const candidate = state.rewriteCandidates.find(c => c.id === id);
@@ -549,7 +705,8 @@ export function StoryProvider({ children }: StoryProviderProps) {
         timestamp: createTimestamp(),
       },
     });
-  }, [state.acceptanceCriteria]);
+    sendExperimentSignal('acceptance_criteria', 'criterion_rejected', id);
+  }, [state.acceptanceCriteria, sendExperimentSignal]);
 
   const addVersionHistory = useCallback((action: VersionHistoryEntry['action'], description: string) => {
     dispatch({
@@ -679,6 +836,36 @@ ${contextText}
   // LLM Actions
   // ============================================
 
+  // Without the LLM the wizard continues with the heuristic analysis
+  const applyOfflineAnalysis = useCallback((
+    storyText: string,
+    ruleIssues: QualityIssue[],
+    reason: string,
+    stages: PromptStage[]
+  ) => {
+    const offline = analyzeStoryOffline(storyText);
+    const issues = [...ruleIssues, ...offline.issues];
+    rememberExperiments(stages);
+    dispatch({ type: 'SET_ANALYSIS_ISSUES', payload: issues });
+    dispatch({ type: 'SET_ANALYSIS_SCORE', payload: offline.score });
+    dispatch({
+      type: 'SET_ANALYSIS_RESULT',
+      payload: {
+        id: generateId(),
+        issues,
+        overallScore: offline.score,
+        summary: offline.summary,
+        analyzedAt: createTimestamp(),
+        promptVersion: state.runtimeConfig.promptVersion,
+        modelId: 'offline',
+        pipelineStage: 'quality_check',
+        mode: 'offline',
+        fallbackReason: reason,
+      },
+    });
+    dispatch({ type: 'UPDATE_META', payload: { lastRunAt: createTimestamp() } });
+  }, [state.runtimeConfig.promptVersion, rememberExperiments]);
+
   // Legacy single analyze action
   const analyzeStoryAction = useCallback(async () => {
     const storyText = state.optimisedStoryText || state.originalStoryText;
@@ -687,8 +874,11 @@ ${contextText}
       return;
     }
 
+    // Linter findings show up right away, the LLM findings follow
+    const ruleIssues = lintStory(storyText);
     dispatch({ type: 'SET_LOADING', payload: true });
     dispatch({ type: 'SET_ERROR', payload: null });
+    dispatch({ type: 'SET_ANALYSIS_ISSUES', payload: ruleIssues });
 
     try {
       const result = await analyzeStoryApi(
@@ -696,21 +886,45 @@ ${contextText}
         state.structuredStory,
         state.contextSnippets,
         state.additionalContext,
-        state.meta.promptVersion
+        state.runtimeConfig.promptVersion,
+        state.runtimeConfig,
+        getCallScope()
       );
-      dispatch({ type: 'SET_ANALYSIS_ISSUES', payload: result.issues });
+      const modelId = result.modelId || state.runtimeConfig.modelId;
+      const promptVersion = result.promptVersion || state.runtimeConfig.promptVersion;
+      rememberExperiments(['analyze'], result.experiments);
+      const issues = [...ruleIssues, ...result.issues];
+      dispatch({ type: 'SET_ANALYSIS_ISSUES', payload: issues });
       dispatch({ type: 'SET_ANALYSIS_SCORE', payload: result.score });
-      dispatch({ type: 'UPDATE_META', payload: { lastRunAt: createTimestamp() } });
+      dispatch({
+        type: 'SET_ANALYSIS_RESULT',
+        payload: {
+          id: generateId(),
+          issues,
+          overallScore: result.score,
+          summary: result.summary || '',
+          analyzedAt: createTimestamp(),
+          promptVersion,
+          modelId,
+          pipelineStage: 'quality_check',
+          mode: 'llm',
+        },
+      });
+      dispatch({ type: 'UPDATE_META', payload: { lastRunAt: createTimestamp(), modelId, promptVersion } });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Fehler bei der Analyse';
-      dispatch({ type: 'SET_ERROR', payload: errorMessage });
+      if (canFallBackOffline(error)) {
+        applyOfflineAnalysis(storyText, ruleIssues, errorMessage, ['analyze']);
+      } else {
+        dispatch({ type: 'SET_ERROR', payload: errorMessage });
+      }
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [state.originalStoryText, state.optimisedStoryText, state.structuredStory, state.contextSnippets, state.additionalContext, state.meta.promptVersion]);
+  }, [state.originalStoryText, state.optimisedStoryText, state.structuredStory, state.contextSnippets, state.additionalContext, state.runtimeConfig, getCallScope, lintStory, rememberExperiments, applyOfflineAnalysis]);
 
   // Full 6-stage pipeline action
-  const runFullPipelineAction = useCallback(async () => {
+  const runFullPipelineAction = useCallback(async (bypassCache = false) => {
     const storyText = state.optimisedStoryText || state.originalStoryText;
     if (!storyText) {
       dispatch({ type: 'SET_ERROR', payload: 'Keine Story zum Analysieren vorhanden' });
@@ -720,42 +934,95 @@ ${contextText}
     dispatch({ type: 'SET_LOADING', payload: true });
     dispatch({ type: 'SET_ERROR', payload: null });
     dispatch({ type: 'SET_PIPELINE_STAGES', payload: [] });
+    dispatch({ type: 'SET_ANALYSIS_RESULT', payload: null });
+    // Linter findings show up right away, the stage findings stream in after them
+    const ruleIssues = lintStory(storyText);
+    dispatch({ type: 'SET_ANALYSIS_ISSUES', payload: ruleIssues });
+
+    // Project documents matching the story replace those found by the last run
+    let contextSnippets = state.contextSnippets.filter(s => s.origin !== 'retrieval');
+    if (PROJECT_ID_PATTERN.test(state.meta.projectId)) {
+      dispatch({ type: 'SET_LOADING_STAGE', payload: 'Projektkontext' });
+      const manualIds = new Set(contextSnippets.map(s => s.id));
+      const retrieved = (await retrieveStorySnippets(state.meta.projectId, storyText, state.structuredStory))
+        .filter(s => !manualIds.has(s.id));
+      dispatch({ type: 'SET_RETRIEVED_SNIPPETS', payload: retrieved });
+      contextSnippets = [...contextSnippets, ...retrieved];
+    }
 
-    const stageLabels: Record<PipelineStage, string> = {
-      ambiguity_analysis: 'Ambiguitäts-Analyse',
-      structure_check: 'Struktur-Prüfung',
-      quality_check: 'Qualitäts-Check',
-      business_value: 'Business Value',
-      solution_bias: 'Solution Bias',
-      acceptance_criteria: 'Akzeptanzkriterien',
+    // Independent stages run in parallel, so more than one can be active
+    const runningStages: PipelineStage[] = [];
+    const updateLoadingStage = () => {
+      dispatch({
+        type: 'SET_LOADING_STAGE',
+        payload: runningStages.length > 0 ? runningStages.map(s => PROMPT_STAGE_LABELS[s]).join(', ') : null,
+      });
+      dispatch({ type: 'SET_CURRENT_PIPELINE_STAGE', payload: runningStages[runningStages.length - 1] ?? null });
+      dispatch({ type: 'SET_RUNNING_PIPELINE_STAGES', payload: [...runningStages] });
     };
 
     try {
-      const result = await runFullPipeline(
+      const result = await runFullPipelineStream(
         storyText,
         state.structuredStory,
-        state.contextSnippets,
+        contextSnippets,
         state.additionalContext,
-        state.meta.promptVersion,
+        state.runtimeConfig.promptVersion,
         state.runtimeConfig,
-        // Progress callback
-        (stage, stageResult) => {
-          dispatch({ type: 'SET_LOADING_STAGE', payload: stageLabels[stage] || stage });
-          dispatch({
-            type: 'ADD_PIPELINE_STAGE',
-            payload: {
-              stage,
-              status: 'completed',
-              issues: stageResult.issues.map(i => i.id),
-              duration: stageResult.duration,
-            },
-          });
-        }
+        {
+          onStageStart: (stage) => {
+            runningStages.push(stage);
+            updateLoadingStage();
+          },
+          onStageIssues: (_stage, issues) => {
+            dispatch({ type: 'ADD_ANALYSIS_ISSUES', payload: issues });
+          },
+          onStageComplete: (stage, stageResult) => {
+            const index = runningStages.indexOf(stage);
+            if (index !== -1) runningStages.splice(index, 1);
+            updateLoadingStage();
+            dispatch({
+              type: 'ADD_PIPELINE_STAGE',
+              payload: {
+                stage,
+                status: stageResult.status,
+                issues: stageResult.issues.map(i => i.id),
+                duration: stageResult.duration,
+                error: stageResult.error,
+                summary: stageResult.summary,
+                completedAt: createTimestamp(),
+                analyzedText: storyText,
+              },
+            });
+          },
+        },
+        getCallScope(),
+        bypassCache
       );
 
+      const modelId = result.modelId || state.runtimeConfig.modelId;
+      const promptVersion = result.promptVersion || state.runtimeConfig.promptVersion;
+      rememberExperiments(PIPELINE_STAGES, result.experiments);
+
       // Update state with results
-      dispatch({ type: 'SET_ANALYSIS_ISSUES', payload: result.allIssues });
+      const allIssues = [...ruleIssues, ...result.allIssues];
+      dispatch({ type: 'SET_ANALYSIS_ISSUES', payload: allIssues });
       dispatch({ type: 'SET_ANALYSIS_SCORE', payload: result.overallScore });
+      dispatch({
+        type: 'SET_ANALYSIS_RESULT',
+        payload: {
+          id: generateId(),
+          issues: allIssues,
+          overallScore: result.overallScore,
+          summary: result.summary,
+          analyzedAt: createTimestamp(),
+          promptVersion,
+          modelId,
+          pipelineStage: 'quality_check',
+          contextCitations: allIssues.flatMap(i => i.contextCitations ?? []),
+          mode: 'llm',
+        },
+      });
       
       if (result.structuredModel) {
         dispatch({ type: 'SET_STRUCTURED_STORY', payload: result.structuredModel });
@@ -768,39 +1035,163 @@ ${contextText}
         executedAt: createTimestamp(),
         pipelineStages: result.stages.map(s => ({
           stage: s.stage,
-          status: 'completed',
+          status: s.status,
           issues: s.issues.map(i => i.id),
           duration: s.duration,
+          error: s.error,
         })),
-        allIssues: result.allIssues,
-        prioritizedIssues: result.allIssues
-          .sort((a, b) => {
-            const severityOrder = { critical: 0, major: 1, minor: 2, info: 3 };
-            return severityOrder[a.severity] - severityOrder[b.severity];
-          })
-          .map(i => i.id),
-        issuesByCategory: result.allIssues.reduce((acc, issue) => {
-          acc[issue.category] = (acc[issue.category] || 0) + 1;
-          return acc;
-        }, {} as Record<string, number>),
+        ...summarizeIssues(allIssues),
         overallScore: result.overallScore,
         recommendations: [],
         userDecisions: [],
-        promptVersion: state.meta.promptVersion,
-        modelId: state.meta.modelId,
+        promptVersion,
+        modelId,
+        experimentAssignments: result.experiments?.length ? result.experiments : undefined,
       };
 
       dispatch({ type: 'SET_QUALITY_REPORT', payload: qualityReport });
-      dispatch({ type: 'UPDATE_META', payload: { lastRunAt: createTimestamp() } });
+      dispatch({ type: 'UPDATE_META', payload: { lastRunAt: createTimestamp(), modelId, promptVersion } });
 
     } catch (error) {
+      // Stage results streamed before the failure are dropped with their issues
       const errorMessage = error instanceof Error ? error.message : 'Fehler bei der Pipeline';
-      dispatch({ type: 'SET_ERROR', payload: errorMessage });
+      dispatch({ type: 'SET_PIPELINE_STAGES', payload: [] });
+      if (canFallBackOffline(error)) {
+        applyOfflineAnalysis(storyText, ruleIssues, errorMessage, PIPELINE_STAGES);
+      } else {
+        dispatch({ type: 'SET_ERROR', payload: errorMessage });
+      }
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
       dispatch({ type: 'SET_LOADING_STAGE', payload: null });
+      dispatch({ type: 'SET_CURRENT_PIPELINE_STAGE', payload: null });
+      dispatch({ type: 'SET_RUNNING_PIPELINE_STAGES', payload: [] });
     }
-  }, [state.originalStoryText, state.optimisedStoryText, state.structuredStory, state.contextSnippets, state.additionalContext, state.meta.promptVersion, state.meta.projectId, state.meta.modelId, state.runtimeConfig]);
+  }, [state.originalStoryText, state.optimisedStoryText, state.structuredStory, state.contextSnippets, state.additionalContext, state.meta.projectId, state.runtimeConfig, getCallScope, lintStory, rememberExperiments, applyOfflineAnalysis]);
+
+  // Runs one stage again with the current story and the stored results of
+  // the stages it depends on; the other stages keep their results
+  const rerunPipelineStageAction = useCallback(async (stage: PipelineStage) => {
+    const storyText = state.optimisedStoryText || state.originalStoryText;
+    if (!storyText) {
+      dispatch({ type: 'SET_ERROR', payload: 'Keine Story zum Analysieren vorhanden' });
+      return;
+    }
+
+    // Outdated dependencies would hand the stage their summaries of an older story
+    const stageStates = getStageStates(state.pipelineStages, storyText, state.runningPipelineStages);
+    if (getOutdatedDependencies(stage, stageStates).length > 0) return;
+
+    const previousResults = buildPreviousResults(stage, state.pipelineStages, state.analysisIssues, state.structuredStory);
+
+    dispatch({ type: 'SET_LOADING', payload: true });
+    dispatch({ type: 'SET_ERROR', payload: null });
+    dispatch({ type: 'SET_LOADING_STAGE', payload: PROMPT_STAGE_LABELS[stage] });
+    dispatch({ type: 'SET_CURRENT_PIPELINE_STAGE', payload: stage });
+    dispatch({ type: 'SET_RUNNING_PIPELINE_STAGES', payload: [stage] });
+
+    // The issues of the earlier run make way for the new ones
+    const keptIssues = state.analysisIssues.filter(i => i.pipelineStage !== stage);
+    const startTime = Date.now();
+
+    // Issues, stage, analysis result and report are updated as after a full run
+    const applyStageRun = (
+      stageResult: PipelineStageResult,
+      issues: QualityIssue[],
+      overallScore?: number,
+      experiments?: ExperimentAssignment[]
+    ) => {
+      dispatch({ type: 'SET_ANALYSIS_ISSUES', payload: issues });
+      dispatch({ type: 'UPDATE_PIPELINE_STAGE', payload: stageResult });
+      if (overallScore !== undefined) {
+        dispatch({ type: 'SET_ANALYSIS_SCORE', payload: overallScore });
+      }
+      if (state.analysisResult) {
+        dispatch({
+          type: 'SET_ANALYSIS_RESULT',
+          payload: {
+            ...state.analysisResult,
+            issues,
+            overallScore: overallScore ?? state.analysisResult.overallScore,
+            analyzedAt: createTimestamp(),
+            contextCitations: issues.flatMap(i => i.contextCitations ?? []),
+          },
+        });
+      }
+      if (state.qualityReport) {
+        const report = state.qualityReport;
+        const assignments = [
+          ...(report.experimentAssignments || []).filter(a => a.stage !== stage),
+          ...(experiments || []),
+        ];
+        dispatch({
+          type: 'SET_QUALITY_REPORT',
+          payload: {
+            ...report,
+            ...summarizeIssues(issues),
+            pipelineStages: report.pipelineStages.some(s => s.stage === stage)
+              ? report.pipelineStages.map(s => s.stage === stage ? stageResult : s)
+              : [...report.pipelineStages, stageResult],
+            overallScore: overallScore ?? report.overallScore,
+            experimentAssignments: assignments.length ? assignments : undefined,
+          },
+        });
+      }
+    };
+
+    try {
+      const result = await runPipelineStage(
+        stage,
+        storyText,
+        state.structuredStory,
+        state.contextSnippets,
+        previousResults,
+        state.runtimeConfig.promptVersion,
+        state.runtimeConfig,
+        getCallScope(),
+        // A re-run asks for a new answer, the cached one is what the user already sees
+        true
+      );
+      rememberExperiments([stage], result.experiments);
+
+      applyStageRun(
+        {
+          stage,
+          status: result.status,
+          issues: result.issues.map(i => i.id),
+          duration: result.duration,
+          summary: result.summary,
+          completedAt: createTimestamp(),
+          analyzedText: storyText,
+        },
+        [...keptIssues, ...result.issues],
+        result.overallScore,
+        result.experiments
+      );
+      if (result.structuredModel) {
+        dispatch({ type: 'SET_STRUCTURED_STORY', payload: result.structuredModel });
+      }
+      dispatch({ type: 'UPDATE_META', payload: { lastRunAt: createTimestamp() } });
+    } catch (error) {
+      applyStageRun(
+        {
+          stage,
+          status: 'failed',
+          issues: [],
+          duration: Date.now() - startTime,
+          error: error instanceof Error ? error.message : 'Fehler bei der Stufe',
+          completedAt: createTimestamp(),
+          analyzedText: storyText,
+        },
+        keptIssues
+      );
+    } finally {
+      dispatch({ type: 'SET_LOADING', payload: false });
+      dispatch({ type: 'SET_LOADING_STAGE', payload: null });
+      dispatch({ type: 'SET_CURRENT_PIPELINE_STAGE', payload: null });
+      dispatch({ type: 'SET_RUNNING_PIPELINE_STAGES', payload: [] });
+    }
+  }, [state.originalStoryText, state.optimisedStoryText, state.structuredStory, state.contextSnippets, state.pipelineStages, state.runningPipelineStages, state.analysisIssues, state.analysisResult, state.qualityReport, state.runtimeConfig, getCallScope, rememberExperiments]);
 
   const rewriteStoryAction = useCallback(async () => {
     const storyText = state.optimisedStoryText || state.originalStoryText;
@@ -828,17 +1219,20 @@ ${contextText}
         state.structuredStory,
         state.contextSnippets,
         relevantIssues.length > 0 ? relevantIssues : undefined,
-        state.meta.promptVersion
+        state.runtimeConfig.promptVersion,
+        state.runtimeConfig,
+        getCallScope()
       );
+      rememberExperiments(['rewrite'], result.experiments);
       dispatch({ type: 'SET_REWRITE_CANDIDATES', payload: result.candidates });
-      dispatch({ type: 'UPDATE_META', payload: { lastRunAt: createTimestamp() } });
+      dispatch({ type: 'UPDATE_META', payload: { lastRunAt: createTimestamp(), modelId: result.modelId || state.runtimeConfig.modelId } });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Fehler beim Rewrite';
       dispatch({ type: 'SET_ERROR', payload: errorMessage });
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [state.originalStoryText, state.optimisedStoryText, state.structuredStory, state.contextSnippets, state.analysisIssues, state.meta.promptVersion]);
+  }, [state.originalStoryText, state.optimisedStoryText, state.structuredStory, state.contextSnippets, state.analysisIssues, state.runtimeConfig, getCallScope, rememberExperiments]);
 
   const generateAcceptanceCriteriaAction = useCallback(async () => {
     const storyText = state.optimisedStoryText || state.originalStoryText;
@@ -855,17 +1249,20 @@ ${contextText}
         storyText,
         state.structuredStory,
         state.contextSnippets,
-        state.meta.promptVersion
+        state.runtimeConfig.promptVersion,
+        state.runtimeConfig,
+        getCallScope()
       );
+      rememberExperiments(['acceptance_criteria'], result.experiments);
       dispatch({ type: 'SET_ACCEPTANCE_CRITERIA', payload: result.criteria });
-      dispatch({ type: 'UPDATE_META', payload: { lastRunAt: createTimestamp() } });
+      dispatch({ type: 'UPDATE_META', payload: { lastRunAt: createTimestamp(), modelId: result.modelId || state.runtimeConfig.modelId } });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Fehler bei Akzeptanzkriterien';
       dispatch({ type: 'SET_ERROR', payload: errorMessage });
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [state.originalStoryText, state.optimisedStoryText, state.structuredStory, state.contextSnippets, state.meta.promptVersion]);
+  }, [state.originalStoryText, state.optimisedStoryText, state.structuredStory, state.contextSnippets, state.runtimeConfig, getCallScope, rememberExperiments]);
 
   // Manual save action
   const saveStoryAction = useCallback(async (): Promise<string | null> => {
@@ -895,6 +1292,7 @@ ${contextText}
     setAdditionalContext,
     setAnalysisResults,
     updateAnalysisIssue,
+    applyIssueReplacement,
     setRewriteCandidates,
     selectRewrite,
     acceptRewrite,
@@ -913,6 +1311,7 @@ ${contextText}
     saveStoryAction,
     analyzeStoryAction,
     runFullPipelineAction,
+    rerunPipelineStageAction,
     rewriteStoryAction,
     generateAcceptanceCriteriaAction,
   };
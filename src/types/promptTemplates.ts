@@ -2,83 +2,48 @@
 // Prompt Templates - Versioned Pipeline Prompts
 // ============================================
 
-import { PipelineStage, QualityRule, VocabularyEntry, FewShotExample } from './storyTypes';
+import { IssueCategory, PipelineStage, QualityRule, VocabularyEntry, FewShotExample } from './storyTypes';
+import { renderTemplate, TemplateData } from '@/lib/templateEngine';
+// Prompt texts, rules, glossary and template variables are defined in llm-proxy; Deno cannot import from src
+import { PROMPT_V1 } from '../../supabase/functions/_shared/llm-proxy/prompts-v1.ts';
+import {
+  INVEST_RULES as PROXY_INVEST_RULES,
+  VOCABULARY as PROXY_VOCABULARY,
+  PROMPT_VARIABLES,
+  formatQualityRules as formatProxyQualityRules,
+  formatVocabulary as formatProxyVocabulary,
+} from '../../supabase/functions/_shared/llm-proxy/constants.ts';
 
 // ============================================
 // INVEST QUALITY RULES
 // ============================================
-export const INVEST_RULES: QualityRule[] = [
-  {
-    id: 'invest_independent',
-    name: 'Independent',
-    description: 'Die Story sollte unabhängig von anderen Stories sein und eigenständig Wert liefern.',
-    category: 'too_broad_scope',
-    checkCriteria: 'Prüfe ob die Story Abhängigkeiten zu anderen Stories hat oder eigenständig implementiert werden kann.',
-  },
-  {
-    id: 'invest_negotiable',
-    name: 'Negotiable',
-    description: 'Die Story sollte verhandelbar sein - keine detaillierten Spezifikationen, sondern Raum für Diskussion.',
-    category: 'solution_bias',
-    checkCriteria: 'Prüfe ob die Story Implementierungsdetails vorgibt statt das gewünschte Ergebnis zu beschreiben.',
-  },
-  {
-    id: 'invest_valuable',
-    name: 'Valuable',
-    description: 'Die Story muss einen klaren Geschäftswert für den Endnutzer oder das Unternehmen liefern.',
-    category: 'business_value_gap',
-    checkCriteria: 'Prüfe ob der Nutzen klar formuliert ist und einen echten Mehrwert darstellt.',
-  },
-  {
-    id: 'invest_estimable',
-    name: 'Estimable',
-    description: 'Die Story sollte gut genug verstanden werden, um den Aufwand schätzen zu können.',
-    category: 'ambiguity',
-    checkCriteria: 'Prüfe ob genug Informationen vorhanden sind, um den Aufwand zu schätzen.',
-  },
-  {
-    id: 'invest_small',
-    name: 'Small',
-    description: 'Die Story sollte klein genug sein, um in einem Sprint umgesetzt zu werden.',
-    category: 'too_broad_scope',
-    checkCriteria: 'Prüfe ob die Story in kleinere Stories aufgeteilt werden sollte.',
-  },
-  {
-    id: 'invest_testable',
-    name: 'Testable',
-    description: 'Es muss möglich sein, die Story zu testen und festzustellen, wann sie fertig ist.',
-    category: 'not_testable',
-    checkCriteria: 'Prüfe ob klare Akzeptanzkriterien definiert werden können.',
-  },
-];
+// Issue category the findings for each criterion fall under
+const INVEST_CATEGORIES: Record<string, IssueCategory> = {
+  invest_independent: 'too_broad_scope',
+  invest_negotiable: 'solution_bias',
+  invest_valuable: 'business_value_gap',
+  invest_estimable: 'ambiguity',
+  invest_small: 'too_broad_scope',
+  invest_testable: 'not_testable',
+};
+
+export const INVEST_RULES: QualityRule[] = PROXY_INVEST_RULES.map(rule => ({
+  id: rule.id,
+  name: rule.name,
+  description: rule.criteria,
+  category: INVEST_CATEGORIES[rule.id],
+  checkCriteria: rule.criteria,
+}));
 
 // ============================================
 // VOCABULARY / GLOSSAR
 // ============================================
-export const DEFAULT_VOCABULARY: VocabularyEntry[] = [
-  {
-    term: 'Benutzer',
-    definition: 'Die Person, die das System aktiv nutzt',
-    synonyms: ['User', 'Anwender', 'Nutzer'],
-    avoidTerms: ['jemand', 'man'],
-  },
-  {
-    term: 'Admin',
-    definition: 'Administrator mit erweiterten Berechtigungen',
-    synonyms: ['Administrator', 'Systemverwalter'],
-  },
-  {
-    term: 'möchte ich',
-    definition: 'Beschreibt das gewünschte Ziel/Feature',
-    avoidTerms: ['brauche', 'muss haben', 'soll können'],
-  },
-  {
-    term: 'damit',
-    definition: 'Beschreibt den Business Value / Nutzen',
-    synonyms: ['um zu', 'sodass'],
-    avoidTerms: ['weil', 'denn'],
-  },
-];
+export const DEFAULT_VOCABULARY: VocabularyEntry[] = PROXY_VOCABULARY.map(entry => ({
+  term: entry.term,
+  definition: entry.def,
+  synonyms: entry.synonyms,
+  avoidTerms: entry.avoid,
+}));
 
 // ============================================
 // FEW-SHOT EXAMPLES
@@ -132,301 +97,6 @@ export const REWRITE_EXAMPLES: FewShotExample[] = [
   },
 ];
 
-// ============================================
-// PIPELINE PROMPT TEMPLATES V1
-// ============================================
-
-export const PROMPT_V1_AMBIGUITY = `Du bist ein Experte für User Story Qualität. Analysiere die folgende Story auf MEHRDEUTIGKEITEN und UNKLARHEITEN.
-
-INVEST-Kriterium: Estimable (Schätzbar)
-- Sind alle Begriffe klar definiert?
-- Gibt es Wörter mit mehreren Interpretationsmöglichkeiten?
-- Fehlen Quantifizierungen bei Mengenangaben oder Zeiträumen?
-
-QUALITÄTSREGELN:
-{{qualityRules}}
-
-VOKABULAR-PRÜFUNG:
-{{vocabulary}}
-
-KONTEXT:
-{{context}}
-
-WICHTIGE REGELN:
-1. Analysiere NUR den gegebenen Text – erfinde KEINE neuen fachlichen Informationen
-2. Markiere Unsicherheiten explizit mit "[UNSICHER]"
-3. Beziehe dich auf konkrete Textstellen (Zitat)
-4. Wenn Kontext fehlt → stelle Klärungsfragen
-5. Antworte AUSSCHLIESSLICH mit validem JSON
-
-AUSGABEFORMAT (JSON):
-{
-  "stage": "ambiguity_analysis",
-  "issues": [
-    {
-      "id": "amb_1",
-      "category": "ambiguity",
-      "severity": "critical|major|minor|info",
-      "textReference": "Exaktes Zitat aus dem Text",
-      "reasoning": "Begründung warum mehrdeutig",
-      "clarificationQuestion": "Rückfrage zur Klärung",
-      "confidence": "high|medium|low"
-    }
-  ],
-  "summary": "Zusammenfassung der Ambiguitäts-Analyse"
-}`;
-
-export const PROMPT_V1_STRUCTURE = `Du bist ein User Story Struktur-Experte. Prüfe die folgende Story auf STRUKTURELLE VOLLSTÄNDIGKEIT.
-
-INVEST-Kriterien: Independent, Valuable
-- Hat die Story eine klare Rolle/Persona?
-- Ist das Ziel verständlich formuliert?
-- Ist der Nutzen (Business Value) angegeben?
-- Gibt es implizite Abhängigkeiten?
-
-QUALITÄTSREGELN:
-{{qualityRules}}
-
-KONTEXT:
-{{context}}
-
-VORHERIGE ANALYSE-ERGEBNISSE:
-{{previousResults}}
-
-WICHTIGE REGELN:
-1. Prüfe auf die Struktur "Als [Rolle] möchte ich [Ziel], damit [Nutzen]"
-2. Erfinde KEINE neuen fachlichen Details
-3. Markiere fehlende Elemente klar
-4. Antworte AUSSCHLIESSLICH mit validem JSON
-
-AUSGABEFORMAT (JSON):
-{
-  "stage": "structure_check",
-  "structuredModel": {
-    "role": "Erkannte Rolle oder null",
-    "goal": "Erkanntes Ziel oder null",
-    "benefit": "Erkannter Nutzen oder null",
-    "constraints": ["Erkannte Einschränkungen"],
-    "parseConfidence": "high|medium|low"
-  },
-  "issues": [
-    {
-      "id": "struct_1",
-      "category": "missing_role|missing_goal|missing_benefit",
-      "severity": "critical|major|minor|info",
-      "affectedSection": "role|goal|benefit|constraint",
-      "textReference": "Betroffene Stelle",
-      "reasoning": "Warum fehlt das Element",
-      "clarificationQuestion": "Rückfrage",
-      "confidence": "high|medium|low"
-    }
-  ],
-  "summary": "Struktur-Zusammenfassung"
-}`;
-
-export const PROMPT_V1_QUALITY = `Du bist ein Qualitätssicherungs-Experte für User Stories. Prüfe auf QUALITÄTSPROBLEME.
-
-INVEST-Kriterien: Small, Testable, Negotiable
-- Ist die Story klein genug für einen Sprint?
-- Kann die Story getestet werden?
-- Enthält sie Lösungsvorgaben statt Problembeschreibungen?
-
-QUALITÄTSREGELN (INVEST):
-{{qualityRules}}
-
-KONTEXT:
-{{context}}
-
-VORHERIGE ANALYSE-ERGEBNISSE:
-{{previousResults}}
-
-WICHTIGE REGELN:
-1. Bewerte gegen INVEST-Kriterien
-2. Erfinde KEINE neuen Anforderungen
-3. Markiere Unsicherheiten mit "[UNSICHER]"
-4. Antworte AUSSCHLIESSLICH mit validem JSON
-
-AUSGABEFORMAT (JSON):
-{
-  "stage": "quality_check",
-  "issues": [
-    {
-      "id": "qual_1",
-      "category": "too_broad_scope|not_testable|solution_bias|other",
-      "severity": "critical|major|minor|info",
-      "textReference": "Betroffene Stelle",
-      "reasoning": "Begründung des Problems",
-      "suggestedAction": "Vorgeschlagene Korrektur",
-      "clarificationQuestion": "Rückfrage bei Unsicherheit",
-      "investCriterion": "I|N|V|E|S|T",
-      "confidence": "high|medium|low"
-    }
-  ],
-  "overallScore": 0-100,
-  "summary": "Qualitäts-Zusammenfassung"
-}`;
-
-export const PROMPT_V1_BUSINESS_VALUE = `Du bist ein Business-Analyst. Prüfe die Story auf BUSINESS VALUE und NUTZENFORMULIERUNG.
-
-INVEST-Kriterium: Valuable
-- Ist der Geschäftswert klar erkennbar?
-- Profitiert der Endnutzer oder das Unternehmen?
-- Ist der Nutzen messbar oder zumindest beschreibbar?
-
-KONTEXT:
-{{context}}
-
-VORHERIGE ANALYSE-ERGEBNISSE:
-{{previousResults}}
-
-WICHTIGE REGELN:
-1. Bewerte ob echter Business Value vorhanden ist
-2. Erfinde KEINE neuen Geschäftsziele
-3. Schlage Verbesserungen vor wenn Value unklar
-4. Antworte AUSSCHLIESSLICH mit validem JSON
-
-AUSGABEFORMAT (JSON):
-{
-  "stage": "business_value",
-  "issues": [
-    {
-      "id": "bv_1",
-      "category": "business_value_gap",
-      "severity": "critical|major|minor|info",
-      "textReference": "Betroffene Nutzen-Formulierung",
-      "reasoning": "Warum ist der Value unklar",
-      "suggestedBenefit": "Vorschlag für bessere Formulierung",
-      "clarificationQuestion": "Rückfrage zum Business Value",
-      "confidence": "high|medium|low"
-    }
-  ],
-  "valueAssessment": {
-    "hasValue": true|false,
-    "valueType": "user|business|technical",
-    "clarity": "high|medium|low"
-  },
-  "summary": "Business Value Bewertung"
-}`;
-
-export const PROMPT_V1_SOLUTION_BIAS = `Du bist ein Requirements-Engineer. Prüfe die Story auf LÖSUNGSVORGABEN (Solution Bias).
-
-INVEST-Kriterium: Negotiable
-- Beschreibt die Story ein Problem oder eine Lösung?
-- Werden Implementierungsdetails vorgegeben?
-- Bleibt Raum für alternative Umsetzungen?
-
-KONTEXT:
-{{context}}
-
-VORHERIGE ANALYSE-ERGEBNISSE:
-{{previousResults}}
-
-WICHTIGE REGELN:
-1. Identifiziere technische Vorgaben im Ziel
-2. Unterscheide zwischen Was (erlaubt) und Wie (problematisch)
-3. Schlage neutrale Formulierungen vor
-4. Antworte AUSSCHLIESSLICH mit validem JSON
-
-AUSGABEFORMAT (JSON):
-{
-  "stage": "solution_bias",
-  "issues": [
-    {
-      "id": "sb_1",
-      "category": "solution_bias",
-      "severity": "critical|major|minor|info",
-      "textReference": "Technische/Lösungsvorgabe",
-      "reasoning": "Warum ist dies ein Solution Bias",
-      "alternativeFormulation": "Neutrale Problem-Formulierung",
-      "confidence": "high|medium|low"
-    }
-  ],
-  "hasSolutionBias": true|false,
-  "summary": "Solution Bias Bewertung"
-}`;
-
-export const PROMPT_V1_ACCEPTANCE_CRITERIA = `Du bist ein Experte für Akzeptanzkriterien. Generiere testbare Kriterien im Given-When-Then Format.
-
-INVEST-Kriterium: Testable
-- Jedes Kriterium muss konkret testbar sein
-- Decke Hauptfall, Fehlerfälle und Grenzfälle ab
-- Basiere NUR auf der gegebenen Story
-
-FEW-SHOT BEISPIELE:
-{{examples}}
-
-KONTEXT:
-{{context}}
-
-VORHERIGE ANALYSE-ERGEBNISSE:
-{{previousResults}}
-
-WICHTIGE REGELN:
-1. Leite Kriterien NUR aus der Story ab
-2. Erfinde KEINE neuen Business-Regeln
-3. Markiere Annahmen mit "[ANNAHME]"
-4. Antworte AUSSCHLIESSLICH mit validem JSON
-
-AUSGABEFORMAT (JSON):
-{
-  "stage": "acceptance_criteria",
-  "criteria": [
-    {
-      "id": "ac_1",
-      "title": "Beschreibender Titel",
-      "given": "Vorbedingung",
-      "when": "Auslösende Aktion",
-      "then": "Erwartetes Ergebnis",
-      "type": "happy_path|edge_case|error_case|negative_case",
-      "priority": "must|should|could",
-      "notes": "Anmerkungen oder Annahmen",
-      "confidence": "high|medium|low"
-    }
-  ],
-  "coverage": {
-    "mainFlow": true|false,
-    "errorCases": true|false,
-    "edgeCases": true|false,
-    "negativeCases": true|false
-  },
-  "openQuestions": ["Fragen für vollständige Abdeckung"]
-}`;
-
-export const PROMPT_V1_REWRITE = `Du bist ein User Story Experte. Erstelle verbesserte Versionen basierend auf den erkannten Issues.
-
-QUALITÄTSREGELN:
-{{qualityRules}}
-
-ZU ADRESSIERENDE ISSUES:
-{{relevantIssues}}
-
-KONTEXT:
-{{context}}
-
-WICHTIGE REGELN:
-1. Basiere Rewrites NUR auf den gegebenen Informationen
-2. Wenn Informationen fehlen, markiere mit [PLATZHALTER: Beschreibung]
-3. Erkläre jede Änderung nachvollziehbar
-4. Erstelle 2-3 verschiedene Varianten
-5. Antworte AUSSCHLIESSLICH mit validem JSON
-
-AUSGABEFORMAT (JSON):
-{
-  "candidates": [
-    {
-      "id": "rw_1",
-      "text": "Verbesserte Story im Als/Möchte/Damit Format",
-      "explanation": "Begründung für diese Version",
-      "addressedIssueIds": ["issue_1", "issue_2"],
-      "changes": [
-        {"type": "added|removed|modified|clarified", "description": "Was wurde geändert"}
-      ],
-      "confidence": "high|medium|low",
-      "openQuestions": ["Noch zu klärende Fragen"]
-    }
-  ]
-}`;
-
 // ============================================
 // TEMPLATE REGISTRY
 // ============================================
@@ -441,13 +111,13 @@ export interface PromptTemplateRegistry {
 export const PROMPT_REGISTRY_V1: PromptTemplateRegistry = {
   version: 'v1',
   templates: {
-    ambiguity_analysis: PROMPT_V1_AMBIGUITY,
-    structure_check: PROMPT_V1_STRUCTURE,
-    quality_check: PROMPT_V1_QUALITY,
-    business_value: PROMPT_V1_BUSINESS_VALUE,
-    solution_bias: PROMPT_V1_SOLUTION_BIAS,
-    acceptance_criteria: PROMPT_V1_ACCEPTANCE_CRITERIA,
-    rewrite: PROMPT_V1_REWRITE,
+    ambiguity_analysis: PROMPT_V1.ambiguity_analysis,
+    structure_check: PROMPT_V1.structure_check,
+    quality_check: PROMPT_V1.quality_check,
+    business_value: PROMPT_V1.business_value,
+    solution_bias: PROMPT_V1.solution_bias,
+    acceptance_criteria: PROMPT_V1.acceptance_criteria,
+    rewrite: PROMPT_V1.rewrite,
   },
   qualityRules: INVEST_RULES,
   vocabulary: DEFAULT_VOCABULARY,
@@ -460,3 +130,61 @@ export const PROMPT_REGISTRY_V1: PromptTemplateRegistry = {
 export const PROMPT_REGISTRIES: Record<string, PromptTemplateRegistry> = {
   v1: PROMPT_REGISTRY_V1,
 };
+
+// ============================================
+// TEMPLATE VARIABLES
+// ============================================
+// Defined next to llm-proxy's buildPrompts, which fills these values
+export { PROMPT_VARIABLES };
+
+// ============================================
+// TEMPLATE RENDERING
+// ============================================
+// Same output as llm-proxy, so previews match the prompts the model gets
+export function formatQualityRules(rules: QualityRule[]): string {
+  return formatProxyQualityRules(rules.map(r => ({ id: r.id, name: r.name, criteria: r.checkCriteria })));
+}
+
+export function formatVocabulary(entries: VocabularyEntry[]): string {
+  return formatProxyVocabulary(entries.map(v => ({
+    term: v.term,
+    def: v.definition,
+    synonyms: v.synonyms,
+    avoid: v.avoidTerms,
+  })));
+}
+
+export function formatExamples(examples: FewShotExample[]): string {
+  return examples.map(e => {
+    let entry = `Beispiel:\nInput: "${e.input}"\nOutput: ${e.expectedOutput}`;
+    if (e.explanation) entry += `\nErklärung: ${e.explanation}`;
+    return entry;
+  }).join('\n\n');
+}
+
+/**
+ * Renders a prompt with the registry's rules, vocabulary and examples filled
+ * in; values in data take precedence. Throws TemplateError like llm-proxy
+ * does for broken templates and missing required variables.
+ */
+export function renderPromptTemplate(
+  template: string,
+  data: TemplateData,
+  registry: PromptTemplateRegistry = PROMPT_REGISTRY_V1
+): string {
+  return renderTemplate(template, {
+    structuredStory: '',
+    role: '',
+    goal: '',
+    benefit: '',
+    constraints: [],
+    context: '',
+    qualityRules: formatQualityRules(registry.qualityRules),
+    vocabulary: formatVocabulary(registry.vocabulary),
+    fewShotExamples: formatExamples(registry.examples.analysis || []),
+    previousResults: '',
+    relevantIssues: '',
+    issues: [],
+    ...data,
+  }, PROMPT_VARIABLES);
+}
@@ -60,6 +60,10 @@ export interface ContextSnippet {
     page?: number;
   };
   relevanceScore?: number;
+  // Überschriften über dem Abschnitt, von der obersten Ebene an
+  headingPath?: string[];
+  // 'retrieval': beim Analysestart automatisch aus den Projektdokumenten geholt
+  origin?: 'manual' | 'retrieval';
   addedAt: string;
 }
 
@@ -86,8 +90,13 @@ export interface AnalysisResult {
   modelId: string;
   pipelineStage: PipelineStage;
   contextCitations?: ContextCitation[];
+  // 'offline': heuristische Analyse, weil der LLM-Proxy nicht erreichbar war
+  mode?: AnalysisMode;
+  fallbackReason?: string;
 }
 
+export type AnalysisMode = 'llm' | 'offline';
+
 export interface ContextCitation {
   snippetId: string;
   quote: string;
@@ -108,7 +117,14 @@ export interface QualityIssue {
   clarificationQuestion?: string;
   suggestedAction?: string;
   confidence: 'high' | 'medium' | 'low';
-  contextCitations?: string[];
+  // Kontext-Snippets, auf die sich der Befund stützt
+  contextCitations?: ContextCitation[];
+  // Pipeline-Stufe, die den Befund geliefert hat
+  pipelineStage?: PipelineStage;
+  // Befunde regelbasierter Prüfungen (Glossar-Linter, Offline-Analyse) statt des LLM
+  source?: IssueSource;
+  textSpan?: TextSpan;
+  replacement?: string;
   // Human-in-the-loop Felder
   isRelevant?: boolean;
   userNote?: string;
@@ -134,6 +150,14 @@ export type IssueCategory =
 
 export type IssueSeverity = 'critical' | 'major' | 'minor' | 'info';
 
+export type IssueSource = 'llm' | 'rule';
+
+// Zeichen-Offsets im Story-Text, end exklusiv
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
 export type AffectedSection = 
   | 'role' 
   | 'goal' 
@@ -251,6 +275,8 @@ export interface QualityReport {
   userDecisions: UserDecision[];
   promptVersion: string;
   modelId: string;
+  // Experiment-Varianten, mit denen die Stufen dieses Berichts liefen
+  experimentAssignments?: ExperimentAssignment[];
 }
 
 export interface PipelineStageResult {
@@ -259,6 +285,10 @@ export interface PipelineStageResult {
   issues: string[]; // Issue IDs
   duration: number; // ms
   error?: string;
+  summary?: string;
+  completedAt?: string;
+  // Story-Text, auf dem die Stufe lief; weicht er ab, ist das Ergebnis veraltet
+  analyzedText?: string;
 }
 
 // ============================================
@@ -288,10 +318,13 @@ export interface ExportMetadata {
 // 11. PROMPT-VORLAGE
 // Versionierte Textbausteine
 // ============================================
+// Pipeline-Stufen plus die eigenständigen Operationen mit eigenem Prompt
+export type PromptStage = PipelineStage | 'rewrite' | 'analyze';
+
 export interface PromptTemplate {
   id: string;
   version: string;
-  stage: PipelineStage;
+  stage: PromptStage;
   systemPrompt: string;
   userPromptTemplate: string;
   outputSchema: object;
@@ -302,13 +335,15 @@ export interface PromptTemplate {
   createdAt: string;
   updatedAt: string;
   isActive: boolean;
+  // Zeitpunkt, zu dem die Version zuletzt aktiviert wurde; für Rollbacks
+  activatedAt?: string;
 }
 
 export interface PromptVariable {
   name: string;
   type: 'string' | 'object' | 'array' | 'boolean';
   required: boolean;
-  description: string;
+  description?: string;
 }
 
 export interface FewShotExample {
@@ -318,6 +353,24 @@ export interface FewShotExample {
   explanation?: string;
 }
 
+export type ExampleLanguage = 'de' | 'en';
+
+export const EXAMPLE_LANGUAGE_LABELS: Record<ExampleLanguage, string> = {
+  de: 'Deutsch',
+  en: 'Englisch',
+};
+
+// Eintrag der Few-Shot-Bibliothek; ohne projectId ein globaler Standard
+export interface LibraryFewShotExample extends FewShotExample {
+  stage: PromptStage;
+  language: ExampleLanguage;
+  projectId: string | null;
+  tags: string[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface QualityRule {
   id: string;
   name: string;
@@ -333,6 +386,104 @@ export interface VocabularyEntry {
   avoidTerms?: string[];
 }
 
+// Glossar-Einträge und Regeln, die ein Projekt zu den eingebauten hinzufügt
+export interface ProjectVocabularyEntry extends VocabularyEntry {
+  id: string;
+  projectId: string;
+}
+
+export interface ProjectQualityRule extends QualityRule {
+  projectId: string;
+  isActive: boolean;
+}
+
+// ============================================
+// PROMPT-EXPERIMENTE
+// A/B-Vergleich zweier Prompt-Versionen
+// ============================================
+export type ExperimentVariant = 'A' | 'B';
+
+export interface ExperimentAssignment {
+  experimentId: string;
+  stage: PromptStage;
+  variant: ExperimentVariant;
+  promptVersion: string;
+  // Aufruf in llm_calls, auf den sich Signale beziehen
+  callId?: string;
+}
+
+export type ExperimentSignal = 'issue_relevant' | 'rewrite_accepted' | 'criterion_rejected';
+
+// ============================================
+// PROMPT-EVALUATION
+// Golden Dataset und Läufe gegen Prompt-Versionen
+// ============================================
+export type EvaluationProvider = 'configured' | 'mock';
+
+export type StructureField = 'role' | 'goal' | 'benefit';
+
+export interface EvalCase {
+  id: string;
+  name: string;
+  storyText: string;
+  expectedIssueCategories: IssueCategory[];
+  // Nur gesetzte Felder werden bewertet
+  expectedRole?: string;
+  expectedGoal?: string;
+  expectedBenefit?: string;
+  expectedCriteriaCount?: number;
+  notes?: string;
+  createdAt: string;
+}
+
+export interface EvalCaseResult {
+  caseId: string;
+  caseName: string;
+  status: 'completed' | 'failed';
+  error?: string;
+  expectedCategories: IssueCategory[];
+  predictedCategories: IssueCategory[];
+  extracted?: Partial<Record<StructureField, string>>;
+  structureMatches: Partial<Record<StructureField, boolean>>;
+  expectedCriteriaCount?: number;
+  criteriaCount?: number;
+  failedStages: PipelineStage[];
+  duration: number;
+}
+
+export interface CategoryMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  // null, wenn der Nenner 0 ist
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface EvalMetrics {
+  categories: Partial<Record<IssueCategory, CategoryMetrics>>;
+  microPrecision: number | null;
+  microRecall: number | null;
+  structureAccuracy: number | null;
+  structureFieldsChecked: number;
+  criteriaCountExactRate: number | null;
+  criteriaCountMeanAbsError: number | null;
+  failedStageCount: number;
+}
+
+export interface EvalRun {
+  id: string;
+  label: string;
+  promptVersion: string;
+  model: string;
+  provider: EvaluationProvider;
+  caseCount: number;
+  failedCount: number;
+  metrics: EvalMetrics;
+  caseResults: EvalCaseResult[];
+  createdAt: string;
+}
+
 // ============================================
 // PIPELINE STAGES
 // ============================================
@@ -353,6 +504,30 @@ export const PIPELINE_STAGES: PipelineStage[] = [
   'solution_bias',
 ];
 
+// Stufen, deren Ergebnisse eine Stufe liest (wie STAGE_DEPENDENCIES im llm-proxy)
+export const PIPELINE_STAGE_DEPENDENCIES: Record<PipelineStage, PipelineStage[]> = {
+  ambiguity_analysis: [],
+  structure_check: [],
+  quality_check: ['ambiguity_analysis', 'structure_check'],
+  business_value: ['structure_check'],
+  solution_bias: ['structure_check'],
+  acceptance_criteria: ['ambiguity_analysis', 'structure_check', 'quality_check'],
+};
+
+// Stufen mit eigenen Prompt-Versionen
+export const PROMPT_STAGES: PromptStage[] = [...PIPELINE_STAGES, 'rewrite', 'analyze'];
+
+export const PROMPT_STAGE_LABELS: Record<PromptStage, string> = {
+  ambiguity_analysis: 'Ambiguitäts-Analyse',
+  structure_check: 'Struktur-Prüfung',
+  quality_check: 'Qualitäts-Check',
+  business_value: 'Business Value',
+  solution_bias: 'Solution Bias',
+  acceptance_criteria: 'Akzeptanzkriterien',
+  rewrite: 'Rewrite',
+  analyze: 'Analyse (Legacy)',
+};
+
 // ============================================
 // USER DECISION TRACKING
 // ============================================
@@ -391,12 +566,16 @@ export interface LLMRuntimeConfig {
   promptVersion: string;
 }
 
+// Fordert je Stufe die aktuell aktive Prompt-Version an
+export const ACTIVE_PROMPT_VERSION = 'active';
+
 export const DEFAULT_LLM_CONFIG: LLMRuntimeConfig = {
   temperature: 0.7,
   topK: 40,
   maxTokens: 2000,
-  modelId: 'gpt-4o-mini',
-  promptVersion: 'v1',
+  // Leer = das im Proxy konfigurierte Modell (LLM_MODEL)
+  modelId: '',
+  promptVersion: ACTIVE_PROMPT_VERSION,
 };
 
 // ============================================
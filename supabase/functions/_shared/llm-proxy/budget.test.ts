@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { BudgetUnavailableError, createBudgetGuard, resolveClientId } from "./budget.ts";
+
+const PROJECT_ID = '0b6f2c0e-8d3a-4c8e-9a57-3f1d2b4c5e6f';
+const ENV = { get: (key: string) => (key === 'LLM_CLIENT_REQUESTS_PER_MINUTE' ? '10' : undefined) };
+
+const USAGE = {
+  admitted: false,
+  project_requests_last_minute: 0,
+  project_oldest_request_at: null,
+  project_tokens_today: 0,
+  project_cost_today: 0,
+  client_requests_last_minute: 7,
+  client_oldest_request_at: '2026-01-01T10:00:00.000Z',
+  client_tokens_today: 0,
+  client_cost_today: 0,
+};
+
+function fakeSupabase(options: { usage?: object | null; usageError?: object; projectError?: object } = {}) {
+  const rpcCalls: Array<Record<string, unknown>> = [];
+  const client = {
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: async () => ({ data: null, error: options.projectError ?? null }),
+        }),
+      }),
+    }),
+    rpc: (_name: string, params: Record<string, unknown>) => {
+      rpcCalls.push(params);
+      return {
+        single: async () => ({ data: options.usage === undefined ? USAGE : options.usage, error: options.usageError ?? null }),
+      };
+    },
+  };
+  return { client: client as unknown as Parameters<typeof createBudgetGuard>[0], rpcCalls };
+}
+
+describe('resolveClientId', () => {
+  const request = (forwardedFor: string) => new Request('http://localhost', { headers: { 'x-forwarded-for': forwardedFor } });
+
+  it('counts anonymous callers by the address the edge proxy appended', () => {
+    expect(resolveClientId(request('1.1.1.1, 2.2.2.2'), { userId: 'u1', isAnonymous: true })).toBe('ip:2.2.2.2');
+  });
+
+  it('uses the user id for signed-in callers and when no address is known', () => {
+    expect(resolveClientId(request('1.1.1.1'), { userId: 'u1', isAnonymous: false })).toBe('user:u1');
+    expect(resolveClientId(request(' , '), { userId: 'u2', isAnonymous: true })).toBe('user:u2');
+  });
+});
+
+describe('createBudgetGuard', () => {
+  it('counts every call of a request against the per-minute limit', async () => {
+    const { client, rpcCalls } = fakeSupabase();
+    const violation = await createBudgetGuard(client, ENV)!.admit('full_pipeline', undefined, 'user:u1', 6);
+
+    expect(rpcCalls[0]).toMatchObject({ p_project_id: null, p_client_requests_per_minute: 10, p_request_count: 6 });
+    expect(violation).toEqual({
+      scope: 'client',
+      limit: 'requests_per_minute',
+      max: 10,
+      used: 7,
+      resetAt: '2026-01-01T10:01:00.000Z',
+    });
+  });
+
+  it('admits requests the database admitted', async () => {
+    const { client } = fakeSupabase({ usage: { ...USAGE, admitted: true } });
+    await expect(createBudgetGuard(client, ENV)!.admit('rewrite', PROJECT_ID, 'user:u1')).resolves.toBeNull();
+  });
+
+  it('rejects requests when the budget cannot be checked', async () => {
+    const failedRpc = fakeSupabase({ usage: null, usageError: { message: 'down' } }).client;
+    const failedProject = fakeSupabase({ projectError: { message: 'down' } }).client;
+
+    await expect(createBudgetGuard(failedRpc, ENV)!.admit('rewrite', undefined, 'user:u1'))
+      .rejects.toBeInstanceOf(BudgetUnavailableError);
+    await expect(createBudgetGuard(failedProject, ENV)!.admit('rewrite', PROJECT_ID, 'user:u1'))
+      .rejects.toBeInstanceOf(BudgetUnavailableError);
+  });
+
+  it('is disabled without a database', () => {
+    expect(createBudgetGuard(null, ENV)).toBeNull();
+  });
+});
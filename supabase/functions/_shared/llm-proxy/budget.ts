@@ -0,0 +1,209 @@
+// ============================================================================
+// BUDGET - Per-project and per-client rate limits and daily budgets
+// ============================================================================
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { isUuid, type AuthenticatedCaller } from "../auth.ts";
+
+export type BudgetScope = 'project' | 'client';
+export type BudgetLimitKind = 'requests_per_minute' | 'tokens_per_day' | 'cost_per_day';
+
+export interface BudgetLimits {
+  requestsPerMinute: number | null;
+  tokensPerDay: number | null;
+  costPerDay: number | null;
+}
+
+export interface BudgetViolation {
+  scope: BudgetScope;
+  limit: BudgetLimitKind;
+  max: number;
+  used: number;
+  resetAt: string;
+}
+
+export interface BudgetGuard {
+  /**
+   * Returns the first exceeded limit, or null. Counts the request's LLM calls
+   * against the per-minute limits when it is allowed; check and count are
+   * atomic. Throws BudgetUnavailableError when the budget cannot be checked.
+   */
+  admit(operation: string, projectId: string | undefined, clientId: string, callCount?: number): Promise<BudgetViolation | null>;
+}
+
+export class BudgetUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetUnavailableError';
+  }
+}
+
+function parseLimit(value: string | undefined): number | null {
+  if (!value) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Client limits used when the project does not define its own, including
+ * calls without a project. A full pipeline counts as one request per stage.
+ *
+ * LLM_CLIENT_REQUESTS_PER_MINUTE  (default: 20)
+ * LLM_CLIENT_TOKENS_PER_DAY       (default: 200000)
+ * LLM_CLIENT_COST_PER_DAY         USD (default: none)
+ */
+export function getDefaultClientLimits(env: { get(key: string): string | undefined } = Deno.env): BudgetLimits {
+  return {
+    requestsPerMinute: parseLimit(env.get('LLM_CLIENT_REQUESTS_PER_MINUTE') ?? '20'),
+    tokensPerDay: parseLimit(env.get('LLM_CLIENT_TOKENS_PER_DAY') ?? '200000'),
+    costPerDay: parseLimit(env.get('LLM_CLIENT_COST_PER_DAY')),
+  };
+}
+
+/**
+ * Key the client limits and llm_calls are attributed to. Anonymous sessions
+ * cost nothing to create, so their calls are counted per IP address; a new
+ * session would otherwise start with a fresh budget.
+ *
+ * Only the right-most x-forwarded-for entry is used: the edge proxy appends
+ * the address it saw, everything before it is whatever the caller sent.
+ */
+export function resolveClientId(req: Request, caller: AuthenticatedCaller): string {
+  if (caller.isAnonymous) {
+    const ip = req.headers.get('x-forwarded-for')?.split(',').map(hop => hop.trim()).filter(Boolean).at(-1);
+    if (ip) return `ip:${ip}`;
+  }
+  return `user:${caller.userId}`;
+}
+
+function nextUtcMidnight(now: Date): string {
+  const reset = new Date(now);
+  reset.setUTCHours(24, 0, 0, 0);
+  return reset.toISOString();
+}
+
+function minuteReset(oldestRequestAt: string | null, now: Date): string {
+  const oldest = oldestRequestAt ? new Date(oldestRequestAt).getTime() : now.getTime();
+  return new Date(oldest + 60_000).toISOString();
+}
+
+interface BudgetUsage {
+  requestsLastMinute: number;
+  oldestRequestAt: string | null;
+  tokensToday: number;
+  costToday: number;
+}
+
+function findViolation(
+  scope: BudgetScope,
+  limits: BudgetLimits,
+  usage: BudgetUsage,
+  callCount: number,
+  now: Date
+): BudgetViolation | null {
+  if (limits.requestsPerMinute !== null && usage.requestsLastMinute + callCount > limits.requestsPerMinute) {
+    return {
+      scope,
+      limit: 'requests_per_minute',
+      max: limits.requestsPerMinute,
+      used: usage.requestsLastMinute,
+      resetAt: minuteReset(usage.oldestRequestAt, now),
+    };
+  }
+  if (limits.tokensPerDay !== null && usage.tokensToday >= limits.tokensPerDay) {
+    return { scope, limit: 'tokens_per_day', max: limits.tokensPerDay, used: usage.tokensToday, resetAt: nextUtcMidnight(now) };
+  }
+  if (limits.costPerDay !== null && usage.costToday >= limits.costPerDay) {
+    return { scope, limit: 'cost_per_day', max: limits.costPerDay, used: usage.costToday, resetAt: nextUtcMidnight(now) };
+  }
+  return null;
+}
+
+/**
+ * Creates the guard on top of the projects budget columns, llm_requests and
+ * llm_calls. When the database is unreachable requests are rejected, an
+ * unchecked request could run up any cost.
+ */
+export function createBudgetGuard(
+  supabase: SupabaseClient | null,
+  env: { get(key: string): string | undefined } = Deno.env
+): BudgetGuard | null {
+  if (!supabase) return null;
+
+  const defaultClientLimits = getDefaultClientLimits(env);
+
+  return {
+    async admit(operation, projectId, clientId, callCount = 1) {
+      // Story sessions without a stored project carry generated ids
+      const knownProjectId = projectId && isUuid(projectId) ? projectId : undefined;
+
+      let projectLimits: BudgetLimits = { requestsPerMinute: null, tokensPerDay: null, costPerDay: null };
+      let clientLimits = defaultClientLimits;
+
+      if (knownProjectId) {
+        const { data: project, error } = await supabase
+          .from('projects')
+          .select('llm_requests_per_minute, llm_tokens_per_day, llm_cost_per_day, llm_client_requests_per_minute, llm_client_tokens_per_day, llm_client_cost_per_day')
+          .eq('id', knownProjectId)
+          .maybeSingle();
+
+        if (error) {
+          console.error('Error loading project budget:', error);
+          throw new BudgetUnavailableError('Could not load the project budget');
+        }
+        if (project) {
+          projectLimits = {
+            requestsPerMinute: project.llm_requests_per_minute,
+            tokensPerDay: project.llm_tokens_per_day,
+            costPerDay: project.llm_cost_per_day !== null ? Number(project.llm_cost_per_day) : null,
+          };
+          clientLimits = {
+            requestsPerMinute: project.llm_client_requests_per_minute ?? defaultClientLimits.requestsPerMinute,
+            tokensPerDay: project.llm_client_tokens_per_day ?? defaultClientLimits.tokensPerDay,
+            costPerDay: project.llm_client_cost_per_day !== null
+              ? Number(project.llm_client_cost_per_day)
+              : defaultClientLimits.costPerDay,
+          };
+        }
+      }
+
+      // Checked and counted in one transaction, so parallel calls cannot all slip through
+      const { data: usage, error: usageError } = await supabase
+        .rpc('admit_llm_request', {
+          p_operation: operation,
+          p_project_id: knownProjectId ?? null,
+          p_client_id: clientId,
+          p_project_requests_per_minute: projectLimits.requestsPerMinute,
+          p_project_tokens_per_day: projectLimits.tokensPerDay,
+          p_project_cost_per_day: projectLimits.costPerDay,
+          p_client_requests_per_minute: clientLimits.requestsPerMinute,
+          p_client_tokens_per_day: clientLimits.tokensPerDay,
+          p_client_cost_per_day: clientLimits.costPerDay,
+          p_request_count: callCount,
+        })
+        .single();
+
+      if (usageError || !usage) {
+        console.error('Error admitting LLM request:', usageError);
+        throw new BudgetUnavailableError('Could not check the LLM budget');
+      }
+
+      if (usage.admitted) {
+        return null;
+      }
+
+      const now = new Date();
+      return (knownProjectId && findViolation('project', projectLimits, {
+        requestsLastMinute: Number(usage.project_requests_last_minute),
+        oldestRequestAt: usage.project_oldest_request_at,
+        tokensToday: Number(usage.project_tokens_today),
+        costToday: Number(usage.project_cost_today),
+      }, callCount, now)) || findViolation('client', clientLimits, {
+        requestsLastMinute: Number(usage.client_requests_last_minute),
+        oldestRequestAt: usage.client_oldest_request_at,
+        tokensToday: Number(usage.client_tokens_today),
+        costToday: Number(usage.client_cost_today),
+      }, callCount, now);
+    },
+  };
+}
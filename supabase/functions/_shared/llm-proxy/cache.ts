@@ -0,0 +1,111 @@
+// ============================================================================
+// RESPONSE CACHE - Postgres-backed cache for identical LLM requests
+// ============================================================================
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import type { ResolvedRuntimeConfig } from "./runtime-config.ts";
+import type { Coercion } from "./schemas.ts";
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+export interface CacheKeyParts {
+  operation: string;
+  promptVersion: string;
+  provider: string;
+  systemPrompt: string;
+  userPrompt: string;
+  runtimeConfig: ResolvedRuntimeConfig;
+}
+
+export interface CachedResponse {
+  data: Record<string, unknown>;
+  model: string;
+  coercions: Coercion[];
+}
+
+export interface ResponseCache {
+  get(key: string): Promise<CachedResponse | null>;
+  set(key: string, parts: CacheKeyParts, value: CachedResponse): Promise<void>;
+}
+
+/**
+ * SHA-256 over everything that influences the LLM output. The filled system
+ * prompt covers template, rules, vocabulary and previous stage results.
+ */
+export async function computeCacheKey(parts: CacheKeyParts): Promise<string> {
+  const { model, temperature, topK, maxTokens } = parts.runtimeConfig;
+  const payload = JSON.stringify([
+    parts.operation,
+    parts.promptVersion,
+    parts.provider,
+    parts.systemPrompt,
+    parts.userPrompt,
+    { model, temperature, topK: topK ?? null, maxTokens },
+  ]);
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Creates the cache on top of the llm_response_cache table.
+ *
+ * LLM_CACHE_TTL_SECONDS  Lifetime of an entry (default: 86400, 0 disables the cache)
+ *
+ * Cache failures are logged and never fail the request.
+ */
+export function createResponseCache(
+  supabase: SupabaseClient | null,
+  env: { get(key: string): string | undefined } = Deno.env
+): ResponseCache | null {
+  const configuredTtl = env.get('LLM_CACHE_TTL_SECONDS');
+  const ttlSeconds = configuredTtl !== undefined ? Number(configuredTtl) : DEFAULT_TTL_SECONDS;
+
+  if (!supabase || !Number.isFinite(ttlSeconds) || ttlSeconds <= 0) {
+    return null;
+  }
+
+  return {
+    async get(key) {
+      const { data, error } = await supabase
+        .from('llm_response_cache')
+        .select('response, model, coercions')
+        .eq('cache_key', key)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error reading LLM cache:', error);
+        return null;
+      }
+      if (!data) return null;
+
+      return {
+        data: data.response as Record<string, unknown>,
+        model: data.model as string,
+        coercions: (data.coercions as Coercion[]) || [],
+      };
+    },
+
+    async set(key, parts, value) {
+      const { error } = await supabase
+        .from('llm_response_cache')
+        .upsert({
+          cache_key: key,
+          operation: parts.operation,
+          prompt_version: parts.promptVersion,
+          model: value.model,
+          response: value.data,
+          coercions: value.coercions,
+          created_at: new Date().toISOString(),
+          expires_at: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+        }, { onConflict: 'cache_key' });
+
+      if (error) {
+        console.error('Error writing LLM cache:', error);
+      }
+    },
+  };
+}
@@ -0,0 +1,84 @@
+// ============================================================================
+// CITATIONS - Context sources in the prompt and the issues that cite them
+// ============================================================================
+// Retrieved snippets reach the model as numbered sources ([Q1], [Q2], ...).
+// Issues name the sources that ground them; the labels are positional, so
+// they are translated back to snippet ids after the response (or the cache
+// hit) is in, never before.
+
+import type { Operation } from "./prompts-v1.ts";
+
+export interface ContextSource {
+  id: string;
+  text: string;
+  documentName?: string;
+}
+
+export interface ResolvedCitation {
+  snippetId: string;
+  quote: string;
+  relevance: string;
+}
+
+// Operations whose issues can be grounded in the sources
+const CITING_OPERATIONS: Operation[] = [
+  'ambiguity_analysis',
+  'structure_check',
+  'quality_check',
+  'business_value',
+  'solution_bias',
+];
+
+export const CITATION_INSTRUCTIONS = `KONTEXTQUELLEN:
+Der Kontext enthält nummerierte Quellen wie [Q1]. Stützt sich ein Befund auf eine Quelle,
+gib sie im Issue an:
+"contextCitations": [{ "source": "Q1", "quote": "Wörtliches Zitat aus der Quelle", "relevance": "Warum die Quelle den Befund stützt" }]
+Zitiere nur Quellen, die wirklich passen; ohne passende Quelle bleibt die Liste leer.`;
+
+export function isContextSourceList(value: unknown): value is ContextSource[] {
+  return Array.isArray(value) && value.every(source =>
+    typeof source === 'object' && source !== null &&
+    typeof (source as ContextSource).id === 'string' &&
+    typeof (source as ContextSource).text === 'string' &&
+    ((source as ContextSource).documentName === undefined || typeof (source as ContextSource).documentName === 'string')
+  );
+}
+
+export function isCitingOperation(operation: Operation): boolean {
+  return CITING_OPERATIONS.includes(operation);
+}
+
+function sourceLabel(index: number): string {
+  return `Q${index + 1}`;
+}
+
+export function formatContextSources(sources: ContextSource[]): string {
+  return sources
+    .map((source, i) => `[${sourceLabel(i)}]${source.documentName ? ` (${source.documentName})` : ''} ${source.text}`)
+    .join('\n\n');
+}
+
+/**
+ * Replaces the source labels in the issues' contextCitations with snippet
+ * ids. Citations of unknown labels are dropped, the model made them up.
+ */
+export function resolveCitations(data: Record<string, unknown>, sources: ContextSource[]): Record<string, unknown> {
+  if (!Array.isArray(data.issues)) return data;
+
+  const idByLabel = new Map(sources.map((source, i) => [sourceLabel(i), source.id]));
+  return {
+    ...data,
+    issues: (data.issues as Array<Record<string, unknown>>).map(issue => {
+      if (!Array.isArray(issue.contextCitations)) return issue;
+
+      const citations = (issue.contextCitations as Array<Record<string, unknown>>).flatMap(citation => {
+        const label = String(citation.source ?? '').replace(/[[\]\s]/g, '').toUpperCase();
+        const snippetId = idByLabel.get(label);
+        return snippetId
+          ? [{ snippetId, quote: String(citation.quote ?? ''), relevance: String(citation.relevance ?? '') }]
+          : [];
+      });
+      return { ...issue, contextCitations: citations };
+    }),
+  };
+}
@@ -1,3 +1,5 @@
+import type { TemplateVariableDefinition } from "../template-engine.ts";
+
 // ============================================================================
 // INVEST QUALITY RULES
 // ============================================================================
@@ -24,6 +26,7 @@ export const INVEST_RULES: QualityRule[] = [
 export interface VocabularyEntry {
   term: string;
   def: string;
+  synonyms?: string[];
   avoid?: string[];
 }
 
@@ -37,33 +40,117 @@ export const VOCABULARY: VocabularyEntry[] = [
 // ============================================================================
 // FEW-SHOT EXAMPLES
 // ============================================================================
+// Built-in defaults, used for a stage until the few_shot_examples table has
+// global examples for it (see few-shot.ts)
 
-export interface FewShotExamples {
-  ambiguity: string;
-  structure: string;
+export interface FewShotExample {
+  input: string;
+  output: string;
+  explanation?: string;
+  tags?: string[];
 }
 
-export const FEW_SHOT_EXAMPLES: FewShotExamples = {
-  ambiguity: `Beispiel:
-Input: "Als Benutzer möchte ich Daten schnell laden können."
-Output: {"issues":[{"category":"ambiguity","textReference":"schnell","reasoning":"'Schnell' ist nicht messbar. Was bedeutet schnell?","clarificationQuestion":"Welche konkreten Ladezeiten sind akzeptabel?"}]}`,
-  structure: `Beispiel:
-Input: "User löschen können."
-Output: {"issues":[{"category":"missing_role","reasoning":"Keine Rolle angegeben"},{"category":"missing_benefit","reasoning":"Kein Nutzen angegeben"}]}`,
+export const DEFAULT_FEW_SHOT_EXAMPLES: Partial<Record<string, FewShotExample[]>> = {
+  ambiguity_analysis: [
+    {
+      input: 'Als Benutzer möchte ich Daten schnell laden können.',
+      output: '{"issues":[{"category":"ambiguity","textReference":"schnell","reasoning":"\'Schnell\' ist nicht messbar. Was bedeutet schnell?","clarificationQuestion":"Welche konkreten Ladezeiten sind akzeptabel?"}]}',
+      tags: ['performance'],
+    },
+    {
+      input: 'Als Kunde möchte ich eine benutzerfreundliche Suche, damit ich Produkte finde.',
+      output: '{"issues":[{"category":"ambiguity","textReference":"benutzerfreundliche","reasoning":"\'Benutzerfreundlich\' ist subjektiv und nicht prüfbar.","clarificationQuestion":"Woran erkennen wir, dass die Suche benutzerfreundlich ist?"}]}',
+      tags: ['usability', 'suche'],
+    },
+  ],
+  structure_check: [
+    {
+      input: 'User löschen können.',
+      output: '{"issues":[{"category":"missing_role","reasoning":"Keine Rolle angegeben"},{"category":"missing_benefit","reasoning":"Kein Nutzen angegeben"}]}',
+    },
+    {
+      input: 'Als Admin möchte ich Benutzerkonten sperren, damit kompromittierte Konten keinen Schaden anrichten.',
+      output: '{"structuredModel":{"role":"Admin","goal":"Benutzerkonten sperren","benefit":"kompromittierte Konten richten keinen Schaden an","constraints":[],"parseConfidence":"high"},"issues":[]}',
+      explanation: 'Vollständige Stories erzeugen keine Struktur-Issues.',
+    },
+  ],
+  quality_check: [
+    {
+      input: 'Als Benutzer möchte ich Berichte erstellen, bearbeiten, exportieren, teilen und archivieren können.',
+      output: '{"issues":[{"category":"too_broad_scope","textReference":"erstellen, bearbeiten, exportieren, teilen und archivieren","reasoning":"Fünf Funktionen passen nicht in einen Sprint.","investCriterion":"S","suggestedAction":"In einzelne Stories je Funktion aufteilen"}],"overallScore":45}',
+      tags: ['scope'],
+    },
+  ],
+  business_value: [
+    {
+      input: 'Als Benutzer möchte ich ein Dashboard sehen, damit ich ein Dashboard habe.',
+      output: '{"issues":[{"category":"business_value_gap","textReference":"damit ich ein Dashboard habe","reasoning":"Der Nutzen wiederholt nur das Ziel.","suggestedBenefit":"damit ich offene Aufgaben auf einen Blick erkenne"}],"valueAssessment":{"hasValue":false,"valueType":"user","clarity":"low"}}',
+    },
+  ],
+  solution_bias: [
+    {
+      input: 'Als Benutzer möchte ich ein Dropdown mit allen Ländern, damit ich meine Adresse eingeben kann.',
+      output: '{"issues":[{"category":"solution_bias","textReference":"ein Dropdown mit allen Ländern","reasoning":"Das UI-Element ist vorgegeben statt des Bedarfs.","alternativeFormulation":"mein Land bei der Adresseingabe auswählen"}],"hasSolutionBias":true}',
+      tags: ['ui'],
+    },
+  ],
+  acceptance_criteria: [
+    {
+      input: 'Als Kunde möchte ich mein Passwort zurücksetzen, damit ich wieder Zugriff auf mein Konto erhalte.',
+      output: '{"criteria":[{"title":"Link anfordern","given":"ein registrierter Kunde auf der Anmeldeseite","when":"er \'Passwort vergessen\' mit seiner E-Mail-Adresse absendet","then":"erhält er einen Link zum Zurücksetzen","type":"happy_path","priority":"must"},{"title":"Abgelaufener Link","given":"ein Link, der älter als 24 Stunden ist","when":"der Kunde ihn öffnet","then":"wird ein Hinweis angezeigt und ein neuer Link kann angefordert werden","type":"error_case","priority":"should"}]}',
+      tags: ['login'],
+    },
+  ],
+  rewrite: [
+    {
+      input: 'Als Benutzer möchte ich Daten schnell laden können. Issues: [ambiguity] schnell',
+      output: '{"candidates":[{"text":"Als Benutzer möchte ich, dass die Datenliste innerhalb von 2 Sekunden geladen wird, damit ich effizient arbeiten kann.","explanation":"\'Schnell\' wurde durch eine messbare Zeitangabe ersetzt.","changes":[{"type":"modified","description":"\'schnell\' → \'innerhalb von 2 Sekunden\'"}],"openQuestions":["Ist 2 Sekunden die gewünschte Zielzeit?"]}]}',
+      tags: ['performance'],
+    },
+  ],
 };
 
+// ============================================================================
+// TEMPLATE VARIABLES
+// ============================================================================
+
+// Everything buildPrompts provides to system and user prompt templates.
+// Lists can be used with {{#each}}, optional values with {{#if}}. The admin
+// prompt editor validates drafts against the same list.
+export const PROMPT_VARIABLES: TemplateVariableDefinition[] = [
+  { name: 'storyText', type: 'string', required: true, description: 'Text der User Story' },
+  { name: 'structuredStory', type: 'string', required: false, description: 'Rolle, Ziel, Nutzen und Einschränkungen als Liste' },
+  { name: 'role', type: 'string', required: false, description: 'Erkannte Rolle' },
+  { name: 'goal', type: 'string', required: false, description: 'Erkanntes Ziel' },
+  { name: 'benefit', type: 'string', required: false, description: 'Erkannter Nutzen' },
+  { name: 'constraints', type: 'array', required: false, description: 'Einschränkungen, mit {{#each constraints}}' },
+  { name: 'context', type: 'string', required: false, description: 'Projekt- und Zusatzkontext' },
+  { name: 'qualityRules', type: 'string', required: true, description: 'Formatierte Qualitätsregeln' },
+  { name: 'vocabulary', type: 'string', required: true, description: 'Formatiertes Glossar' },
+  { name: 'fewShotExamples', type: 'string', required: false, description: 'Formatierte Beispiele' },
+  { name: 'previousResults', type: 'string', required: false, description: 'Ergebnisse vorheriger Stages als JSON' },
+  { name: 'relevantIssues', type: 'string', required: false, description: 'Zu adressierende Issues als nummerierte Liste' },
+  {
+    name: 'issues',
+    type: 'array',
+    required: false,
+    description: 'Zu adressierende Issues, mit {{#each issues}} und {{this.category}}, {{this.reasoning}}, {{this.userNote}}, {{this.textReference}}',
+  },
+];
+
 // ============================================================================
 // HELPER FUNCTIONS FOR FORMATTING
 // ============================================================================
 
-export function formatQualityRules(): string {
-  return INVEST_RULES.map(r => `- ${r.name}: ${r.criteria}`).join('\n');
+export function formatQualityRules(rules: QualityRule[] = INVEST_RULES): string {
+  return rules.map(r => `- ${r.name}: ${r.criteria}`).join('\n');
 }
 
-export function formatVocabulary(): string {
-  return VOCABULARY.map(v => {
+export function formatVocabulary(entries: VocabularyEntry[] = VOCABULARY): string {
+  return entries.map(v => {
     let entry = `- ${v.term}: ${v.def}`;
-    if (v.avoid) entry += ` (vermeide: ${v.avoid.join(', ')})`;
+    if (v.synonyms?.length) entry += ` (Synonyme: ${v.synonyms.join(', ')})`;
+    if (v.avoid?.length) entry += ` (vermeide: ${v.avoid.join(', ')})`;
     return entry;
   }).join('\n');
 }
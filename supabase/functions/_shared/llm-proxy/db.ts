@@ -0,0 +1,30 @@
+// ============================================================================
+// DATABASE - Service role client for llm-proxy bookkeeping tables
+// ============================================================================
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+/**
+ * Creates a service role client, or null when the function runs without
+ * Supabase credentials. llm-proxy only serves requests without it in the
+ * unauthenticated mock mode, see allowsUnauthenticatedMock.
+ */
+export function createServiceClient(env: { get(key: string): string | undefined } = Deno.env): SupabaseClient | null {
+  const supabaseUrl = env.get('SUPABASE_URL');
+  const supabaseServiceKey = env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+/**
+ * LLM_ALLOW_UNAUTHENTICATED_MOCK=true lets llm-proxy answer with the mock
+ * provider when Supabase is not configured, so the wizard runs on fixture
+ * responses locally or in air-gapped environments. Callers are neither
+ * authenticated nor budgeted then; never set it on a deployed function.
+ */
+export function allowsUnauthenticatedMock(env: { get(key: string): string | undefined } = Deno.env): boolean {
+  return env.get('LLM_ALLOW_UNAUTHENTICATED_MOCK') === 'true';
+}
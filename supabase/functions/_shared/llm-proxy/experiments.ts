@@ -0,0 +1,94 @@
+// ============================================================================
+// EXPERIMENTS - A/B split between two prompt versions of a stage
+// ============================================================================
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import type { Operation } from "./prompts-v1.ts";
+
+export type ExperimentVariant = 'A' | 'B';
+
+export interface ExperimentAssignment {
+  experimentId: string;
+  stage: Operation;
+  variant: ExperimentVariant;
+  promptVersion: string;
+  // llm_calls row of the call the variant served; signals point to it
+  callId?: string;
+}
+
+export interface ExperimentResolver {
+  /**
+   * Returns the variant for the unit (story or client), or null when no
+   * experiment runs for the stage. A unit always gets the same variant.
+   */
+  assign(stage: Operation, unitId: string): Promise<ExperimentAssignment | null>;
+}
+
+interface ExperimentRow {
+  id: string;
+  variant_a_version: string;
+  variant_b_version: string;
+  traffic_percent_b: number;
+}
+
+// Started and stopped experiments reach running instances after at most this long
+const EXPERIMENT_CACHE_TTL_MS = 60_000;
+
+const experimentCache = new Map<string, { row: ExperimentRow | null; expiresAt: number }>();
+
+// FNV-1a, stable across instances and deployments
+function hashToPercent(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 100;
+}
+
+export function pickVariant(experimentId: string, unitId: string, trafficPercentB: number): ExperimentVariant {
+  return hashToPercent(`${experimentId}:${unitId}`) < trafficPercentB ? 'B' : 'A';
+}
+
+export function createExperimentResolver(supabase: SupabaseClient | null): ExperimentResolver | null {
+  if (!supabase) return null;
+
+  const loadRunning = async (stage: Operation): Promise<ExperimentRow | null> => {
+    const cached = experimentCache.get(stage);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.row;
+    }
+
+    const { data, error } = await supabase
+      .from('prompt_experiments')
+      .select('id, variant_a_version, variant_b_version, traffic_percent_b')
+      .eq('stage', stage)
+      .eq('status', 'running')
+      .maybeSingle();
+
+    if (error) {
+      // Requests fall back to the active version, the next one tries again
+      console.error('Error loading prompt experiment:', error);
+      return null;
+    }
+
+    const row = data as ExperimentRow | null;
+    experimentCache.set(stage, { row, expiresAt: Date.now() + EXPERIMENT_CACHE_TTL_MS });
+    return row;
+  };
+
+  return {
+    async assign(stage, unitId) {
+      const experiment = await loadRunning(stage);
+      if (!experiment) return null;
+
+      const variant = pickVariant(experiment.id, unitId, experiment.traffic_percent_b);
+      return {
+        experimentId: experiment.id,
+        stage,
+        variant,
+        promptVersion: variant === 'B' ? experiment.variant_b_version : experiment.variant_a_version,
+      };
+    },
+  };
+}
@@ -0,0 +1,196 @@
+// ============================================================================
+// FEW-SHOT LIBRARY - Examples per stage, language and project
+// ============================================================================
+// Candidates are the active examples of the project plus the global ones
+// (project_id null). The built-in defaults stand in for global examples until
+// the table has some for the stage and language. Candidates are ranked by
+// word overlap with the story and taken in that order while they fit into
+// the token budget.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { isUuid } from "../auth.ts";
+import { DEFAULT_FEW_SHOT_EXAMPLES, type FewShotExample } from "./constants.ts";
+import type { Operation } from "./prompts-v1.ts";
+
+export type ExampleLanguage = 'de' | 'en';
+
+export const EXAMPLE_LANGUAGES: ExampleLanguage[] = ['de', 'en'];
+
+// Examples take at most this many estimated tokens of the system prompt
+const DEFAULT_TOKEN_BUDGET = 800;
+
+// Project examples win over equally relevant global ones
+const PROJECT_BONUS = 0.2;
+
+// New and changed examples reach running instances after at most this long
+const EXAMPLE_CACHE_TTL_MS = 60_000;
+
+const STOPWORDS: Record<ExampleLanguage, string[]> = {
+  de: ['als', 'ich', 'möchte', 'damit', 'der', 'die', 'das', 'und', 'ein', 'eine', 'einen', 'mit', 'für', 'auf', 'ist', 'nicht', 'können', 'kann', 'mein', 'meine', 'sodass', 'wird', 'werden', 'zu', 'von', 'den', 'dem'],
+  en: ['as', 'i', 'want', 'so', 'that', 'the', 'and', 'a', 'an', 'to', 'of', 'for', 'with', 'on', 'is', 'not', 'can', 'be', 'my', 'in', 'it', 'would', 'like'],
+};
+
+export interface FewShotSelection {
+  storyText: string;
+  projectId?: string;
+  language?: ExampleLanguage;
+}
+
+export interface FewShotLibrary {
+  /** Formatted examples for the stage, empty when there are none */
+  select(stage: Operation, selection: FewShotSelection): Promise<string>;
+}
+
+interface FewShotExampleRow {
+  project_id: string | null;
+  language: string;
+  input: string;
+  expected_output: string;
+  explanation: string | null;
+  tags: string[];
+}
+
+interface Candidate {
+  example: FewShotExample;
+  fromProject: boolean;
+}
+
+const exampleCache = new Map<string, { rows: FewShotExampleRow[]; expiresAt: number }>();
+
+export function isExampleLanguage(value: unknown): value is ExampleLanguage {
+  return typeof value === 'string' && (EXAMPLE_LANGUAGES as string[]).includes(value);
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\d]+/gu) || [];
+}
+
+/** Guesses the language from stopwords; German unless English clearly wins */
+export function detectLanguage(text: string): ExampleLanguage {
+  const words = tokenize(text);
+  const hits = (language: ExampleLanguage) => words.filter(w => STOPWORDS[language].includes(w)).length;
+  return hits('en') > hits('de') ? 'en' : 'de';
+}
+
+function keywords(text: string): Set<string> {
+  const stopwords = new Set([...STOPWORDS.de, ...STOPWORDS.en]);
+  return new Set(tokenize(text).filter(w => w.length > 2 && !stopwords.has(w)));
+}
+
+// Cosine similarity of the keyword sets; tags count like words of the input
+function relevance(story: Set<string>, example: FewShotExample): number {
+  const words = keywords(`${example.input} ${(example.tags || []).join(' ')}`);
+  if (story.size === 0 || words.size === 0) return 0;
+  const shared = [...words].filter(w => story.has(w)).length;
+  return shared / Math.sqrt(story.size * words.size);
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function formatFewShotExample(example: FewShotExample): string {
+  let entry = `Beispiel:\nInput: "${example.input}"\nOutput: ${example.output}`;
+  if (example.explanation) entry += `\nErklärung: ${example.explanation}`;
+  return entry;
+}
+
+/**
+ * Picks the most relevant candidates that fit into the budget together.
+ * An example that does not fit is skipped, smaller ones after it may still.
+ */
+function selectExamples(candidates: Candidate[], storyText: string, tokenBudget: number): FewShotExample[] {
+  const story = keywords(storyText);
+  const ranked = candidates
+    .map((candidate, index) => ({
+      ...candidate,
+      index,
+      score: relevance(story, candidate.example) + (candidate.fromProject ? PROJECT_BONUS : 0),
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const selected: FewShotExample[] = [];
+  let used = 0;
+  for (const { example } of ranked) {
+    const tokens = estimateTokens(formatFewShotExample(example)) + 1;
+    if (used + tokens > tokenBudget) continue;
+    selected.push(example);
+    used += tokens;
+  }
+  return selected;
+}
+
+/**
+ * FEW_SHOT_TOKEN_BUDGET  estimated tokens for the examples of one call, 0 turns them off
+ */
+export function getFewShotTokenBudget(env: { get(key: string): string | undefined } = Deno.env): number {
+  const configured = env.get('FEW_SHOT_TOKEN_BUDGET');
+  if (!configured) return DEFAULT_TOKEN_BUDGET;
+
+  const budget = Number(configured);
+  if (!Number.isFinite(budget) || budget < 0) {
+    console.error(`Invalid FEW_SHOT_TOKEN_BUDGET ${configured}, using ${DEFAULT_TOKEN_BUDGET}`);
+    return DEFAULT_TOKEN_BUDGET;
+  }
+  return budget;
+}
+
+function fromRow(row: FewShotExampleRow): FewShotExample {
+  return {
+    input: row.input,
+    output: row.expected_output,
+    explanation: row.explanation || undefined,
+    tags: row.tags,
+  };
+}
+
+/** Without a database client only the built-in defaults are used */
+export function createFewShotLibrary(
+  supabase: SupabaseClient | null,
+  tokenBudget: number = getFewShotTokenBudget()
+): FewShotLibrary {
+  const loadRows = async (stage: Operation, projectId: string | null): Promise<FewShotExampleRow[] | null> => {
+    if (!supabase) return null;
+
+    const key = `${stage}:${projectId ?? ''}`;
+    const cached = exampleCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.rows;
+    }
+
+    let query = supabase
+      .from('few_shot_examples')
+      .select('project_id, language, input, expected_output, explanation, tags')
+      .eq('stage', stage)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true });
+    query = projectId ? query.or(`project_id.is.null,project_id.eq.${projectId}`) : query.is('project_id', null);
+
+    const { data, error } = await query;
+    if (error) {
+      // Not cached, the next request tries again
+      console.error('Error loading few-shot examples:', error);
+      return null;
+    }
+
+    const rows = (data || []) as FewShotExampleRow[];
+    exampleCache.set(key, { rows, expiresAt: Date.now() + EXAMPLE_CACHE_TTL_MS });
+    return rows;
+  };
+
+  return {
+    async select(stage, selection) {
+      const language = selection.language ?? detectLanguage(selection.storyText);
+      const projectId = selection.projectId && isUuid(selection.projectId) ? selection.projectId : null;
+      const rows = (await loadRows(stage, projectId) || []).filter(r => r.language === language);
+
+      const candidates: Candidate[] = rows.map(row => ({ example: fromRow(row), fromProject: row.project_id !== null }));
+      // The built-in defaults are German
+      if (!rows.some(r => r.project_id === null) && language === 'de') {
+        candidates.push(...(DEFAULT_FEW_SHOT_EXAMPLES[stage] || []).map(example => ({ example, fromProject: false })));
+      }
+
+      return selectExamples(candidates, selection.storyText, tokenBudget).map(formatFewShotExample).join('\n\n');
+    },
+  };
+}
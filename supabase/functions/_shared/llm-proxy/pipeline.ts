@@ -0,0 +1,198 @@
+// ============================================================================
+// PIPELINE - Server-side execution of the 6 analysis stages
+// ============================================================================
+
+import type { Coercion } from "./schemas.ts";
+import type { ExperimentAssignment } from "./experiments.ts";
+
+export type PipelineStage =
+  | 'ambiguity_analysis'
+  | 'structure_check'
+  | 'quality_check'
+  | 'acceptance_criteria'
+  | 'business_value'
+  | 'solution_bias';
+
+export const PIPELINE_STAGES: PipelineStage[] = [
+  'ambiguity_analysis',
+  'structure_check',
+  'quality_check',
+  'acceptance_criteria',
+  'business_value',
+  'solution_bias',
+];
+
+// Stages only wait for the stages whose results they read. Everything whose
+// dependencies are done runs in parallel:
+//   1. ambiguity_analysis, structure_check
+//   2. quality_check, business_value, solution_bias
+//   3. acceptance_criteria
+export const STAGE_DEPENDENCIES: Record<PipelineStage, PipelineStage[]> = {
+  ambiguity_analysis: [],
+  structure_check: [],
+  quality_check: ['ambiguity_analysis', 'structure_check'],
+  business_value: ['structure_check'],
+  solution_bias: ['structure_check'],
+  acceptance_criteria: ['ambiguity_analysis', 'structure_check', 'quality_check'],
+};
+
+export interface StageRunOutput {
+  data: Record<string, unknown>;
+  model: string;
+  coercions?: Coercion[];
+  cached?: boolean;
+  promptVersion?: string;
+  experiment?: ExperimentAssignment | null;
+}
+
+export interface PipelineStageOutcome {
+  stage: PipelineStage;
+  status: 'completed' | 'skipped' | 'failed';
+  issues: string[];
+  duration: number;
+  error?: string;
+  modelId?: string;
+  promptVersion?: string;
+  experiment?: ExperimentAssignment;
+  coercions?: Coercion[];
+  cached?: boolean;
+  result?: Record<string, unknown>;
+}
+
+export interface PipelineEvents {
+  onStageStart?: (stage: PipelineStage) => void;
+  onStageComplete?: (outcome: PipelineStageOutcome) => void;
+}
+
+export type StageRunner = (
+  stage: PipelineStage,
+  previousResults: Record<string, unknown>
+) => Promise<StageRunOutput>;
+
+/**
+ * Gives every issue an id that is unique across stages. Models number their
+ * issues per call ("issue_1"), so ids are always prefixed with the stage;
+ * the client keys highlighting, relevance and rewrites on them.
+ */
+export function ensureIssueIds(stage: PipelineStage, data: Record<string, unknown>): string[] {
+  const issues = Array.isArray(data.issues) ? data.issues as Array<Record<string, unknown>> : [];
+  const prefix = `${stage}_`;
+  const seen = new Set<string>();
+  return issues.map((issue, i) => {
+    const given = typeof issue.id === 'string' && issue.id.trim() ? issue.id.trim() : String(i + 1);
+    const base = given.startsWith(prefix) ? given : `${prefix}${given}`;
+    let id = base;
+    for (let n = 2; seen.has(id); n++) id = `${base}_${n}`;
+    seen.add(id);
+    issue.id = id;
+    return id;
+  });
+}
+
+/**
+ * Fills the structured story with the fields structure_check extracted.
+ * Fields the model left empty keep the value the user provided.
+ */
+export function mergeStructuredStory<T extends Record<string, unknown>>(
+  base: T | undefined,
+  model: Partial<T>
+): T {
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(model)) {
+    if (value === null || value === undefined) continue;
+    if (typeof value === 'string' && !value.trim()) continue;
+    if (Array.isArray(value) && value.length === 0 && merged[key] !== undefined) continue;
+    merged[key] = value;
+  }
+  return merged as T;
+}
+
+// Compact view of a stage result that is handed to dependent stages
+function summarizeStageResult(data: Record<string, unknown>): Record<string, unknown> {
+  const issues = Array.isArray(data.issues) ? data.issues as Array<Record<string, unknown>> : [];
+  const summary: Record<string, unknown> = {
+    issues: issues.map(i => ({
+      id: i.id,
+      category: i.category,
+      severity: i.severity,
+      textReference: i.textReference,
+      reasoning: i.reasoning,
+    })),
+    summary: data.summary,
+  };
+  if (data.structuredModel) summary.structuredModel = data.structuredModel;
+  if (data.overallScore !== undefined) summary.overallScore = data.overallScore;
+  return summary;
+}
+
+/**
+ * Runs all pipeline stages, starting each one as soon as its dependencies
+ * have finished. A failed stage does not stop the pipeline; dependents simply
+ * run without its results.
+ */
+export async function runPipeline(runStage: StageRunner, events?: PipelineEvents): Promise<PipelineStageOutcome[]> {
+  const outcomes = new Map<PipelineStage, PipelineStageOutcome>();
+  const summaries: Record<string, unknown> = {};
+  const running = new Map<PipelineStage, Promise<void>>();
+
+  const execute = async (stage: PipelineStage): Promise<void> => {
+    const previousResults: Record<string, unknown> = {};
+    for (const dep of STAGE_DEPENDENCIES[stage]) {
+      if (summaries[dep]) previousResults[dep] = summaries[dep];
+    }
+
+    events?.onStageStart?.(stage);
+    const startTime = Date.now();
+    let outcome: PipelineStageOutcome;
+
+    try {
+      const { data, model, coercions, cached, promptVersion, experiment } = await runStage(stage, previousResults);
+      const issueIds = ensureIssueIds(stage, data);
+      summaries[stage] = summarizeStageResult(data);
+      outcome = {
+        stage,
+        status: 'completed',
+        issues: issueIds,
+        duration: Date.now() - startTime,
+        modelId: model,
+        promptVersion,
+        experiment: experiment || undefined,
+        coercions: coercions?.length ? coercions : undefined,
+        cached,
+        result: data,
+      };
+    } catch (error) {
+      console.error(`Pipeline stage ${stage} failed:`, error);
+      outcome = {
+        stage,
+        status: 'failed',
+        issues: [],
+        duration: Date.now() - startTime,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+
+    outcomes.set(stage, outcome);
+    events?.onStageComplete?.(outcome);
+  };
+
+  while (outcomes.size < PIPELINE_STAGES.length) {
+    const ready = PIPELINE_STAGES.filter(stage =>
+      !outcomes.has(stage) &&
+      !running.has(stage) &&
+      STAGE_DEPENDENCIES[stage].every(dep => outcomes.has(dep))
+    );
+
+    for (const stage of ready) {
+      running.set(stage, execute(stage).finally(() => running.delete(stage)));
+    }
+
+    if (running.size === 0) {
+      throw new Error('Pipeline stage dependencies cannot be resolved');
+    }
+
+    await Promise.race(running.values());
+  }
+
+  return PIPELINE_STAGES.map(stage => outcomes.get(stage)!);
+}
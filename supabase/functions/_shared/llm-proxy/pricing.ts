@@ -0,0 +1,54 @@
+// ============================================================================
+// PRICING - Token prices for cost estimation
+// ============================================================================
+
+import type { LLMUsage } from "./providers.ts";
+
+// USD per 1M tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+  'gpt-4.1': { input: 2.00, output: 8.00 },
+  'mock-deterministic': { input: 0, output: 0 },
+};
+
+/**
+ * Price table used for cost estimation.
+ *
+ * LLM_PRICE_TABLE  JSON object { "<model>": { "input": <usd/1M>, "output": <usd/1M> } },
+ *                  merged over the defaults
+ */
+export function getPriceTable(env: { get(key: string): string | undefined } = Deno.env): Record<string, ModelPrice> {
+  const configured = env.get('LLM_PRICE_TABLE');
+  if (!configured) return { ...DEFAULT_MODEL_PRICES };
+
+  try {
+    return { ...DEFAULT_MODEL_PRICES, ...JSON.parse(configured) };
+  } catch (error) {
+    console.error('Invalid LLM_PRICE_TABLE, using defaults:', error);
+    return { ...DEFAULT_MODEL_PRICES };
+  }
+}
+
+/**
+ * Estimated cost in USD, or null when the model has no price. Versioned model
+ * names (e.g. gpt-4o-mini-2024-07-18) use the longest matching prefix.
+ */
+export function estimateCost(model: string, usage: LLMUsage, prices: Record<string, ModelPrice>): number | null {
+  const key = prices[model]
+    ? model
+    : Object.keys(prices)
+      .filter(name => model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+
+  if (!key) return null;
+
+  const price = prices[key];
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
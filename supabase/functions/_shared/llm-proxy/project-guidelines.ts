@@ -0,0 +1,96 @@
+// ============================================================================
+// PROJECT GUIDELINES - Glossary and quality rules of a project
+// ============================================================================
+// Teams keep their domain terms and Definition-of-Ready rules per project.
+// They extend the built-in VOCABULARY and INVEST_RULES for stories of the
+// project; a project term replaces a built-in entry with the same name.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { isUuid } from "../auth.ts";
+import type { QualityRule, VocabularyEntry } from "./constants.ts";
+
+// Edits reach running instances after at most this long
+const GUIDELINE_CACHE_TTL_MS = 60_000;
+
+export interface ProjectGuidelines {
+  vocabulary: VocabularyEntry[];
+  rules: QualityRule[];
+}
+
+export interface GuidelineResolver {
+  /** Empty guidelines for requests without a stored project */
+  load(projectId?: string): Promise<ProjectGuidelines>;
+}
+
+interface VocabularyRow {
+  term: string;
+  definition: string;
+  synonyms: string[];
+  avoid_terms: string[];
+}
+
+interface QualityRuleRow {
+  id: string;
+  name: string;
+  check_criteria: string;
+}
+
+export const NO_GUIDELINES: ProjectGuidelines = { vocabulary: [], rules: [] };
+
+const guidelineCache = new Map<string, { guidelines: ProjectGuidelines; expiresAt: number }>();
+
+/** Project entries replace built-in ones with the same term, the rest are appended */
+export function mergeVocabulary(base: VocabularyEntry[], project: VocabularyEntry[]): VocabularyEntry[] {
+  const overridden = new Set(project.map(v => v.term.toLowerCase()));
+  return [...base.filter(v => !overridden.has(v.term.toLowerCase())), ...project];
+}
+
+export function createGuidelineResolver(supabase: SupabaseClient | null): GuidelineResolver {
+  return {
+    async load(projectId) {
+      if (!supabase || !projectId || !isUuid(projectId)) return NO_GUIDELINES;
+
+      const cached = guidelineCache.get(projectId);
+      if (cached && cached.expiresAt > Date.now()) {
+        return cached.guidelines;
+      }
+
+      const [vocabularyResult, rulesResult] = await Promise.all([
+        supabase
+          .from('project_vocabulary')
+          .select('term, definition, synonyms, avoid_terms')
+          .eq('project_id', projectId)
+          .order('term', { ascending: true }),
+        supabase
+          .from('project_quality_rules')
+          .select('id, name, check_criteria')
+          .eq('project_id', projectId)
+          .eq('is_active', true)
+          .order('created_at', { ascending: true }),
+      ]);
+
+      const error = vocabularyResult.error || rulesResult.error;
+      if (error) {
+        // Not cached, the next request tries again; the prompt keeps the built-in lists
+        console.error('Error loading project guidelines:', error);
+        return NO_GUIDELINES;
+      }
+
+      const guidelines: ProjectGuidelines = {
+        vocabulary: ((vocabularyResult.data || []) as VocabularyRow[]).map(row => ({
+          term: row.term,
+          def: row.definition,
+          synonyms: row.synonyms,
+          avoid: row.avoid_terms,
+        })),
+        rules: ((rulesResult.data || []) as QualityRuleRow[]).map(row => ({
+          id: row.id,
+          name: row.name,
+          criteria: row.check_criteria,
+        })),
+      };
+      guidelineCache.set(projectId, { guidelines, expiresAt: Date.now() + GUIDELINE_CACHE_TTL_MS });
+      return guidelines;
+    },
+  };
+}
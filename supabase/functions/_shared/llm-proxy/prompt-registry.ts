@@ -0,0 +1,153 @@
+// ============================================================================
+// PROMPT REGISTRY - Versioned prompts from the database, code as fallback
+// ============================================================================
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import type { TemplateVariableDefinition } from "../template-engine.ts";
+import { DEFAULT_PROMPT_VERSION, getSystemPrompt, hasPromptVersion, type Operation } from "./prompts-v1.ts";
+
+/** Requests the version that is currently active for the stage */
+export const ACTIVE_PROMPT_VERSION = 'active';
+
+/** Reported for unsaved prompts that admins test from the editor */
+export const DRAFT_PROMPT_VERSION = 'draft';
+
+// Activations reach running function instances after at most this long
+const ROW_CACHE_TTL_MS = 60_000;
+
+export interface ResolvedPrompt {
+  version: string;
+  source: 'database' | 'code' | 'draft';
+  systemPrompt: string;
+  /** Replaces the built-in user prompt when set */
+  userPromptTemplate?: string;
+  /** Formatted overrides for the template variables */
+  fewShotExamples?: string;
+  qualityRules?: string;
+  vocabulary?: string;
+  /** Variables the stored template declares, checked when it is rendered */
+  variables?: TemplateVariableDefinition[];
+}
+
+export interface PromptDraft {
+  systemPrompt: string;
+  userPromptTemplate?: string;
+}
+
+export interface PromptResolver {
+  resolve(operation: Operation, requestedVersion?: string): Promise<ResolvedPrompt>;
+}
+
+// Row shape of prompt_templates; the JSON columns mirror the client's PromptTemplate
+interface PromptTemplateRow {
+  version: string;
+  system_prompt: string;
+  user_prompt_template: string;
+  examples: Array<{ input: string; expectedOutput: string; explanation?: string }> | null;
+  quality_rules: Array<{ name: string; description?: string; checkCriteria?: string }> | null;
+  vocabulary: Array<{ term: string; definition: string; avoidTerms?: string[] }> | null;
+  variables: TemplateVariableDefinition[] | null;
+}
+
+const rowCache = new Map<string, { row: PromptTemplateRow | null; expiresAt: number }>();
+
+function formatExamples(examples: NonNullable<PromptTemplateRow['examples']>): string {
+  return examples.map(e => {
+    let entry = `Beispiel:\nInput: "${e.input}"\nOutput: ${e.expectedOutput}`;
+    if (e.explanation) entry += `\nErklärung: ${e.explanation}`;
+    return entry;
+  }).join('\n\n');
+}
+
+function formatRules(rules: NonNullable<PromptTemplateRow['quality_rules']>): string {
+  return rules.map(r => `- ${r.name}: ${r.checkCriteria || r.description || ''}`).join('\n');
+}
+
+function formatVocabularyEntries(entries: NonNullable<PromptTemplateRow['vocabulary']>): string {
+  return entries.map(v => {
+    let entry = `- ${v.term}: ${v.definition}`;
+    if (v.avoidTerms?.length) entry += ` (vermeide: ${v.avoidTerms.join(', ')})`;
+    return entry;
+  }).join('\n');
+}
+
+function fromRow(row: PromptTemplateRow): ResolvedPrompt {
+  return {
+    version: row.version,
+    source: 'database',
+    systemPrompt: row.system_prompt,
+    userPromptTemplate: row.user_prompt_template.trim() ? row.user_prompt_template : undefined,
+    fewShotExamples: row.examples?.length ? formatExamples(row.examples) : undefined,
+    qualityRules: row.quality_rules?.length ? formatRules(row.quality_rules) : undefined,
+    vocabulary: row.vocabulary?.length ? formatVocabularyEntries(row.vocabulary) : undefined,
+    variables: row.variables?.length ? row.variables : undefined,
+  };
+}
+
+function fromCode(operation: Operation, version: string): ResolvedPrompt {
+  return { version, source: 'code', systemPrompt: getSystemPrompt(operation, version) };
+}
+
+export function fromDraft(draft: PromptDraft): ResolvedPrompt {
+  return {
+    version: DRAFT_PROMPT_VERSION,
+    source: 'draft',
+    systemPrompt: draft.systemPrompt,
+    userPromptTemplate: draft.userPromptTemplate?.trim() ? draft.userPromptTemplate : undefined,
+  };
+}
+
+/**
+ * Resolves prompts in this order:
+ *   explicit version:  database row of that version -> code registry -> active version
+ *   active / omitted:  active database row -> code default (v1)
+ * Without a database client only the code registry is used.
+ */
+export function createPromptRegistry(supabase: SupabaseClient | null): PromptResolver {
+  const loadRow = async (stage: Operation, version: string | null): Promise<PromptTemplateRow | null> => {
+    if (!supabase) return null;
+
+    const key = `${stage}:${version ?? ACTIVE_PROMPT_VERSION}`;
+    const cached = rowCache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.row;
+    }
+
+    let query = supabase
+      .from('prompt_templates')
+      .select('version, system_prompt, user_prompt_template, examples, quality_rules, vocabulary, variables')
+      .eq('stage', stage);
+    query = version ? query.eq('version', version) : query.eq('is_active', true);
+
+    const { data, error } = await query.maybeSingle();
+    if (error) {
+      // Not cached, the next request tries again
+      console.error('Error loading prompt template:', error);
+      return null;
+    }
+
+    const row = data as PromptTemplateRow | null;
+    rowCache.set(key, { row, expiresAt: Date.now() + ROW_CACHE_TTL_MS });
+    return row;
+  };
+
+  const resolveActive = async (operation: Operation): Promise<ResolvedPrompt> => {
+    const row = await loadRow(operation, null);
+    return row ? fromRow(row) : fromCode(operation, DEFAULT_PROMPT_VERSION);
+  };
+
+  return {
+    async resolve(operation, requestedVersion) {
+      if (!requestedVersion || requestedVersion === ACTIVE_PROMPT_VERSION) {
+        return resolveActive(operation);
+      }
+
+      const row = await loadRow(operation, requestedVersion);
+      if (row) return fromRow(row);
+      if (hasPromptVersion(requestedVersion)) return fromCode(operation, requestedVersion);
+
+      console.warn(`Unknown prompt version ${requestedVersion} for ${operation}, using the active one`);
+      return resolveActive(operation);
+    },
+  };
+}
@@ -13,8 +13,12 @@ export type Operation =
   | 'analyze'
   | 'full_pipeline';
 
+// Versions compiled into the function. Newer versions are stored in the
+// prompt_templates table, see prompt-registry.ts.
 export type PromptVersion = 'v1';
 
+export const DEFAULT_PROMPT_VERSION: PromptVersion = 'v1';
+
 export const PROMPT_V1: Record<string, string> = {
   // Stage 1: Ambiguity Analysis
   ambiguity_analysis: `Du bist ein Experte für User Story Qualität. Analysiere auf MEHRDEUTIGKEITEN.
@@ -30,8 +34,11 @@ QUALITÄTSREGELN (INVEST):
 VOKABULAR:
 {{vocabulary}}
 
+{{#if fewShotExamples}}
+BEISPIELE:
 {{fewShotExamples}}
 
+{{/if}}
 WICHTIGE REGELN:
 1. Analysiere NUR den gegebenen Text – KEINE neuen fachlichen Infos erfinden
 2. Markiere Unsicherheiten mit "[UNSICHER]"
@@ -66,8 +73,17 @@ QUALITÄTSREGELN:
 {{qualityRules}}
 
 VORHERIGE ERGEBNISSE:
+{{#if previousResults}}
 {{previousResults}}
+{{else}}
+Keine vorherigen Ergebnisse.
+{{/if}}
+
+{{#if fewShotExamples}}
+BEISPIELE:
+{{fewShotExamples}}
 
+{{/if}}
 WICHTIGE REGELN:
 1. Prüfe auf "Als [Rolle] möchte ich [Ziel], damit [Nutzen]"
 2. KEINE neuen Details erfinden
@@ -107,8 +123,17 @@ QUALITÄTSREGELN (INVEST):
 {{qualityRules}}
 
 VORHERIGE ERGEBNISSE:
+{{#if previousResults}}
 {{previousResults}}
+{{else}}
+Keine vorherigen Ergebnisse.
+{{/if}}
+
+{{#if fewShotExamples}}
+BEISPIELE:
+{{fewShotExamples}}
 
+{{/if}}
 WICHTIGE REGELN:
 1. Bewerte gegen INVEST-Kriterien
 2. KEINE neuen Anforderungen erfinden
@@ -141,8 +166,17 @@ INVEST-Kriterium: Valuable
 - Ist der Nutzen messbar?
 
 VORHERIGE ERGEBNISSE:
+{{#if previousResults}}
 {{previousResults}}
+{{else}}
+Keine vorherigen Ergebnisse.
+{{/if}}
 
+{{#if fewShotExamples}}
+BEISPIELE:
+{{fewShotExamples}}
+
+{{/if}}
 WICHTIGE REGELN:
 1. Bewerte ob echter Business Value vorhanden ist
 2. KEINE neuen Geschäftsziele erfinden
@@ -177,8 +211,17 @@ INVEST-Kriterium: Negotiable
 - Bleibt Raum für Alternativen?
 
 VORHERIGE ERGEBNISSE:
+{{#if previousResults}}
 {{previousResults}}
+{{else}}
+Keine vorherigen Ergebnisse.
+{{/if}}
+
+{{#if fewShotExamples}}
+BEISPIELE:
+{{fewShotExamples}}
 
+{{/if}}
 WICHTIGE REGELN:
 1. Identifiziere technische Vorgaben im Ziel
 2. Unterscheide Was (ok) vs Wie (problematisch)
@@ -208,8 +251,17 @@ INVEST-Kriterium: Testable
 - Decke Hauptfall, Fehler- und Grenzfälle ab
 
 VORHERIGE ERGEBNISSE:
+{{#if previousResults}}
 {{previousResults}}
+{{else}}
+Keine vorherigen Ergebnisse.
+{{/if}}
 
+{{#if fewShotExamples}}
+BEISPIELE:
+{{fewShotExamples}}
+
+{{/if}}
 WICHTIGE REGELN:
 1. Leite Kriterien NUR aus der Story ab
 2. KEINE neuen Business-Regeln erfinden
@@ -246,8 +298,17 @@ QUALITÄTSREGELN (INVEST):
 {{qualityRules}}
 
 ZU ADRESSIERENDE ISSUES:
+{{#if relevantIssues}}
 {{relevantIssues}}
+{{else}}
+Keine spezifischen Issues angegeben.
+{{/if}}
+
+{{#if fewShotExamples}}
+BEISPIELE:
+{{fewShotExamples}}
 
+{{/if}}
 WICHTIGE REGELN:
 1. Basiere Rewrites NUR auf gegebenen Informationen
 2. Fehlende Infos → [PLATZHALTER: Beschreibung]
@@ -277,6 +338,11 @@ QUALITÄTSREGELN (INVEST):
 VOKABULAR:
 {{vocabulary}}
 
+{{#if fewShotExamples}}
+BEISPIELE:
+{{fewShotExamples}}
+
+{{/if}}
 WICHTIGE REGELN:
 1. Analysiere NUR den gegebenen Text
 2. Markiere Unsicherheiten mit "[UNSICHER]"
@@ -322,7 +388,11 @@ export const PROMPT_REGISTRIES: PromptRegistry = {
 // HELPER FUNCTION
 // ============================================================================
 
-export function getSystemPrompt(operation: Operation, version: PromptVersion = 'v1'): string {
+export function hasPromptVersion(version: string): version is PromptVersion {
+  return Object.prototype.hasOwnProperty.call(PROMPT_REGISTRIES, version);
+}
+
+export function getSystemPrompt(operation: Operation, version: string = DEFAULT_PROMPT_VERSION): string {
   const templates = PROMPT_REGISTRIES[version] || PROMPT_V1;
   return templates[operation] || templates.analyze;
 }
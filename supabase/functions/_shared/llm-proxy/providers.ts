@@ -0,0 +1,240 @@
+// ============================================================================
+// LLM PROVIDERS - OpenAI, Azure OpenAI, OpenAI-compatible, Mock
+// ============================================================================
+
+import { getMockResponse } from "./mock-responses.ts";
+
+export type ProviderKind = 'openai' | 'azure' | 'openai_compatible' | 'mock';
+
+export interface LLMProviderConfig {
+  kind: ProviderKind;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  authHeader: string;
+  authScheme: string;
+  apiVersion?: string;
+}
+
+export interface LLMCompletionRequest {
+  operation: string;
+  systemPrompt: string;
+  userPrompt: string;
+  model?: string;
+  temperature: number;
+  topK?: number;
+  maxTokens: number;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  kind: ProviderKind;
+  model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+// ============================================================================
+// CONFIG RESOLUTION
+// ============================================================================
+
+const PROVIDER_DEFAULTS: Record<ProviderKind, { baseUrl: string; model: string; authHeader: string; authScheme: string }> = {
+  openai: {
+    baseUrl: 'https://api.openai.com/v1',
+    model: 'gpt-4o-mini',
+    authHeader: 'Authorization',
+    authScheme: 'Bearer',
+  },
+  azure: {
+    baseUrl: '',
+    model: 'gpt-4o-mini',
+    authHeader: 'api-key',
+    authScheme: '',
+  },
+  openai_compatible: {
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llama3.1',
+    authHeader: 'Authorization',
+    authScheme: 'Bearer',
+  },
+  mock: {
+    baseUrl: 'mock://local',
+    model: 'mock-deterministic',
+    authHeader: '',
+    authScheme: '',
+  },
+};
+
+function parseProviderKind(value: string | undefined): ProviderKind {
+  switch ((value || 'openai').toLowerCase()) {
+    case 'openai': return 'openai';
+    case 'azure':
+    case 'azure_openai': return 'azure';
+    case 'local':
+    case 'compatible':
+    case 'openai_compatible': return 'openai_compatible';
+    case 'mock': return 'mock';
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${value}`);
+  }
+}
+
+/**
+ * Reads the provider configuration from the environment.
+ *
+ * LLM_PROVIDER      openai | azure | openai_compatible | mock (default: openai)
+ * LLM_BASE_URL      API base URL, e.g. http://localhost:11434/v1 or https://<resource>.openai.azure.com
+ * LLM_MODEL         Model name (Azure: deployment name)
+ * LLM_API_KEY       API key, required for openai and azure
+ * LLM_AUTH_HEADER   Header carrying the key (default: Authorization, Azure: api-key)
+ * LLM_AUTH_SCHEME   Prefix for the key value (default: Bearer, Azure: none)
+ * LLM_API_VERSION   Azure api-version query parameter
+ *
+ * Without Supabase credentials llm-proxy only runs with the mock provider and
+ * LLM_ALLOW_UNAUTHENTICATED_MOCK=true (see db.ts).
+ */
+export function resolveProviderConfig(env: { get(key: string): string | undefined } = Deno.env): LLMProviderConfig {
+  const kind = parseProviderKind(env.get('LLM_PROVIDER'));
+  const defaults = PROVIDER_DEFAULTS[kind];
+
+  const config: LLMProviderConfig = {
+    kind,
+    baseUrl: (env.get('LLM_BASE_URL') || defaults.baseUrl).replace(/\/+$/, ''),
+    model: env.get('LLM_MODEL') || defaults.model,
+    apiKey: env.get('LLM_API_KEY'),
+    authHeader: env.get('LLM_AUTH_HEADER') ?? defaults.authHeader,
+    authScheme: env.get('LLM_AUTH_SCHEME') ?? defaults.authScheme,
+    apiVersion: env.get('LLM_API_VERSION') || (kind === 'azure' ? '2024-06-01' : undefined),
+  };
+
+  if ((kind === 'openai' || kind === 'azure') && !config.apiKey) {
+    throw new Error('LLM_API_KEY is not configured');
+  }
+  if (kind === 'azure' && !config.baseUrl) {
+    throw new Error('LLM_BASE_URL is required for the azure provider');
+  }
+
+  return config;
+}
+
+/** The deterministic mock, independent of the environment (evaluation runs) */
+export function mockProviderConfig(): LLMProviderConfig {
+  return { kind: 'mock', ...PROVIDER_DEFAULTS.mock };
+}
+
+// ============================================================================
+// OPENAI-STYLE CHAT COMPLETIONS
+// ============================================================================
+
+function buildEndpoint(config: LLMProviderConfig, model: string): string {
+  if (config.kind === 'azure') {
+    return `${config.baseUrl}/openai/deployments/${encodeURIComponent(model)}/chat/completions?api-version=${config.apiVersion}`;
+  }
+  return `${config.baseUrl}/chat/completions`;
+}
+
+function buildHeaders(config: LLMProviderConfig): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey && config.authHeader) {
+    headers[config.authHeader] = config.authScheme ? `${config.authScheme} ${config.apiKey}` : config.apiKey;
+  }
+  return headers;
+}
+
+function createChatCompletionsProvider(config: LLMProviderConfig): LLMProvider {
+  return {
+    kind: config.kind,
+    model: config.model,
+    async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+      const model = request.model || config.model;
+
+      const response = await fetch(buildEndpoint(config, model), {
+        method: 'POST',
+        headers: buildHeaders(config),
+        body: JSON.stringify({
+          // Azure selects the model through the deployment in the URL
+          ...(config.kind === 'azure' ? {} : { model }),
+          messages: [
+            { role: 'system', content: request.systemPrompt },
+            { role: 'user', content: request.userPrompt }
+          ],
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          // top_k is not part of the OpenAI API, only local servers understand it
+          ...(config.kind === 'openai_compatible' && request.topK !== undefined ? { top_k: request.topK } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`LLM API error (${config.kind}):`, response.status, errorText);
+        throw new Error(`LLM API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+
+      if (!content) {
+        throw new Error('Empty response from LLM');
+      }
+
+      return {
+        content,
+        model: data.model || model,
+        usage: data.usage ? {
+          promptTokens: data.usage.prompt_tokens ?? 0,
+          completionTokens: data.usage.completion_tokens ?? 0,
+          totalTokens: data.usage.total_tokens ?? 0,
+        } : undefined,
+      };
+    },
+  };
+}
+
+// ============================================================================
+// MOCK PROVIDER
+// ============================================================================
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function createMockProvider(config: LLMProviderConfig): LLMProvider {
+  return {
+    kind: 'mock',
+    model: config.model,
+    complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+      const content = JSON.stringify(getMockResponse(request.operation, request.userPrompt));
+      const promptTokens = estimateTokens(request.systemPrompt + request.userPrompt);
+      const completionTokens = estimateTokens(content);
+
+      return Promise.resolve({
+        content,
+        // The mock always answers itself, whatever model was requested
+        model: config.model,
+        usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      });
+    },
+  };
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+export function createProvider(config: LLMProviderConfig = resolveProviderConfig()): LLMProvider {
+  if (config.kind === 'mock') {
+    return createMockProvider(config);
+  }
+  return createChatCompletionsProvider(config);
+}
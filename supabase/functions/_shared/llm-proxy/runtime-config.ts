@@ -0,0 +1,107 @@
+// ============================================================================
+// RUNTIME CONFIG - Model allow-list and sampling parameter ranges
+// ============================================================================
+
+import type { LLMProvider } from "./providers.ts";
+
+export interface RuntimeConfigInput {
+  modelId?: string;
+  temperature?: number;
+  topK?: number;
+  maxTokens?: number;
+}
+
+export interface ResolvedRuntimeConfig {
+  model: string;
+  temperature: number;
+  topK?: number;
+  maxTokens: number;
+}
+
+export interface ParameterRange {
+  min: number;
+  max: number;
+  default: number;
+}
+
+export const PARAMETER_RANGES: Record<'temperature' | 'topK' | 'maxTokens', ParameterRange> = {
+  temperature: { min: 0, max: 2, default: 0.7 },
+  topK: { min: 1, max: 100, default: 40 },
+  maxTokens: { min: 256, max: 8000, default: 2000 },
+};
+
+export const DEFAULT_ALLOWED_MODELS = [
+  'gpt-4o-mini',
+  'gpt-4o',
+  'gpt-4.1-mini',
+  'gpt-4.1',
+];
+
+/**
+ * Models the proxy accepts. LLM_ALLOWED_MODELS (comma separated) replaces the
+ * defaults; the provider's configured model is always allowed. The OpenAI
+ * model names are only a default for OpenAI itself: a local server or an
+ * Azure deployment only knows LLM_MODEL.
+ */
+export function getAllowedModels(provider: LLMProvider, env: { get(key: string): string | undefined } = Deno.env): string[] {
+  const configured = env.get('LLM_ALLOWED_MODELS');
+  const models = configured
+    ? configured.split(',').map(m => m.trim()).filter(Boolean)
+    : provider.kind === 'openai' ? [...DEFAULT_ALLOWED_MODELS] : [];
+
+  if (!models.includes(provider.model)) {
+    models.push(provider.model);
+  }
+  return models;
+}
+
+function checkRange(name: keyof typeof PARAMETER_RANGES, value: unknown, errors: string[]): void {
+  if (value === undefined || value === null) return;
+  const range = PARAMETER_RANGES[name];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`${name} must be a number`);
+  } else if (value < range.min || value > range.max) {
+    errors.push(`${name} must be between ${range.min} and ${range.max}`);
+  }
+}
+
+/**
+ * Validates the client runtime config and fills in defaults.
+ * Returns the list of validation errors instead of throwing so the handler
+ * can answer with a 400.
+ */
+export function resolveRuntimeConfig(
+  input: RuntimeConfigInput | undefined,
+  provider: LLMProvider,
+  allowedModels: string[] = getAllowedModels(provider)
+): { config?: ResolvedRuntimeConfig; errors: string[] } {
+  const errors: string[] = [];
+  const runtime = input || {};
+
+  checkRange('temperature', runtime.temperature, errors);
+  checkRange('topK', runtime.topK, errors);
+  checkRange('maxTokens', runtime.maxTokens, errors);
+
+  if (runtime.topK !== undefined && runtime.topK !== null && !Number.isInteger(runtime.topK)) {
+    errors.push('topK must be an integer');
+  }
+
+  const model = runtime.modelId || provider.model;
+  if (!allowedModels.includes(model)) {
+    errors.push(`modelId '${model}' is not allowed. Must be one of: ${allowedModels.join(', ')}`);
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    config: {
+      model,
+      temperature: runtime.temperature ?? PARAMETER_RANGES.temperature.default,
+      topK: runtime.topK ?? undefined,
+      maxTokens: runtime.maxTokens ?? PARAMETER_RANGES.maxTokens.default,
+    },
+    errors,
+  };
+}
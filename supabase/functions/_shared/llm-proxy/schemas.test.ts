@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { validateOperationResponse } from "./schemas.ts";
+
+describe('validateOperationResponse', () => {
+  it('coerces recognisable values and records every coercion', () => {
+    const result = validateOperationResponse('quality_check', {
+      issues: [{ category: 'clarity', severity: 'High', reasoning: 'Unklar', extra: 1 }],
+      overallScore: '120',
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.data.overallScore).toBe(100);
+    expect((result.data.issues as unknown[])[0]).toEqual({
+      category: 'ambiguity',
+      severity: 'critical',
+      reasoning: 'Unklar',
+      textReference: '',
+      confidence: 'medium',
+      contextCitations: [],
+      extra: 1,
+    });
+    expect(result.coercions).toEqual([
+      { path: 'issues[0].category', from: 'clarity', to: 'ambiguity' },
+      { path: 'issues[0].severity', from: 'High', to: 'critical' },
+      { path: 'overallScore', from: '120', to: 100 },
+    ]);
+  });
+
+  it('wraps single items and bare citation labels', () => {
+    const result = validateOperationResponse('acceptance_criteria', {
+      criteria: { given: 'a', when: 'b', then: 'c', priority: 'muss' },
+    });
+    const issues = validateOperationResponse('ambiguity_analysis', {
+      issues: [{ category: 'ambiguity', severity: 'minor', reasoning: 'r', contextCitations: 'Q1' }],
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.data.criteria).toEqual([
+      { given: 'a', when: 'b', then: 'c', title: '', type: 'happy_path', priority: 'must', confidence: 'medium' },
+    ]);
+    expect((issues.data.issues as Array<Record<string, unknown>>)[0].contextCitations).toEqual([
+      { source: 'Q1', quote: '', relevance: '' },
+    ]);
+  });
+
+  it('reads yes/no words as booleans', () => {
+    const result = validateOperationResponse('business_value', {
+      issues: [],
+      valueAssessment: { hasValue: 'ja', valueType: 'Business' },
+    });
+    expect(result.data.valueAssessment).toEqual({ hasValue: true, valueType: 'business' });
+  });
+
+  it('reports missing and invalid fields for a repair request', () => {
+    expect(validateOperationResponse('ambiguity_analysis', {}).errors).toEqual(['issues: Pflichtfeld fehlt']);
+    expect(validateOperationResponse('ambiguity_analysis', {
+      issues: [{ category: 'ambiguity', severity: 'egal', reasoning: ' ' }],
+    }).errors).toEqual([
+      "issues[0].severity: 'egal' ist ungültig, erlaubt: critical|major|minor|info",
+      'issues[0].reasoning: darf nicht leer sein',
+    ]);
+  });
+
+  it('rejects responses that are not an object', () => {
+    expect(validateOperationResponse('rewrite', [])).toEqual({
+      valid: false,
+      data: {},
+      errors: ['Antwort muss ein JSON-Objekt sein'],
+      coercions: [],
+    });
+  });
+});
@@ -0,0 +1,392 @@
+// ============================================================================
+// RESPONSE SCHEMAS - Field-level validation and coercion per operation
+// ============================================================================
+// Derived from the AUSGABEFORMAT blocks in prompts-v1.ts. Validators coerce
+// values that are recognisably meant as something valid (e.g. "High" ->
+// "critical", "85" -> 85) and record every coercion; anything else is
+// reported as an error so the proxy can ask the model for a repair.
+
+import type { Operation } from "./prompts-v1.ts";
+
+export interface Coercion {
+  path: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  data: Record<string, unknown>;
+  errors: string[];
+  coercions: Coercion[];
+}
+
+interface ValidationContext {
+  errors: string[];
+  coercions: Coercion[];
+}
+
+type Validator = (value: unknown, path: string, ctx: ValidationContext) => unknown;
+
+interface FieldOptions<T> {
+  required?: boolean;
+  default?: T;
+}
+
+// ============================================================================
+// PRIMITIVE VALIDATORS
+// ============================================================================
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+function missing<T>(path: string, ctx: ValidationContext, options: FieldOptions<T>): unknown {
+  if (options.required) {
+    ctx.errors.push(`${path}: Pflichtfeld fehlt`);
+    return undefined;
+  }
+  return options.default;
+}
+
+function str(options: FieldOptions<string> & { nullable?: boolean } = {}): Validator {
+  return (value, path, ctx) => {
+    if (isMissing(value)) {
+      if (options.nullable && value === null) return null;
+      return missing(path, ctx, options);
+    }
+    if (typeof value === 'string') {
+      if (options.required && !value.trim()) {
+        ctx.errors.push(`${path}: darf nicht leer sein`);
+      }
+      return value;
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      const coerced = String(value);
+      ctx.coercions.push({ path, from: value, to: coerced });
+      return coerced;
+    }
+    ctx.errors.push(`${path}: muss ein String sein`);
+    return undefined;
+  };
+}
+
+function num(options: FieldOptions<number> & { min?: number; max?: number } = {}): Validator {
+  return (value, path, ctx) => {
+    if (isMissing(value)) return missing(path, ctx, options);
+
+    let parsed = value;
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+      parsed = Number(value);
+    }
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+      ctx.errors.push(`${path}: muss eine Zahl sein`);
+      return undefined;
+    }
+
+    let clamped = parsed;
+    if (options.min !== undefined) clamped = Math.max(options.min, clamped);
+    if (options.max !== undefined) clamped = Math.min(options.max, clamped);
+
+    if (clamped !== value) {
+      ctx.coercions.push({ path, from: value, to: clamped });
+    }
+    return clamped;
+  };
+}
+
+function bool(options: FieldOptions<boolean> = {}): Validator {
+  return (value, path, ctx) => {
+    if (isMissing(value)) return missing(path, ctx, options);
+    if (typeof value === 'boolean') return value;
+
+    const normalized = String(value).trim().toLowerCase();
+    if (['true', 'yes', 'ja', '1'].includes(normalized)) {
+      ctx.coercions.push({ path, from: value, to: true });
+      return true;
+    }
+    if (['false', 'no', 'nein', '0'].includes(normalized)) {
+      ctx.coercions.push({ path, from: value, to: false });
+      return false;
+    }
+    ctx.errors.push(`${path}: muss true oder false sein`);
+    return undefined;
+  };
+}
+
+/**
+ * Enum validator. Values are matched case-insensitively, then through the
+ * synonym table. Unknown values fall back to `fallback` if one is given,
+ * otherwise they are errors.
+ */
+function enumOf<T extends string>(
+  values: readonly T[],
+  options: FieldOptions<T> & { synonyms?: Record<string, T>; fallback?: T } = {}
+): Validator {
+  return (value, path, ctx) => {
+    if (isMissing(value)) return missing(path, ctx, options);
+
+    if (typeof value === 'string' && (values as readonly string[]).includes(value)) {
+      return value;
+    }
+
+    const normalized = String(value).trim().toLowerCase().replace(/[\s-]+/g, '_');
+    const match = values.find(v => v.toLowerCase() === normalized) ?? options.synonyms?.[normalized] ?? options.fallback;
+
+    if (match === undefined) {
+      ctx.errors.push(`${path}: '${value}' ist ungültig, erlaubt: ${values.join('|')}`);
+      return undefined;
+    }
+
+    ctx.coercions.push({ path, from: value, to: match });
+    return match;
+  };
+}
+
+function arr(item: Validator, options: FieldOptions<unknown[]> & { minItems?: number } = {}): Validator {
+  return (value, path, ctx) => {
+    if (isMissing(value)) return missing(path, ctx, options);
+
+    if (!Array.isArray(value)) {
+      // A single item where a list was expected
+      if (typeof value === 'string' || typeof value === 'object') {
+        ctx.coercions.push({ path, from: value, to: [value] });
+        return [item(value, `${path}[0]`, ctx)];
+      }
+      ctx.errors.push(`${path}: muss ein Array sein`);
+      return undefined;
+    }
+
+    if (options.minItems !== undefined && value.length < options.minItems) {
+      ctx.errors.push(`${path}: mindestens ${options.minItems} Einträge erwartet`);
+    }
+    return value.map((entry, i) => item(entry, `${path}[${i}]`, ctx));
+  };
+}
+
+function obj(shape: Record<string, Validator>, options: FieldOptions<Record<string, unknown>> = {}): Validator {
+  return (value, path, ctx) => {
+    if (isMissing(value)) return missing(path, ctx, options);
+
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      ctx.errors.push(`${path}: muss ein Objekt sein`);
+      return undefined;
+    }
+
+    const input = value as Record<string, unknown>;
+    // Unknown fields are kept as-is
+    const output: Record<string, unknown> = { ...input };
+    for (const [key, validator] of Object.entries(shape)) {
+      const result = validator(input[key], path ? `${path}.${key}` : key, ctx);
+      if (result === undefined) {
+        delete output[key];
+      } else {
+        output[key] = result;
+      }
+    }
+    return output;
+  };
+}
+
+// ============================================================================
+// SHARED FIELD DEFINITIONS
+// ============================================================================
+
+const SEVERITIES = ['critical', 'major', 'minor', 'info'] as const;
+const CONFIDENCES = ['high', 'medium', 'low'] as const;
+
+const ISSUE_CATEGORIES = [
+  'ambiguity', 'missing_role', 'missing_goal', 'missing_benefit', 'vague_language',
+  'too_broad_scope', 'solution_bias', 'persona_unclear', 'business_value_gap',
+  'not_testable', 'inconsistency', 'missing_context', 'technical_debt', 'other',
+] as const;
+
+const severity = enumOf(SEVERITIES, {
+  required: true,
+  synonyms: { high: 'critical', kritisch: 'critical', medium: 'major', mittel: 'major', low: 'minor', niedrig: 'minor', information: 'info' },
+});
+
+const confidence = enumOf(CONFIDENCES, {
+  default: 'medium',
+  synonyms: { hoch: 'high', mittel: 'medium', niedrig: 'low' },
+  fallback: 'medium',
+});
+
+const issueCategory = enumOf(ISSUE_CATEGORIES, {
+  required: true,
+  synonyms: { clarity: 'ambiguity', scope: 'too_broad_scope', testability: 'not_testable', consistency: 'inconsistency', completeness: 'missing_context' },
+  fallback: 'other',
+});
+
+// A bare source label ("Q1") counts as a citation without quote
+const contextCitation: Validator = (value, path, ctx) => {
+  if (typeof value === 'string') {
+    const coerced = { source: value, quote: '', relevance: '' };
+    ctx.coercions.push({ path, from: value, to: coerced });
+    return coerced;
+  }
+  return obj({
+    source: str({ required: true }),
+    quote: str({ default: '' }),
+    relevance: str({ default: '' }),
+  }, { required: true })(value, path, ctx);
+};
+
+const stageIssue = obj({
+  id: str(),
+  category: issueCategory,
+  severity,
+  affectedSection: enumOf(['role', 'goal', 'benefit', 'constraint', 'acceptance_criteria', 'overall'] as const, {
+    synonyms: { rolle: 'role', ziel: 'goal', nutzen: 'benefit', constraints: 'constraint' },
+    fallback: 'overall',
+  }),
+  textReference: str({ default: '' }),
+  reasoning: str({ required: true }),
+  clarificationQuestion: str(),
+  suggestedAction: str(),
+  investCriterion: enumOf(['I', 'N', 'V', 'E', 'S', 'T'] as const, {
+    synonyms: { independent: 'I', negotiable: 'N', valuable: 'V', estimable: 'E', small: 'S', testable: 'T' },
+  }),
+  alternativeFormulation: str(),
+  suggestedBenefit: str(),
+  confidence,
+  contextCitations: arr(contextCitation, { default: [] }),
+}, { required: true });
+
+const stageIssues = arr(stageIssue, { required: true });
+
+// ============================================================================
+// OPERATION SCHEMAS
+// ============================================================================
+
+export const OPERATION_SCHEMAS: Partial<Record<Operation, Validator>> = {
+  ambiguity_analysis: obj({
+    issues: stageIssues,
+    summary: str(),
+  }),
+
+  structure_check: obj({
+    structuredModel: obj({
+      role: str({ nullable: true }),
+      goal: str({ nullable: true }),
+      benefit: str({ nullable: true }),
+      constraints: arr(str({ required: true }), { default: [] }),
+      parseConfidence: enumOf(CONFIDENCES, { default: 'medium', fallback: 'medium' }),
+    }),
+    issues: stageIssues,
+    summary: str(),
+  }),
+
+  quality_check: obj({
+    issues: stageIssues,
+    overallScore: num({ min: 0, max: 100 }),
+    summary: str(),
+  }),
+
+  business_value: obj({
+    issues: stageIssues,
+    valueAssessment: obj({
+      hasValue: bool({ required: true }),
+      valueType: enumOf(['user', 'business', 'technical'] as const, { fallback: 'user' }),
+      clarity: enumOf(CONFIDENCES, { fallback: 'medium' }),
+    }),
+    summary: str(),
+  }),
+
+  solution_bias: obj({
+    issues: stageIssues,
+    hasSolutionBias: bool(),
+    summary: str(),
+  }),
+
+  acceptance_criteria: obj({
+    criteria: arr(obj({
+      id: str(),
+      title: str({ default: '' }),
+      given: str({ required: true }),
+      when: str({ required: true }),
+      then: str({ required: true }),
+      type: enumOf(['happy_path', 'edge_case', 'error_case', 'negative_case', 'performance', 'security'] as const, {
+        default: 'happy_path',
+        synonyms: { happy: 'happy_path', main: 'happy_path', edge: 'edge_case', error: 'error_case', negative: 'negative_case' },
+        fallback: 'happy_path',
+      }),
+      priority: enumOf(['must', 'should', 'could'] as const, {
+        default: 'should',
+        synonyms: { high: 'must', medium: 'should', low: 'could', muss: 'must', soll: 'should', kann: 'could' },
+        fallback: 'should',
+      }),
+      notes: str(),
+      confidence,
+    }, { required: true }), { required: true }),
+    coverage: obj({
+      mainFlow: bool({ default: false }),
+      errorCases: bool({ default: false }),
+      edgeCases: bool({ default: false }),
+      negativeCases: bool({ default: false }),
+    }),
+    openQuestions: arr(str({ required: true }), { default: [] }),
+  }),
+
+  rewrite: obj({
+    candidates: arr(obj({
+      id: str(),
+      text: str({ required: true }),
+      explanation: str({ required: true }),
+      addressedIssueIds: arr(str({ required: true }), { default: [] }),
+      changes: arr(obj({
+        type: enumOf(['added', 'removed', 'modified', 'clarified'] as const, { fallback: 'modified' }),
+        description: str({ required: true }),
+      }, { required: true }), { default: [] }),
+      confidence,
+      openQuestions: arr(str({ required: true }), { default: [] }),
+    }, { required: true }), { required: true, minItems: 1 }),
+  }),
+
+  analyze: obj({
+    issues: arr(obj({
+      id: str(),
+      category: enumOf(['completeness', 'clarity', 'testability', 'scope', 'consistency'] as const, {
+        required: true,
+        synonyms: { ambiguity: 'clarity', vague_language: 'clarity', not_testable: 'testability', too_broad_scope: 'scope', inconsistency: 'consistency' },
+        fallback: 'clarity',
+      }),
+      severity: enumOf(['low', 'medium', 'high'] as const, {
+        required: true,
+        synonyms: { critical: 'high', major: 'medium', minor: 'low', info: 'low' },
+      }),
+      textReference: str({ default: '' }),
+      reasoning: str({ required: true }),
+      clarificationQuestion: str(),
+      confidence,
+    }, { required: true }), { required: true }),
+    score: num({ required: true, min: 0, max: 100 }),
+    summary: str(),
+  }),
+};
+
+/**
+ * Validates and coerces an LLM response for the given operation.
+ */
+export function validateOperationResponse(operation: Operation, data: unknown): SchemaValidationResult {
+  const schema = OPERATION_SCHEMAS[operation];
+  const ctx: ValidationContext = { errors: [], coercions: [] };
+
+  if (!schema) {
+    ctx.errors.push(`Kein Schema für Operation '${operation}'`);
+    return { valid: false, data: {}, errors: ctx.errors, coercions: [] };
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    ctx.errors.push('Antwort muss ein JSON-Objekt sein');
+    return { valid: false, data: {}, errors: ctx.errors, coercions: [] };
+  }
+
+  const result = schema(data, '', ctx) as Record<string, unknown>;
+  return {
+    valid: ctx.errors.length === 0,
+    data: result || {},
+    errors: ctx.errors,
+    coercions: ctx.coercions,
+  };
+}
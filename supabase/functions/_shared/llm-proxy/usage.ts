@@ -0,0 +1,96 @@
+// ============================================================================
+// USAGE - Per-call accounting in the llm_calls table
+// ============================================================================
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import type { LLMUsage } from "./providers.ts";
+import { estimateCost, getPriceTable } from "./pricing.ts";
+
+export interface LLMCallRecord {
+  id?: string;
+  operation: string;
+  promptVersion: string;
+  provider: string;
+  model: string;
+  usage: LLMUsage;
+  latencyMs: number;
+  retryCount: number;
+  cached: boolean;
+  success: boolean;
+  errorMessage?: string;
+  projectId?: string;
+  storyId?: string;
+  clientId?: string;
+  userId?: string;
+  experimentId?: string;
+  experimentVariant?: string;
+}
+
+export interface CallRecorder {
+  record(call: LLMCallRecord): Promise<void>;
+}
+
+// Collects usage over all attempts (first call plus retries) of one operation
+export interface CallTracker {
+  attempts: number;
+  usage: LLMUsage;
+}
+
+export function createCallTracker(): CallTracker {
+  return {
+    attempts: 0,
+    usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+  };
+}
+
+export function addUsage(tracker: CallTracker, usage?: LLMUsage): void {
+  if (!usage) return;
+  tracker.usage.promptTokens += usage.promptTokens;
+  tracker.usage.completionTokens += usage.completionTokens;
+  tracker.usage.totalTokens += usage.totalTokens;
+}
+
+/**
+ * Creates the recorder. Write failures are logged and never fail the request.
+ */
+export function createCallRecorder(
+  supabase: SupabaseClient | null,
+  env: { get(key: string): string | undefined } = Deno.env
+): CallRecorder | null {
+  if (!supabase) return null;
+
+  const prices = getPriceTable(env);
+
+  return {
+    async record(call) {
+      const { error } = await supabase
+        .from('llm_calls')
+        .insert({
+          id: call.id,
+          operation: call.operation,
+          prompt_version: call.promptVersion,
+          provider: call.provider,
+          model: call.model,
+          prompt_tokens: call.usage.promptTokens,
+          completion_tokens: call.usage.completionTokens,
+          total_tokens: call.usage.totalTokens,
+          estimated_cost: call.cached ? 0 : estimateCost(call.model, call.usage, prices),
+          latency_ms: call.latencyMs,
+          retry_count: call.retryCount,
+          cached: call.cached,
+          success: call.success,
+          error_message: call.errorMessage || null,
+          project_id: call.projectId || null,
+          story_id: call.storyId || null,
+          client_id: call.clientId || null,
+          user_id: call.userId || null,
+          experiment_id: call.experimentId || null,
+          experiment_variant: call.experimentVariant || null,
+        });
+
+      if (error) {
+        console.error('Error recording LLM call:', error);
+      }
+    },
+  };
+}
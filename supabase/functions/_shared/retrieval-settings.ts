@@ -0,0 +1,79 @@
+// ============================================================================
+// RETRIEVAL SETTINGS - Per-project chunking, embedding and search parameters
+// ============================================================================
+// Stored on `projects`. embed-document chunks and embeds with them,
+// retrieve-context embeds the query with the same model and searches with
+// them, so both sides of a project always use the same vector space.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+export interface RetrievalSettings {
+  chunkSize: number;
+  chunkOverlap: number;
+  embeddingModel: string;
+  topK: number;
+  threshold: number;
+  reranking: boolean;
+}
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  chunkSize: 1000,
+  chunkOverlap: 200,
+  embeddingModel: 'text-embedding-3-small',
+  topK: 5,
+  threshold: 0.6,
+  reranking: true,
+};
+
+// document_chunks.embedding is vector(1536)
+const EMBEDDING_DIMENSIONS = 1536;
+
+export async function loadRetrievalSettings(
+  supabase: SupabaseClient,
+  projectId: string
+): Promise<RetrievalSettings> {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('chunk_size, chunk_overlap, embedding_model, retrieval_top_k, retrieval_threshold, retrieval_reranking')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  if (error || !data) {
+    console.warn('[retrieval-settings] Falling back to defaults:', error?.message ?? 'project not found');
+    return DEFAULT_RETRIEVAL_SETTINGS;
+  }
+
+  return {
+    chunkSize: data.chunk_size ?? DEFAULT_RETRIEVAL_SETTINGS.chunkSize,
+    chunkOverlap: data.chunk_overlap ?? DEFAULT_RETRIEVAL_SETTINGS.chunkOverlap,
+    embeddingModel: data.embedding_model ?? DEFAULT_RETRIEVAL_SETTINGS.embeddingModel,
+    topK: data.retrieval_top_k ?? DEFAULT_RETRIEVAL_SETTINGS.topK,
+    threshold: data.retrieval_threshold ?? DEFAULT_RETRIEVAL_SETTINGS.threshold,
+    reranking: data.retrieval_reranking ?? DEFAULT_RETRIEVAL_SETTINGS.reranking,
+  };
+}
+
+// Generate embeddings using OpenAI
+export async function generateEmbedding(text: string, apiKey: string, model: string): Promise<number[]> {
+  const response = await fetch('https://api.openai.com/v1/embeddings', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model,
+      input: text,
+      // ada-002 has a fixed size; the text-embedding-3 models are shortened to fit the column
+      ...(model.startsWith('text-embedding-3') && { dimensions: EMBEDDING_DIMENSIONS }),
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`OpenAI API error: ${error}`);
+  }
+
+  const data = await response.json();
+  return data.data[0].embedding;
+}
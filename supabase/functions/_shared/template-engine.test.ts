@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractTemplateVariables,
+  renderTemplate,
+  TemplateError,
+  validateTemplate,
+  type TemplateVariableDefinition,
+} from "./template-engine.ts";
+
+describe("renderTemplate", () => {
+  it("replaces every occurrence of a variable and nested paths", () => {
+    expect(renderTemplate("{{name}} und {{name}}: {{story.role}}", { name: "A", story: { role: "Admin" } }))
+      .toBe("A und A: Admin");
+  });
+
+  it("renders the matching branch of a conditional", () => {
+    const template = "{{#if goal}}Ziel: {{goal}}{{else}}Kein Ziel{{/if}}";
+    expect(renderTemplate(template, { goal: "Export" })).toBe("Ziel: Export");
+    expect(renderTemplate(template, { goal: "  " })).toBe("Kein Ziel");
+    expect(renderTemplate(template, { goal: [] })).toBe("Kein Ziel");
+  });
+
+  it("loops over lists with this, @index and @number", () => {
+    const template = "{{#each items}}{{@number}}/{{@index}} {{this.name}};{{/each}}";
+    expect(renderTemplate(template, { items: [{ name: "a" }, { name: "b" }] })).toBe("1/0 a;2/1 b;");
+  });
+
+  it("leaves no empty lines behind block tags on a line of their own", () => {
+    const template = "Start\n{{#if flag}}\nDrin\n{{/if}}\nEnde";
+    expect(renderTemplate(template, { flag: true })).toBe("Start\nDrin\nEnde");
+    expect(renderTemplate(template, { flag: false })).toBe("Start\nEnde");
+  });
+
+  it("joins lists of plain values and prints objects as JSON", () => {
+    expect(renderTemplate("{{list}}", { list: ["a", "b"] })).toBe("a, b");
+    expect(renderTemplate("{{obj}}", { obj: { a: 1 } })).toBe('{\n  "a": 1\n}');
+  });
+
+  it("throws a TemplateError listing all problems", () => {
+    try {
+      renderTemplate("{{unknown}} {{this}}", {});
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(TemplateError);
+      expect((error as TemplateError).problems).toEqual([
+        "Unknown variable {{unknown}}",
+        "{{this}} used outside of {{#each}}",
+      ]);
+    }
+  });
+});
+
+describe("validateTemplate", () => {
+  const definitions: TemplateVariableDefinition[] = [
+    { name: "storyText", type: "string", required: true },
+    { name: "constraints", type: "array", required: false },
+  ];
+
+  it("accepts declared optional variables that are absent", () => {
+    expect(validateTemplate("{{storyText}} {{constraints}}", { storyText: "x" }, definitions)).toEqual([]);
+  });
+
+  it("reports missing required variables and wrong types", () => {
+    expect(validateTemplate("{{storyText}}", { constraints: "a" }, definitions)).toEqual([
+      "Missing required variable {{storyText}}",
+      "Variable {{constraints}} must be of type array",
+    ]);
+  });
+
+  it("reports unbalanced blocks and invalid tags", () => {
+    expect(validateTemplate("{{#if a}}x", { a: 1 })).toEqual(["{{#if a}} is not closed"]);
+    expect(validateTemplate("{{/each}}", {})).toEqual(["{{/each}} without {{#each}}"]);
+    expect(validateTemplate("{{else}}", {})).toEqual(["{{else}} without {{#if}}"]);
+    expect(validateTemplate("{{a b}}", { a: 1 })).toEqual(["Invalid tag {{a b}}"]);
+  });
+});
+
+describe("extractTemplateVariables", () => {
+  it("returns top-level names once, without loop variables", () => {
+    expect(extractTemplateVariables("{{a.b}} {{#each list}}{{this.x}}{{@index}}{{c}}{{/each}} {{a}}"))
+      .toEqual(["a", "list", "c"]);
+  });
+});
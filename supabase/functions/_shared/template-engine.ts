@@ -0,0 +1,306 @@
+// ============================================================================
+// TEMPLATE ENGINE - Placeholders, conditionals and loops for prompt templates
+// ============================================================================
+// Dependency-free so that the web app can import it as well (src/lib/templateEngine.ts).
+//
+//   {{name}}, {{story.role}}          value of a variable (every occurrence)
+//   {{#if name}}…{{else}}…{{/if}}     rendered when the value is present
+//   {{#each list}}…{{/each}}          once per entry; {{this}}, {{this.field}},
+//                                     {{@index}} (from 0) and {{@number}} (from 1)
+//
+// Block tags on a line of their own leave no empty line behind.
+
+export interface TemplateVariableDefinition {
+  name: string;
+  type: 'string' | 'object' | 'array' | 'boolean';
+  required: boolean;
+  description?: string;
+}
+
+export type TemplateData = Record<string, unknown>;
+
+export class TemplateError extends Error {
+  constructor(message: string, public problems: string[]) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string }
+  | { type: 'if'; path: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[] };
+
+type Tag =
+  | { kind: 'variable'; path: string }
+  | { kind: 'open'; block: 'if' | 'each'; path: string }
+  | { kind: 'else' }
+  | { kind: 'close'; block: 'if' | 'each' };
+
+const TAG_PATTERN = /(\{\{[^{}]*\}\})/;
+const PATH_PATTERN = /^(?:@index|@number|this(?:\.\w+)*|\w+(?:\.\w+)*)$/;
+
+function parseTag(raw: string): Tag {
+  const inner = raw.slice(2, -2).trim();
+  const [keyword, path, ...rest] = inner.split(/\s+/);
+
+  if (inner === 'else') return { kind: 'else' };
+  if (inner === '/if' || inner === '/each') return { kind: 'close', block: inner === '/if' ? 'if' : 'each' };
+  if ((keyword === '#if' || keyword === '#each') && path && rest.length === 0 && PATH_PATTERN.test(path)) {
+    return { kind: 'open', block: keyword === '#if' ? 'if' : 'each', path };
+  }
+  if (PATH_PATTERN.test(inner)) return { kind: 'variable', path: inner };
+
+  throw new TemplateError(`Invalid template tag ${raw}`, [`Invalid tag ${raw}`]);
+}
+
+// Text pieces alternate with tags; atLineStart marks text that begins a line
+interface TextPiece {
+  value: string;
+  atLineStart: boolean;
+}
+
+function stripStandaloneLines(pieces: TextPiece[], tags: Tag[]): void {
+  tags.forEach((tag, i) => {
+    if (tag.kind === 'variable') return;
+
+    const before = pieces[i];
+    const after = pieces[i + 1];
+    const lastBreak = before.value.lastIndexOf('\n');
+    const lineBefore = lastBreak >= 0 ? before.value.slice(lastBreak + 1) : before.atLineStart ? before.value : null;
+    const firstBreak = after.value.indexOf('\n');
+    const lineAfter = firstBreak >= 0 ? after.value.slice(0, firstBreak) : i === tags.length - 1 ? after.value : null;
+
+    if (lineBefore === null || lineAfter === null || lineBefore.trim() || lineAfter.trim()) return;
+
+    before.value = before.value.slice(0, before.value.length - lineBefore.length);
+    after.value = firstBreak >= 0 ? after.value.slice(firstBreak + 1) : '';
+    after.atLineStart = true;
+  });
+}
+
+export function parseTemplate(template: string): TemplateNode[] {
+  const parts = template.split(TAG_PATTERN);
+  const pieces: TextPiece[] = parts.filter((_, i) => i % 2 === 0).map((value, i) => ({ value, atLineStart: i === 0 }));
+  const tags = parts.filter((_, i) => i % 2 === 1).map(parseTag);
+  stripStandaloneLines(pieces, tags);
+
+  const root: TemplateNode[] = [];
+  // Open blocks with the list new nodes go to
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' | 'each' }>; target: TemplateNode[] }> = [];
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].target : root);
+
+  pieces.forEach((piece, i) => {
+    if (piece.value) current().push({ type: 'text', value: piece.value });
+
+    const tag = tags[i];
+    if (!tag) return;
+
+    switch (tag.kind) {
+      case 'variable':
+        current().push({ type: 'variable', path: tag.path });
+        break;
+      case 'open': {
+        const node: Extract<TemplateNode, { type: 'if' | 'each' }> = tag.block === 'if'
+          ? { type: 'if', path: tag.path, then: [], otherwise: [] }
+          : { type: 'each', path: tag.path, body: [] };
+        current().push(node);
+        stack.push({ node, target: node.type === 'if' ? node.then : node.body });
+        break;
+      }
+      case 'else': {
+        const open = stack[stack.length - 1];
+        if (!open || open.node.type !== 'if' || open.target === open.node.otherwise) {
+          throw new TemplateError('{{else}} without {{#if}}', ['{{else}} without {{#if}}']);
+        }
+        open.target = open.node.otherwise;
+        break;
+      }
+      case 'close': {
+        const open = stack.pop();
+        if (!open || open.node.type !== tag.block) {
+          const message = `{{/${tag.block}}} without {{#${tag.block}}}`;
+          throw new TemplateError(message, [message]);
+        }
+        break;
+      }
+    }
+  });
+
+  if (stack.length > 0) {
+    const message = `{{#${stack[stack.length - 1].node.type} ${stack[stack.length - 1].node.path}}} is not closed`;
+    throw new TemplateError(message, [message]);
+  }
+
+  return root;
+}
+
+function isLoopPath(path: string): boolean {
+  return path === 'this' || path.startsWith('this.') || path.startsWith('@');
+}
+
+function walk(nodes: TemplateNode[], visit: (path: string, loopDepth: number) => void, loopDepth = 0): void {
+  for (const node of nodes) {
+    if (node.type === 'variable') {
+      visit(node.path, loopDepth);
+    } else if (node.type === 'if') {
+      visit(node.path, loopDepth);
+      walk(node.then, visit, loopDepth);
+      walk(node.otherwise, visit, loopDepth);
+    } else if (node.type === 'each') {
+      visit(node.path, loopDepth);
+      walk(node.body, visit, loopDepth + 1);
+    }
+  }
+}
+
+/** Top-level variable names a template refers to, in order of appearance */
+export function extractTemplateVariables(template: string): string[] {
+  const names: string[] = [];
+  walk(parseTemplate(template), (path) => {
+    if (!isLoopPath(path)) names.push(path.split('.')[0]);
+  });
+  return [...new Set(names)];
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function matchesType(value: unknown, type: TemplateVariableDefinition['type']): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string' || typeof value === 'number';
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
+
+/**
+ * Checks a template against the data it will be rendered with. Without
+ * definitions every variable has to be a key of the data; with definitions
+ * declared variables may be absent unless they are required.
+ * Returns the problems found, an empty list means the template renders.
+ */
+export function validateTemplate(
+  template: string,
+  data: TemplateData,
+  definitions?: TemplateVariableDefinition[]
+): string[] {
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(template);
+  } catch (error) {
+    return error instanceof TemplateError ? error.problems : [String(error)];
+  }
+
+  const problems: string[] = [];
+  const declared = new Map((definitions || []).map(d => [d.name, d]));
+
+  walk(nodes, (path, loopDepth) => {
+    if (isLoopPath(path)) {
+      if (loopDepth === 0) problems.push(`{{${path}}} used outside of {{#each}}`);
+      return;
+    }
+    const name = path.split('.')[0];
+    if (!declared.has(name) && !(name in data)) {
+      problems.push(`Unknown variable {{${name}}}`);
+    }
+  });
+
+  for (const definition of declared.values()) {
+    const value = data[definition.name];
+    if (isMissing(value)) {
+      if (definition.required) problems.push(`Missing required variable {{${definition.name}}}`);
+    } else if (!matchesType(value, definition.type)) {
+      problems.push(`Variable {{${definition.name}}} must be of type ${definition.type}`);
+    }
+  }
+
+  return [...new Set(problems)];
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+interface LoopFrame {
+  item: unknown;
+  index: number;
+}
+
+function lookup(value: unknown, keys: string[]): unknown {
+  return keys.reduce<unknown>(
+    (current, key) => (current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+}
+
+function resolvePath(path: string, data: TemplateData, loops: LoopFrame[]): unknown {
+  const loop = loops[loops.length - 1];
+  if (path === '@index') return loop?.index;
+  if (path === '@number') return loop ? loop.index + 1 : undefined;
+  if (path === 'this') return loop?.item;
+  if (path.startsWith('this.')) return lookup(loop?.item, path.split('.').slice(1));
+  return lookup(data, path.split('.'));
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (value !== null && typeof value === 'object') return Object.keys(value).length > 0;
+  return !!value;
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && value.every(v => typeof v !== 'object' || v === null)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], data: TemplateData, loops: LoopFrame[]): string {
+  let output = '';
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'variable':
+        output += stringify(resolvePath(node.path, data, loops));
+        break;
+      case 'if':
+        output += renderNodes(isTruthy(resolvePath(node.path, data, loops)) ? node.then : node.otherwise, data, loops);
+        break;
+      case 'each': {
+        const list = resolvePath(node.path, data, loops);
+        if (Array.isArray(list)) {
+          list.forEach((item, index) => {
+            output += renderNodes(node.body, data, [...loops, { item, index }]);
+          });
+        }
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Renders a template after validating it, see validateTemplate.
+ * Throws TemplateError listing all problems instead of rendering a prompt
+ * with silently missing parts.
+ */
+export function renderTemplate(
+  template: string,
+  data: TemplateData,
+  definitions?: TemplateVariableDefinition[]
+): string {
+  const problems = validateTemplate(template, data, definitions);
+  if (problems.length > 0) {
+    throw new TemplateError(`Invalid prompt template: ${problems.join('; ')}`, problems);
+  }
+  return renderNodes(parseTemplate(template), data, []);
+}
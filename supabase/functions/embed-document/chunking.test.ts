@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { chunkBlocks, createHeadingTrail, parseTextBlocks, type DocumentBlock } from './chunking.ts';
+
+const MARKDOWN = [
+  '# Titel',
+  'Einleitung Zeile eins',
+  'Zeile zwei',
+  '',
+  '## Abschnitt',
+  '- Punkt eins',
+  '  weiter',
+  '- Punkt zwei',
+  '',
+  '| A | B |',
+  '|---|---|',
+  '| 1 | 2 |',
+  '',
+  '```ts',
+  'code',
+  '```',
+].join('\n');
+
+function paragraph(line: number, text: string, page?: number): DocumentBlock {
+  return { kind: 'paragraph', text, startLine: line, endLine: line, page, headings: [] };
+}
+
+describe('parseTextBlocks', () => {
+  it('splits Markdown into blocks with heading paths and line ranges', () => {
+    expect(parseTextBlocks(MARKDOWN).map(b => [b.kind, b.startLine, b.endLine, b.headings])).toEqual([
+      ['heading', 1, 1, ['Titel']],
+      ['paragraph', 2, 3, ['Titel']],
+      ['heading', 5, 5, ['Titel', 'Abschnitt']],
+      ['list_item', 6, 7, ['Titel', 'Abschnitt']],
+      ['list_item', 8, 8, ['Titel', 'Abschnitt']],
+      ['table', 10, 12, ['Titel', 'Abschnitt']],
+      ['code', 14, 16, ['Titel', 'Abschnitt']],
+    ]);
+  });
+
+  it('recognizes numbered headings in plain text only when asked to', () => {
+    const text = '1 Einleitung\nText hier.\n2.1 Details\nMehr.';
+    expect(parseTextBlocks(text).map(b => b.kind)).toEqual(['paragraph']);
+    expect(parseTextBlocks(text, { numberedHeadings: true }).map(b => [b.kind, b.headings])).toEqual([
+      ['heading', ['1 Einleitung']],
+      ['paragraph', ['1 Einleitung']],
+      ['heading', ['1 Einleitung', '2.1 Details']],
+      ['paragraph', ['1 Einleitung', '2.1 Details']],
+    ]);
+  });
+
+  it('keeps the heading path across pages parsed one by one', () => {
+    const trail = createHeadingTrail();
+    parseTextBlocks('# Kapitel\nSeite eins', { page: 1, trail });
+    const [block] = parseTextBlocks('Seite zwei', { page: 2, trail });
+    expect(block).toMatchObject({ page: 2, startLine: 1, headings: ['Kapitel'] });
+  });
+});
+
+describe('chunkBlocks', () => {
+  it('starts a new chunk at every section', () => {
+    const chunks = chunkBlocks(parseTextBlocks(MARKDOWN));
+    expect(chunks.map(c => [c.startLine, c.endLine, c.headings])).toEqual([
+      [1, 3, ['Titel']],
+      [5, 16, ['Titel', 'Abschnitt']],
+    ]);
+    expect(chunks[0].text).toBe('# Titel\n\nEinleitung Zeile eins\nZeile zwei');
+  });
+
+  it('repeats whole blocks as overlap', () => {
+    const blocks = [1, 2, 3, 4].map(line => paragraph(line, String(line).repeat(40)));
+    const chunks = chunkBlocks(blocks, { chunkSize: 100, chunkOverlap: 50 });
+    expect(chunks.map(c => [c.startLine, c.endLine])).toEqual([[1, 2], [2, 3], [3, 4]]);
+  });
+
+  it('never mixes pages in one chunk', () => {
+    const chunks = chunkBlocks([paragraph(1, 'Seite eins', 1), paragraph(1, 'Seite zwei', 2)]);
+    expect(chunks.map(c => c.page)).toEqual([1, 2]);
+  });
+
+  it('cuts long text between sentences', () => {
+    const chunks = chunkBlocks([paragraph(1, 'Satz eins ist da. Satz zwei ist da. Satz drei ist da.')], {
+      chunkSize: 40,
+      chunkOverlap: 0,
+    });
+    expect(chunks.map(c => c.text)).toEqual(['Satz eins ist da. Satz zwei ist da.', 'Satz drei ist da.']);
+  });
+
+  it('cuts tables between rows and repeats the header', () => {
+    const chunks = chunkBlocks(parseTextBlocks('| A |\n|---|\n| 1 |\n| 2 |'), { chunkSize: 20, chunkOverlap: 0 });
+    expect(chunks.map(c => [c.text, c.startLine, c.endLine])).toEqual([
+      ['| A |\n|---|\n| 1 |', 1, 3],
+      ['| A |\n|---|\n| 2 |', 4, 4],
+    ]);
+  });
+});
@@ -0,0 +1,283 @@
+// ============================================================================
+// CHUNKING - Structure-aware chunks with heading paths and line positions
+// ============================================================================
+// Documents are read as blocks: headings, paragraphs, list items, table rows
+// and code. A heading (or a new page) always starts a new chunk, the blocks
+// after it are packed up to the chunk size. Tables and code are only cut
+// between rows and lines, list items never; the overlap repeats whole blocks.
+
+export const CHUNK_SIZE = 1000;
+export const CHUNK_OVERLAP = 200;
+
+export type BlockKind = 'heading' | 'paragraph' | 'list_item' | 'table' | 'code' | 'row';
+
+export interface DocumentBlock {
+  kind: BlockKind;
+  text: string;
+  // 1-based and inclusive; counted per page for PDFs
+  startLine: number;
+  endLine: number;
+  page?: number;
+  // Headings the block sits under, from the top level down
+  headings: string[];
+}
+
+export interface DocumentChunk {
+  text: string;
+  startLine: number;
+  endLine: number;
+  page?: number;
+  headings: string[];
+}
+
+export interface ChunkOptions {
+  chunkSize?: number;
+  chunkOverlap?: number;
+}
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+// "2.1 Anforderungen" in plain text and PDFs; numbered sentences end with punctuation
+const NUMBERED_HEADING = /^(\d+(?:\.\d+)*)\.?\s+(\p{Lu}[^.:;!?]{0,78})$/u;
+const LIST_ITEM = /^(\s*)([-*+•]|\d+[.)])\s+/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|[\s:|-]+\|\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Heading path that outlives a single call, so PDF pages parsed one by one
+ * keep the headings of the pages before them.
+ */
+export function createHeadingTrail() {
+  const trail: Array<{ level: number; title: string }> = [];
+  return {
+    enter(level: number, title: string): string[] {
+      while (trail.length > 0 && trail[trail.length - 1].level >= level) trail.pop();
+      trail.push({ level, title });
+      return trail.map(h => h.title);
+    },
+    current(): string[] {
+      return trail.map(h => h.title);
+    },
+  };
+}
+
+export type HeadingTrail = ReturnType<typeof createHeadingTrail>;
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function startsBlock(line: string): boolean {
+  return MARKDOWN_HEADING.test(line) || TABLE_ROW.test(line) || FENCE.test(line) || LIST_ITEM.test(line);
+}
+
+/**
+ * Splits Markdown or plain text into blocks. Numbered headings are only
+ * looked for in text without Markdown markup (plain text, PDF pages).
+ */
+export function parseTextBlocks(
+  text: string,
+  options: { page?: number; numberedHeadings?: boolean; trail?: HeadingTrail } = {}
+): DocumentBlock[] {
+  const { page, numberedHeadings = false, trail = createHeadingTrail() } = options;
+  const lines = text.split(/\r?\n/);
+  const blocks: DocumentBlock[] = [];
+
+  const push = (kind: BlockKind, from: number, to: number, headings = trail.current()) => {
+    const raw = lines.slice(from, to + 1).join('\n');
+    const blockText = kind === 'code' ? raw.trimEnd() : raw.trim();
+    if (blockText) blocks.push({ kind, text: blockText, startLine: from + 1, endLine: to + 1, page, headings });
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const fence = line.trim().slice(0, 3);
+      let end = i + 1;
+      while (end < lines.length && !lines[end].trim().startsWith(fence)) end++;
+      push('code', i, Math.min(end, lines.length - 1));
+      i = end + 1;
+      continue;
+    }
+
+    const heading = MARKDOWN_HEADING.exec(line)
+      ?? (numberedHeadings ? NUMBERED_HEADING.exec(line.trim()) : null);
+    if (heading) {
+      const level = heading[1].startsWith('#') ? heading[1].length : heading[1].split('.').length;
+      const title = heading[1].startsWith('#') ? heading[2] : line.trim();
+      push('heading', i, i, trail.enter(level, title));
+      i++;
+      continue;
+    }
+
+    if (TABLE_ROW.test(line)) {
+      let end = i;
+      while (end + 1 < lines.length && TABLE_ROW.test(lines[end + 1])) end++;
+      push('table', i, end);
+      i = end + 1;
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      // Continuation lines and nested items belong to the item
+      const indent = item[1].length;
+      let end = i;
+      let next = i + 1;
+      while (next < lines.length) {
+        if (!lines[next].trim()) {
+          let following = next;
+          while (following < lines.length && !lines[following].trim()) following++;
+          if (following < lines.length && indentOf(lines[following]) > indent) {
+            next = following;
+            continue;
+          }
+          break;
+        }
+        const nested = LIST_ITEM.exec(lines[next]);
+        if (nested && nested[1].length <= indent) break;
+        if (!nested && indentOf(lines[next]) <= indent && startsBlock(lines[next])) break;
+        end = next;
+        next++;
+      }
+      push('list_item', i, end);
+      i = end + 1;
+      continue;
+    }
+
+    let end = i;
+    while (end + 1 < lines.length && lines[end + 1].trim() && !startsBlock(lines[end + 1])) {
+      if (numberedHeadings && NUMBERED_HEADING.test(lines[end + 1].trim())) break;
+      end++;
+    }
+    push('paragraph', i, end);
+    i = end + 1;
+  }
+
+  return blocks;
+}
+
+function lineAt(block: DocumentBlock, offset: number): number {
+  return block.startLine + (block.text.slice(0, offset).match(/\n/g)?.length ?? 0);
+}
+
+// Packs units (sentences, words) into pieces of at most `size` characters
+function packText(block: DocumentBlock, boundary: RegExp, size: number): DocumentBlock[] {
+  const cuts = [0, ...[...block.text.matchAll(boundary)].map(m => (m.index ?? 0) + m[0].length), block.text.length];
+  const pieces: DocumentBlock[] = [];
+  let from = 0;
+
+  for (let k = 1; k < cuts.length; k++) {
+    const isLast = k === cuts.length - 1;
+    if (!isLast && cuts[k + 1] - from <= size) continue;
+
+    const raw = block.text.slice(from, cuts[k]);
+    const text = raw.trim();
+    if (text) {
+      pieces.push({ ...block, text, startLine: lineAt(block, from), endLine: lineAt(block, from + raw.trimEnd().length - 1) });
+    }
+    from = cuts[k];
+  }
+  return pieces;
+}
+
+// Tables repeat their header row in every piece
+function splitLines(block: DocumentBlock, size: number): DocumentBlock[] {
+  const lines = block.text.split('\n');
+  const headerSize = block.kind === 'table' && lines.length > 2 && TABLE_SEPARATOR.test(lines[1]) ? 2 : 0;
+  const header = lines.slice(0, headerSize);
+  const pieces: DocumentBlock[] = [];
+  let current: string[] = [];
+  let firstLine = headerSize;
+
+  const flush = (last: number) => {
+    if (current.length === 0) return;
+    pieces.push({
+      ...block,
+      text: [...header, ...current].join('\n'),
+      startLine: block.startLine + (pieces.length === 0 ? 0 : firstLine),
+      endLine: block.startLine + last,
+    });
+    current = [];
+  };
+
+  for (let k = headerSize; k < lines.length; k++) {
+    const length = [...header, ...current, lines[k]].join('\n').length;
+    if (current.length > 0 && length > size) {
+      flush(k - 1);
+      firstLine = k;
+    }
+    current.push(lines[k]);
+  }
+  flush(lines.length - 1);
+  return pieces;
+}
+
+/**
+ * Cuts a block that does not fit into one chunk: tables and code between
+ * lines, text between sentences and, for sentences longer than a chunk,
+ * between words.
+ */
+function splitBlock(block: DocumentBlock, size: number): DocumentBlock[] {
+  if (block.kind === 'table' || block.kind === 'code') return splitLines(block, size);
+
+  return packText(block, /(?<=[.!?])\s+/g, size)
+    .flatMap(piece => (piece.text.length > size ? packText(piece, /\s+/g, size) : [piece]));
+}
+
+function toChunk(blocks: DocumentBlock[]): DocumentChunk {
+  const last = blocks[blocks.length - 1];
+  return {
+    text: blocks.map(b => b.text).join('\n\n'),
+    startLine: blocks[0].startLine,
+    endLine: last.endLine,
+    page: blocks[0].page,
+    // The innermost heading names the content, not a parent heading above it
+    headings: last.headings,
+  };
+}
+
+function totalLength(blocks: DocumentBlock[]): number {
+  return blocks.reduce((sum, b) => sum + b.text.length + 2, 0);
+}
+
+export function chunkBlocks(blocks: DocumentBlock[], options: ChunkOptions = {}): DocumentChunk[] {
+  const size = options.chunkSize ?? CHUNK_SIZE;
+  const overlap = options.chunkOverlap ?? CHUNK_OVERLAP;
+  const chunks: DocumentChunk[] = [];
+  let current: DocumentBlock[] = [];
+
+  const emit = () => {
+    if (current.length > 0) chunks.push(toChunk(current));
+    current = [];
+  };
+
+  for (const block of blocks.flatMap(b => (b.text.length > size ? splitBlock(b, size) : [b]))) {
+    const pageChanged = current.length > 0 && block.page !== current[0].page;
+    // Headings directly above a subheading stay with it instead of forming a chunk of their own
+    const sectionStarts = block.kind === 'heading' && current.some(b => b.kind !== 'heading');
+
+    if (pageChanged || sectionStarts) {
+      emit();
+    } else if (current.length > 0 && totalLength(current) + block.text.length > size) {
+      const previous = current;
+      emit();
+      const tail: DocumentBlock[] = [];
+      for (let k = previous.length - 1; k >= 0 && previous[k].kind !== 'heading'; k--) {
+        if (totalLength([previous[k], ...tail]) > overlap) break;
+        tail.unshift(previous[k]);
+      }
+      if (totalLength(tail) + block.text.length <= size) current = tail;
+    }
+    current.push(block);
+  }
+  emit();
+
+  return chunks;
+}
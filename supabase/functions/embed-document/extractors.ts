@@ -0,0 +1,184 @@
+// ============================================================================
+// EXTRACTORS - Blocks per file type, with page numbers and headings
+// ============================================================================
+// Every extractor returns the document as blocks for the chunker. HTML and
+// Word documents are rendered as Markdown first, so headings, lists and
+// tables are read the same way in every format. Line numbers refer to the
+// extracted text: the file for Markdown and text, the page for PDFs, the
+// rendered Markdown for HTML and Word, the row for CSV.
+
+import { extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import mammoth from "https://esm.sh/mammoth@1.6.0";
+import { DOMParser, type Element } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+import { parse as parseCsv } from "https://deno.land/std@0.168.0/encoding/csv.ts";
+import { createHeadingTrail, parseTextBlocks, type DocumentBlock } from "./chunking.ts";
+
+export type DocumentFormat = 'pdf' | 'docx' | 'html' | 'csv' | 'markdown' | 'text';
+
+const FORMAT_BY_MIME_TYPE: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'text/csv': 'csv',
+  // Windows browsers report .csv files as Excel
+  'application/vnd.ms-excel': 'csv',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/plain': 'text',
+};
+
+const FORMAT_BY_EXTENSION: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  csv: 'csv',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+};
+
+const LIST_TAGS = new Set(['UL', 'OL']);
+
+const SKIPPED_TAGS = new Set(['HEAD', 'SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG']);
+
+// Elements that start a line of their own; everything else is inline text
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'BODY', 'CAPTION', 'DD', 'DETAILS', 'DIV', 'DL', 'DT',
+  'FIELDSET', 'FIGCAPTION', 'FIGURE', 'FOOTER', 'FORM', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER',
+  'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P', 'PRE', 'SECTION', 'SUMMARY', 'TABLE', 'TBODY', 'TD', 'TFOOT',
+  'TH', 'THEAD', 'TR', 'UL',
+]);
+
+/**
+ * The stored mime type decides. Browsers send no type or text/plain for
+ * some extensions (.md), so the file name decides in those cases.
+ */
+export function detectFormat(mimeType: string | null, fileName: string): DocumentFormat | null {
+  const byMimeType = mimeType ? FORMAT_BY_MIME_TYPE[mimeType.split(';')[0].trim().toLowerCase()] : undefined;
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  const byExtension = FORMAT_BY_EXTENSION[extension];
+
+  if (byMimeType && byMimeType !== 'text') return byMimeType;
+  return byExtension ?? byMimeType ?? null;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function hasBlockChildren(element: Element): boolean {
+  return Array.from(element.children).some(child => BLOCK_TAGS.has(child.tagName));
+}
+
+function renderList(list: Element, depth: number, lines: string[]): void {
+  let number = 1;
+  for (const item of Array.from(list.children)) {
+    if (item.tagName !== 'LI') continue;
+
+    // Nested lists are rendered below the item's own text, one level deeper
+    let text = '';
+    const nested: Element[] = [];
+    for (const node of Array.from(item.childNodes)) {
+      if (node.nodeType === 1 && LIST_TAGS.has((node as Element).tagName)) nested.push(node as Element);
+      else text += ` ${node.textContent}`;
+    }
+
+    const marker = list.tagName === 'OL' ? `${number++}.` : '-';
+    lines.push(`${'  '.repeat(depth)}${marker} ${normalizeWhitespace(text)}`);
+    for (const child of nested) renderList(child, depth + 1, lines);
+  }
+}
+
+function renderHtml(element: Element, lines: string[]): void {
+  for (const child of Array.from(element.children)) {
+    const tag = child.tagName;
+    if (SKIPPED_TAGS.has(tag)) continue;
+
+    const heading = /^H([1-6])$/.exec(tag);
+    if (heading) {
+      const title = normalizeWhitespace(child.textContent);
+      if (title) lines.push('', `${'#'.repeat(Number(heading[1]))} ${title}`, '');
+    } else if (LIST_TAGS.has(tag)) {
+      lines.push('');
+      renderList(child, 0, lines);
+      lines.push('');
+    } else if (tag === 'TABLE') {
+      const rows = Array.from(child.querySelectorAll('tr')).map(row =>
+        `| ${Array.from(row.children).map(cell => normalizeWhitespace(cell.textContent).replace(/\|/g, '/')).join(' | ')} |`
+      );
+      if (rows.length > 0) {
+        const columns = (rows[0].match(/ \| /g)?.length ?? 0) + 1;
+        lines.push('', rows[0], `|${' --- |'.repeat(columns)}`, ...rows.slice(1), '');
+      }
+    } else if (tag === 'PRE') {
+      lines.push('', '```', ...child.textContent.replace(/\n+$/, '').split('\n'), '```', '');
+    } else if (hasBlockChildren(child)) {
+      renderHtml(child, lines);
+    } else {
+      const text = normalizeWhitespace(child.textContent);
+      if (text) lines.push('', text, '');
+    }
+  }
+}
+
+export function htmlToMarkdown(html: string): string {
+  const body = new DOMParser().parseFromString(html, 'text/html')?.body;
+  if (!body) return '';
+
+  const lines: string[] = [];
+  renderHtml(body, lines);
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Headings are carried across pages, lines are counted per page
+async function extractPdf(data: Blob): Promise<DocumentBlock[]> {
+  const pdf = await getDocumentProxy(new Uint8Array(await data.arrayBuffer()));
+  const { text: pages } = await extractText(pdf, { mergePages: false });
+
+  const trail = createHeadingTrail();
+  return pages.flatMap((pageText, index) =>
+    parseTextBlocks(pageText, { page: index + 1, numberedHeadings: true, trail })
+  );
+}
+
+// Word headings become <h1>..<h6> in mammoth's HTML
+async function extractDocx(data: Blob): Promise<DocumentBlock[]> {
+  const { value: html } = await mammoth.convertToHtml({ arrayBuffer: await data.arrayBuffer() });
+  return parseTextBlocks(htmlToMarkdown(html));
+}
+
+// Each row becomes a block of "column: value" pairs, so a chunk can be read
+// without the header row
+function extractCsv(text: string): DocumentBlock[] {
+  const [header, ...rows] = parseCsv(text) as string[][];
+  if (!header) return [];
+
+  return rows.flatMap((row, index) => {
+    const rowText = row
+      .map((value, i) => (value.trim() ? `${header[i]?.trim() || `Spalte ${i + 1}`}: ${value.trim()}` : ''))
+      .filter(Boolean)
+      .join('; ');
+    // Row 1 is the header
+    const line = index + 2;
+    return rowText ? [{ kind: 'row' as const, text: rowText, startLine: line, endLine: line, headings: [] }] : [];
+  });
+}
+
+export async function extractDocument(data: Blob, format: DocumentFormat): Promise<DocumentBlock[]> {
+  switch (format) {
+    case 'pdf':
+      return extractPdf(data);
+    case 'docx':
+      return extractDocx(data);
+    case 'html':
+      return parseTextBlocks(htmlToMarkdown(await data.text()));
+    case 'csv':
+      return extractCsv(await data.text());
+    case 'markdown':
+      return parseTextBlocks(await data.text());
+    case 'text':
+      return parseTextBlocks(await data.text(), { numberedHeadings: true });
+  }
+}
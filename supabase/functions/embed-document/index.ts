@@ -1,15 +1,16 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { AuthError, assertProjectAccess, authenticateRequest, authErrorResponse } from "../_shared/auth.ts";
+import { generateEmbedding, loadRetrievalSettings } from "../_shared/retrieval-settings.ts";
+import { chunkBlocks } from "./chunking.ts";
+import { detectFormat, extractDocument } from "./extractors.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const CHUNK_SIZE = 1000;
-const CHUNK_OVERLAP = 200;
-
 // Sanitize text to remove invalid Unicode escape sequences that PostgreSQL doesn't support
 function sanitizeText(text: string): string {
   // Remove null characters and other problematic Unicode escape sequences
@@ -19,78 +20,6 @@ function sanitizeText(text: string): string {
     .replace(/\\u0000/g, ''); // Remove escaped null character sequences
 }
 
-// Semantic chunking: split by paragraphs/sentences while respecting size limits
-function semanticChunk(text: string): string[] {
-  const chunks: string[] = [];
-  
-  // First split by double newlines (paragraphs)
-  const paragraphs = text.split(/\n\n+/);
-  let currentChunk = '';
-  
-  for (const paragraph of paragraphs) {
-    const trimmedPara = paragraph.trim();
-    if (!trimmedPara) continue;
-    
-    // If adding this paragraph exceeds chunk size
-    if (currentChunk.length + trimmedPara.length > CHUNK_SIZE) {
-      if (currentChunk) {
-        chunks.push(currentChunk.trim());
-        // Keep overlap from end of current chunk
-        const words = currentChunk.split(' ');
-        const overlapWords = words.slice(-Math.floor(CHUNK_OVERLAP / 5));
-        currentChunk = overlapWords.join(' ') + '\n\n';
-      }
-      
-      // If single paragraph is too long, split by sentences
-      if (trimmedPara.length > CHUNK_SIZE) {
-        const sentences = trimmedPara.split(/(?<=[.!?])\s+/);
-        for (const sentence of sentences) {
-          if (currentChunk.length + sentence.length > CHUNK_SIZE) {
-            if (currentChunk) {
-              chunks.push(currentChunk.trim());
-              currentChunk = '';
-            }
-          }
-          currentChunk += sentence + ' ';
-        }
-      } else {
-        currentChunk += trimmedPara + '\n\n';
-      }
-    } else {
-      currentChunk += trimmedPara + '\n\n';
-    }
-  }
-  
-  if (currentChunk.trim()) {
-    chunks.push(currentChunk.trim());
-  }
-  
-  return chunks.filter(c => c.length > 50); // Filter out tiny chunks
-}
-
-// Generate embeddings using OpenAI
-async function generateEmbedding(text: string, apiKey: string): Promise<number[]> {
-  const response = await fetch('https://api.openai.com/v1/embeddings', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'text-embedding-3-small',
-      input: text,
-    }),
-  });
-  
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenAI API error: ${error}`);
-  }
-  
-  const data = await response.json();
-  return data.data[0].embedding;
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -115,18 +44,26 @@ serve(async (req) => {
     }
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const caller = await authenticateRequest(req, supabase);
 
     // Get document info
     const { data: document, error: docError } = await supabase
       .from('documents')
       .select('*')
       .eq('id', document_id)
-      .single();
+      .maybeSingle();
 
-    if (docError || !document) {
-      throw new Error(`Document not found: ${docError?.message}`);
+    if (docError) {
+      throw new Error(`Document not found: ${docError.message}`);
+    }
+    // Missing documents answer like foreign ones so ids cannot be probed
+    if (!document) {
+      throw new AuthError('Access to this document is not allowed', 403);
     }
 
+    await assertProjectAccess(supabase, caller, document.project_id);
+    const settings = await loadRetrievalSettings(supabase, document.project_id);
+
     console.log(`[embed-document] Processing document: ${document.name}`);
 
     // Update status to processing
@@ -145,19 +82,24 @@ serve(async (req) => {
       throw new Error(`Failed to download file: ${fileError?.message}`);
     }
 
-    // Extract text (for now, assume text-based files)
-    let text = await fileData.text();
-    
-    if (!text || text.length < 10) {
-      throw new Error('Document is empty or too short');
+    const format = detectFormat(document.mime_type, document.name);
+    if (!format) {
+      throw new Error(`Unsupported file type: ${document.mime_type || document.name}`);
     }
 
     // Sanitize text to remove problematic characters
-    text = sanitizeText(text);
-    console.log(`[embed-document] Extracted ${text.length} characters`);
+    const blocks = (await extractDocument(fileData, format))
+      .map(block => ({ ...block, text: sanitizeText(block.text), headings: block.headings.map(sanitizeText) }))
+      .filter(block => block.text.trim());
+    const textLength = blocks.reduce((sum, block) => sum + block.text.length, 0);
 
-    // Semantic chunking
-    const chunks = semanticChunk(text);
+    if (textLength < 10) {
+      throw new Error('Document is empty or too short');
+    }
+    console.log(`[embed-document] Extracted ${textLength} characters from ${format} in ${blocks.length} blocks`);
+
+    // Chunks follow the headings and keep tables, code and list items together
+    const chunks = chunkBlocks(blocks, { chunkSize: settings.chunkSize, chunkOverlap: settings.chunkOverlap });
     console.log(`[embed-document] Created ${chunks.length} chunks`);
 
     // Delete existing chunks for this document
@@ -169,10 +111,11 @@ serve(async (req) => {
     // Process chunks and generate embeddings
     const chunkRecords = [];
     for (let i = 0; i < chunks.length; i++) {
-      const chunk = sanitizeText(chunks[i]); // Extra sanitization for safety
+      const chunk = sanitizeText(chunks[i].text); // Extra sanitization for safety
+      const { startLine, endLine, page, headings } = chunks[i];
       console.log(`[embed-document] Embedding chunk ${i + 1}/${chunks.length}`);
       
-      const embedding = await generateEmbedding(chunk, openaiKey);
+      const embedding = await generateEmbedding(chunk, openaiKey, settings.embeddingModel);
       
       chunkRecords.push({
         document_id,
@@ -184,6 +127,10 @@ serve(async (req) => {
           document_name: sanitizeText(document.name),
           chunk_position: i,
           total_chunks: chunks.length,
+          start_line: startLine,
+          end_line: endLine,
+          ...(page !== undefined && { page }),
+          ...(headings.length > 0 && { heading_path: headings }),
         },
         token_count: Math.ceil(chunk.length / 4), // Rough estimate
       });
@@ -210,7 +157,12 @@ serve(async (req) => {
         status: 'indexed',
         metadata: {
           ...document.metadata,
+          format,
           chunk_count: chunks.length,
+          // Settings the chunks were made with; the project is re-indexed when they change
+          chunk_size: settings.chunkSize,
+          chunk_overlap: settings.chunkOverlap,
+          embedding_model: settings.embeddingModel,
           indexed_at: new Date().toISOString(),
         }
       })
@@ -228,6 +180,11 @@ serve(async (req) => {
     );
 
   } catch (err) {
+    if (err instanceof AuthError) {
+      console.error('[embed-document] Rejected:', err.message);
+      return authErrorResponse(err, corsHeaders);
+    }
+
     const error = err instanceof Error ? err : new Error(String(err));
     console.error('[embed-document] Error:', error);
     
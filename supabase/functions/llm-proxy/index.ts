@@ -2,38 +2,102 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { 
   INVEST_RULES, 
   VOCABULARY, 
-  FEW_SHOT_EXAMPLES,
+  PROMPT_VARIABLES,
   formatQualityRules,
   formatVocabulary 
 } from "../_shared/llm-proxy/constants.ts";
 import { 
   PROMPT_V1, 
-  getSystemPrompt,
-  type Operation,
-  type PromptVersion 
+  type Operation
 } from "../_shared/llm-proxy/prompts-v1.ts";
+import {
+  ACTIVE_PROMPT_VERSION,
+  createPromptRegistry,
+  fromDraft,
+  type PromptDraft,
+  type PromptResolver,
+  type ResolvedPrompt
+} from "../_shared/llm-proxy/prompt-registry.ts";
+import { createProvider, mockProviderConfig, type LLMProvider } from "../_shared/llm-proxy/providers.ts";
+import { resolveRuntimeConfig, type ResolvedRuntimeConfig } from "../_shared/llm-proxy/runtime-config.ts";
+import {
+  ensureIssueIds,
+  mergeStructuredStory,
+  runPipeline,
+  PIPELINE_STAGES,
+  type PipelineEvents,
+  type PipelineStage,
+  type PipelineStageOutcome,
+} from "../_shared/llm-proxy/pipeline.ts";
+import { validateOperationResponse, type Coercion, type SchemaValidationResult } from "../_shared/llm-proxy/schemas.ts";
+import { allowsUnauthenticatedMock, createServiceClient } from "../_shared/llm-proxy/db.ts";
+import {
+  createFewShotLibrary,
+  isExampleLanguage,
+  type ExampleLanguage,
+  type FewShotLibrary
+} from "../_shared/llm-proxy/few-shot.ts";
+import {
+  createGuidelineResolver,
+  mergeVocabulary,
+  type GuidelineResolver,
+  type ProjectGuidelines
+} from "../_shared/llm-proxy/project-guidelines.ts";
+import {
+  CITATION_INSTRUCTIONS,
+  formatContextSources,
+  isCitingOperation,
+  isContextSourceList,
+  resolveCitations,
+  type ContextSource
+} from "../_shared/llm-proxy/citations.ts";
+import {
+  renderTemplate,
+  type TemplateData,
+  type TemplateVariableDefinition
+} from "../_shared/template-engine.ts";
+import { computeCacheKey, createResponseCache, type ResponseCache } from "../_shared/llm-proxy/cache.ts";
+import {
+  addUsage,
+  createCallRecorder,
+  createCallTracker,
+  type CallRecorder,
+  type CallTracker
+} from "../_shared/llm-proxy/usage.ts";
+import { createBudgetGuard, resolveClientId, BudgetUnavailableError, type BudgetViolation } from "../_shared/llm-proxy/budget.ts";
+import {
+  createExperimentResolver,
+  type ExperimentAssignment,
+  type ExperimentResolver
+} from "../_shared/llm-proxy/experiments.ts";
+import {
+  AuthError,
+  assertAdmin,
+  assertProjectAccess,
+  authenticateRequest,
+  authErrorResponse,
+  isUuid
+} from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'retry-after',
 };
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-type PipelineStage = 
-  | 'ambiguity_analysis'
-  | 'structure_check'
-  | 'quality_check'
-  | 'acceptance_criteria'
-  | 'business_value'
-  | 'solution_bias';
-
 interface LLMRequest {
   operation: Operation;
   storyText: string;
-  promptVersion?: PromptVersion;
+  /** A stored or compiled version, or 'active' (default) */
+  promptVersion?: string;
+  /** Unsaved prompt from the admin editor, replaces promptVersion (admins only) */
+  promptDraft?: PromptDraft;
+  /** Replaces the configured provider; only the deterministic mock can be chosen */
+  provider?: 'mock';
   structuredStory?: {
     role?: string;
     goal?: string;
@@ -41,6 +105,10 @@ interface LLMRequest {
     constraints?: string[];
   };
   context?: string;
+  /** Retrieved snippets; the model cites them by position, the response by id */
+  contextSources?: ContextSource[];
+  /** Language of the few-shot examples, detected from the story when omitted */
+  language?: ExampleLanguage;
   relevantIssues?: Array<{
     id?: string;
     category: string;
@@ -49,99 +117,58 @@ interface LLMRequest {
     textReference?: string;
   }>;
   previousResults?: Record<string, unknown>;
+  stream?: boolean;
+  bypassCache?: boolean;
+  projectId?: string;
+  storyId?: string;
   runtimeConfig?: {
+    modelId?: string;
     temperature?: number;
     topK?: number;
     maxTokens?: number;
   };
 }
 
+// Everything an operation needs besides the request itself
+interface ExecutionContext {
+  provider: LLMProvider;
+  llmConfig: ResolvedRuntimeConfig;
+  cache: ResponseCache | null;
+  recorder: CallRecorder | null;
+  prompts: PromptResolver;
+  examples: FewShotLibrary;
+  guidelines: GuidelineResolver;
+  experiments: ExperimentResolver | null;
+  clientId: string;
+  userId?: string;
+}
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
-function fillTemplate(template: string, data: {
-  qualityRules?: string;
-  vocabulary?: string;
-  previousResults?: string;
-  relevantIssues?: string;
-  fewShotExamples?: string;
-  context?: string;
-}): string {
-  let filled = template;
-  filled = filled.replace('{{qualityRules}}', data.qualityRules || formatQualityRules());
-  filled = filled.replace('{{vocabulary}}', data.vocabulary || formatVocabulary());
-  filled = filled.replace('{{previousResults}}', data.previousResults || 'Keine vorherigen Ergebnisse.');
-  filled = filled.replace('{{relevantIssues}}', data.relevantIssues || 'Keine spezifischen Issues angegeben.');
-  filled = filled.replace('{{fewShotExamples}}', data.fewShotExamples || '');
-  filled = filled.replace('{{context}}', data.context || '');
-  return filled;
-}
-
-function validateResponse(operation: Operation, data: unknown): boolean {
-  if (!data || typeof data !== 'object') return false;
-  const obj = data as Record<string, unknown>;
-  
-  switch (operation) {
-    case 'ambiguity_analysis':
-    case 'structure_check':
-    case 'quality_check':
-    case 'business_value':
-    case 'solution_bias':
-      return Array.isArray(obj.issues);
-    case 'acceptance_criteria':
-      return Array.isArray(obj.criteria);
-    case 'rewrite':
-      return Array.isArray(obj.candidates) && (obj.candidates as unknown[]).length > 0;
-    case 'analyze':
-      return Array.isArray(obj.issues) && typeof obj.score === 'number';
-    case 'full_pipeline':
-      return typeof obj.stages === 'object';
-    default:
-      return false;
-  }
-}
-
 async function callLLM(
+  operation: Operation,
   prompt: string, 
   systemPrompt: string, 
-  apiKey: string,
-  config?: { temperature?: number; maxTokens?: number }
-): Promise<unknown> {
-  const temperature = config?.temperature ?? 0.7;
-  const maxTokens = config?.maxTokens ?? 2000;
-
-  console.log(`Calling LLM with temperature=${temperature}, maxTokens=${maxTokens}`);
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: prompt }
-      ],
-      temperature,
-      max_tokens: maxTokens,
-    }),
+  provider: LLMProvider,
+  config: ResolvedRuntimeConfig,
+  tracker: CallTracker
+): Promise<{ data: unknown; model: string }> {
+  console.log(`Calling LLM (${provider.kind}/${config.model}) with temperature=${config.temperature}, topK=${config.topK ?? '-'}, maxTokens=${config.maxTokens}`);
+
+  tracker.attempts++;
+  const { content, model, usage } = await provider.complete({
+    operation,
+    systemPrompt,
+    userPrompt: prompt,
+    model: config.model,
+    temperature: config.temperature,
+    topK: config.topK,
+    maxTokens: config.maxTokens,
   });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('LLM API error:', response.status, errorText);
-    throw new Error(`LLM API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content;
-  
-  if (!content) {
-    throw new Error('Empty response from LLM');
-  }
+  // Count tokens before parsing, unparseable answers are paid for as well
+  addUsage(tracker, usage);
 
   // Parse JSON from response
   let jsonStr = content.trim();
@@ -150,22 +177,34 @@ async function callLLM(
   if (jsonStr.endsWith('```')) jsonStr = jsonStr.slice(0, -3);
   jsonStr = jsonStr.trim();
 
-  return JSON.parse(jsonStr);
+  return { data: JSON.parse(jsonStr), model };
+}
+
+function formatStructuredStory(structuredStory: NonNullable<LLMRequest['structuredStory']>): string {
+  let formatted = `Strukturierte Felder:
+- Rolle: ${structuredStory.role || 'nicht angegeben'}
+- Ziel: ${structuredStory.goal || 'nicht angegeben'}
+- Nutzen: ${structuredStory.benefit || 'nicht angegeben'}`;
+  if (structuredStory.constraints?.length) {
+    formatted += `\n- Einschränkungen: ${structuredStory.constraints.join(', ')}`;
+  }
+  return formatted;
+}
+
+// Numbered sources first, free-text context after them
+function buildContext(body: LLMRequest): string {
+  const sources = body.contextSources?.length ? formatContextSources(body.contextSources) : '';
+  return [sources, body.context?.trim() || ''].filter(Boolean).join('\n\n---\n\n');
 }
 
 function buildUserPrompt(body: LLMRequest): string {
-  const { storyText, structuredStory, context } = body;
+  const { storyText, structuredStory } = body;
+  const context = buildContext(body);
   
   let prompt = `User Story:\n${storyText}`;
   
   if (structuredStory) {
-    prompt += `\n\nStrukturierte Felder:
-- Rolle: ${structuredStory.role || 'nicht angegeben'}
-- Ziel: ${structuredStory.goal || 'nicht angegeben'}
-- Nutzen: ${structuredStory.benefit || 'nicht angegeben'}`;
-    if (structuredStory.constraints?.length) {
-      prompt += `\n- Einschränkungen: ${structuredStory.constraints.join(', ')}`;
-    }
+    prompt += `\n\n${formatStructuredStory(structuredStory)}`;
   }
   
   if (context) {
@@ -175,6 +214,418 @@ function buildUserPrompt(body: LLMRequest): string {
   return prompt;
 }
 
+/**
+ * Stored templates declare their variables. Types come from the proxy, which
+ * is the one providing the values; a declaration can only make a variable
+ * required. Declared variables the proxy does not know stay empty.
+ */
+function mergeVariableDefinitions(declared?: TemplateVariableDefinition[]): TemplateVariableDefinition[] {
+  const merged = new Map(PROMPT_VARIABLES.map(v => [v.name, { ...v }]));
+  for (const variable of declared || []) {
+    const known = merged.get(variable.name);
+    if (known) {
+      known.required = known.required || variable.required;
+    } else {
+      merged.set(variable.name, { ...variable });
+    }
+  }
+  return [...merged.values()];
+}
+
+class LLMResponseError extends Error {
+  constructor(message: string, public rawResponse?: unknown) {
+    super(message);
+    this.name = 'LLMResponseError';
+  }
+}
+
+// Per-call inputs that are looked up before the prompts are built
+interface PromptInputs {
+  fewShotExamples: string;
+  guidelines: ProjectGuidelines;
+}
+
+function joinLines(...blocks: string[]): string {
+  return blocks.filter(Boolean).join('\n');
+}
+
+function buildPrompts(
+  operation: Operation,
+  body: LLMRequest,
+  prompt: ResolvedPrompt,
+  inputs: PromptInputs
+): { systemPrompt: string; userPrompt: string } {
+  const { relevantIssues, previousResults, structuredStory } = body;
+
+  // Build user prompt
+  let userPrompt = buildUserPrompt(body);
+
+  // Template variables, stored templates may bring their own rules and examples.
+  // Project terms and rules extend whichever lists the prompt uses.
+  const { fewShotExamples, guidelines } = inputs;
+  const templateData: TemplateData = {
+    storyText: body.storyText,
+    structuredStory: structuredStory ? formatStructuredStory(structuredStory) : '',
+    role: structuredStory?.role || '',
+    goal: structuredStory?.goal || '',
+    benefit: structuredStory?.benefit || '',
+    constraints: structuredStory?.constraints || [],
+    context: buildContext(body),
+    qualityRules: prompt.qualityRules
+      ? joinLines(prompt.qualityRules, formatQualityRules(guidelines.rules))
+      : formatQualityRules([...INVEST_RULES, ...guidelines.rules]),
+    vocabulary: prompt.vocabulary
+      ? joinLines(prompt.vocabulary, formatVocabulary(guidelines.vocabulary))
+      : formatVocabulary(mergeVocabulary(VOCABULARY, guidelines.vocabulary)),
+    fewShotExamples,
+    previousResults: previousResults ? JSON.stringify(previousResults, null, 2) : '',
+    relevantIssues: '',
+    issues: relevantIssues || [],
+  };
+
+  // Add relevant issues for rewrite
+  if (relevantIssues?.length) {
+    templateData.relevantIssues = relevantIssues.map((issue, i) => 
+      `${i + 1}. [${issue.category}] ${issue.reasoning}${issue.userNote ? ` (Nutzer: ${issue.userNote})` : ''}`
+    ).join('\n');
+
+    // Also add to user prompt for rewrite
+    if (operation === 'rewrite' && !prompt.userPromptTemplate) {
+      userPrompt += `\n\nZu adressierende Issues:\n${templateData.relevantIssues}`;
+    }
+  }
+
+  // Throws TemplateError for broken templates and missing required variables
+  const definitions = mergeVariableDefinitions(prompt.variables);
+  if (prompt.userPromptTemplate) {
+    userPrompt = renderTemplate(prompt.userPromptTemplate, templateData, definitions);
+  }
+
+  let systemPrompt = renderTemplate(prompt.systemPrompt, templateData, definitions);
+  if (isCitingOperation(operation) && body.contextSources?.length) {
+    systemPrompt += `\n\n${CITATION_INSTRUCTIONS}`;
+  }
+
+  return { systemPrompt, userPrompt };
+}
+
+function buildRepairPrompt(userPrompt: string, previous: unknown, errors: string[]): string {
+  return `${userPrompt}
+
+Deine vorherige Antwort entsprach nicht dem Ausgabeformat:
+${JSON.stringify(previous, null, 2)}
+
+Validierungsfehler:
+${errors.map(e => `- ${e}`).join('\n')}
+
+WICHTIG: Korrigiere genau diese Fehler und antworte NUR mit dem vollständigen, validen JSON gemäß dem Ausgabeformat.`;
+}
+
+interface OperationResult {
+  data: Record<string, unknown>;
+  model: string;
+  coercions: Coercion[];
+  cached: boolean;
+  promptVersion: string;
+  experiment: ExperimentAssignment | null;
+}
+
+/**
+ * Runs a single LLM operation and validates the result against the
+ * operation's schema. Coercible values are fixed in place; on schema errors
+ * the model gets one repair attempt with the concrete validation errors.
+ * Valid results are cached; `bypassCache` skips the lookup but still
+ * refreshes the entry.
+ * Throws LLMResponseError when no valid response could be obtained.
+ */
+async function runOperation(
+  operation: Operation,
+  body: LLMRequest,
+  prompt: ResolvedPrompt,
+  ctx: ExecutionContext,
+  tracker: CallTracker
+): Promise<Omit<OperationResult, 'promptVersion' | 'experiment'>> {
+  const { provider, llmConfig, cache } = ctx;
+  // Examples stored with a prompt version belong to it, otherwise the library picks
+  const [fewShotExamples, guidelines] = await Promise.all([
+    prompt.fewShotExamples ?? ctx.examples.select(operation, {
+      storyText: body.storyText,
+      projectId: body.projectId,
+      language: body.language,
+    }),
+    ctx.guidelines.load(body.projectId),
+  ]);
+  const { systemPrompt, userPrompt } = buildPrompts(operation, body, prompt, { fewShotExamples, guidelines });
+
+  console.log(`[${operation}] Prompt ${prompt.version} (${prompt.source}), user prompt length: ${userPrompt.length}, system prompt length: ${systemPrompt.length}`);
+
+  const cacheParts = {
+    operation,
+    promptVersion: prompt.version,
+    provider: provider.kind,
+    systemPrompt,
+    userPrompt,
+    runtimeConfig: llmConfig,
+  };
+  // Drafts change with every keystroke in the editor, caching them is pointless
+  const cacheKey = cache && prompt.source !== 'draft' ? await computeCacheKey(cacheParts) : null;
+
+  if (cache && cacheKey && !body.bypassCache) {
+    const hit = await cache.get(cacheKey);
+    if (hit) {
+      console.log(`[${operation}] Cache hit`);
+      return { ...hit, cached: true };
+    }
+  }
+
+  // First attempt
+  let result: unknown;
+  let usedModel = llmConfig.model;
+  let validation: SchemaValidationResult | null = null;
+  
+  try {
+    ({ data: result, model: usedModel } = await callLLM(operation, userPrompt, systemPrompt, provider, llmConfig, tracker));
+    validation = validateOperationResponse(operation, result);
+    
+    if (!validation.valid) {
+      console.log(`[${operation}] First attempt invalid, repairing:`, validation.errors);
+    }
+  } catch (error) {
+    console.error(`[${operation}] First attempt failed:`, error);
+  }
+
+  // Retry once if invalid: a targeted repair when we got JSON, otherwise a plain reminder
+  if (!validation?.valid) {
+    const retryPrompt = validation
+      ? buildRepairPrompt(userPrompt, result, validation.errors)
+      : userPrompt + '\n\nWICHTIG: Antworte NUR mit validem JSON gemäß dem Ausgabeformat.';
+
+    try {
+      ({ data: result, model: usedModel } = await callLLM(operation, retryPrompt, systemPrompt, provider, llmConfig, tracker));
+      validation = validateOperationResponse(operation, result);
+    } catch (error) {
+      console.error(`[${operation}] Retry failed:`, error);
+      throw new LLMResponseError('Failed to get valid response after retry');
+    }
+  }
+
+  if (!validation.valid) {
+    throw new LLMResponseError(`Invalid response structure: ${validation.errors.join('; ')}`, result);
+  }
+
+  if (validation.coercions.length > 0) {
+    console.log(`[${operation}] Coerced ${validation.coercions.length} field(s)`);
+  }
+
+  const output = { data: validation.data, model: usedModel, coercions: validation.coercions };
+  if (cache && cacheKey) {
+    await cache.set(cacheKey, cacheParts, output);
+  }
+
+  return { ...output, cached: false };
+}
+
+/**
+ * Resolves the prompt version and runs the operation with accounting: every
+ * operation, successful or not, ends up as one row in llm_calls with the
+ * tokens of all its attempts. Requests that follow the active version are
+ * split between the variants of a running experiment; stories keep their
+ * variant, calls without a story are split per client.
+ */
+async function executeOperation(
+  operation: Operation,
+  body: LLMRequest,
+  ctx: ExecutionContext
+): Promise<OperationResult> {
+  const followsActive = !body.promptVersion || body.promptVersion === ACTIVE_PROMPT_VERSION;
+  const experiment = !body.promptDraft && followsActive && ctx.experiments
+    ? await ctx.experiments.assign(operation, body.storyId || ctx.clientId)
+    : null;
+  const prompt = body.promptDraft
+    ? fromDraft(body.promptDraft)
+    : await ctx.prompts.resolve(operation, experiment?.promptVersion ?? body.promptVersion);
+  const tracker = createCallTracker();
+  const startTime = Date.now();
+  const callId = crypto.randomUUID();
+
+  const record = (fields: { model: string; success: boolean; cached?: boolean; errorMessage?: string }) =>
+    ctx.recorder?.record({
+      id: callId,
+      operation,
+      promptVersion: prompt.version,
+      provider: ctx.provider.kind,
+      usage: tracker.usage,
+      latencyMs: Date.now() - startTime,
+      retryCount: Math.max(0, tracker.attempts - 1),
+      cached: false,
+      projectId: body.projectId,
+      storyId: body.storyId,
+      clientId: ctx.clientId,
+      userId: ctx.userId,
+      experimentId: experiment?.experimentId,
+      experimentVariant: experiment?.variant,
+      ...fields,
+    });
+
+  try {
+    const result = await runOperation(operation, body, prompt, ctx, tracker);
+    await record({ model: result.model, success: true, cached: result.cached });
+    // Cached results carry the labels too, they are resolved for this request's sources
+    const data = isCitingOperation(operation) ? resolveCitations(result.data, body.contextSources || []) : result.data;
+    return { ...result, data, promptVersion: prompt.version, experiment: experiment && { ...experiment, callId } };
+  } catch (error) {
+    await record({
+      model: ctx.llmConfig.model,
+      success: false,
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+}
+
+/**
+ * Runs all six pipeline stages server-side. Each stage receives the results
+ * of the stages it depends on, and the structured model from structure_check
+ * replaces the client-side parse once it is available.
+ */
+async function executeFullPipeline(
+  body: LLMRequest,
+  ctx: ExecutionContext,
+  events?: PipelineEvents
+): Promise<{ stages: PipelineStageOutcome[]; overallScore?: number; summary: string }> {
+  const stages = await runPipeline((stage, previousResults) => {
+    const structureResult = previousResults.structure_check as { structuredModel?: LLMRequest['structuredStory'] } | undefined;
+    return executeOperation(stage, {
+      ...body,
+      operation: stage,
+      previousResults,
+      structuredStory: structureResult?.structuredModel
+        ? mergeStructuredStory(body.structuredStory, structureResult.structuredModel)
+        : body.structuredStory,
+    }, ctx);
+  }, events);
+
+  const quality = stages.find(s => s.stage === 'quality_check' && s.status === 'completed');
+  const summary = stages
+    .filter(s => s.status === 'completed' && s.result?.summary)
+    .map(s => `**${s.stage}**: ${s.result!.summary}`)
+    .join('\n\n');
+
+  return {
+    stages,
+    overallScore: typeof quality?.result?.overallScore === 'number' ? quality.result.overallScore as number : undefined,
+    summary,
+  };
+}
+
+// Pipeline coercions are reported with the stage as path prefix
+function collectPipelineCoercions(stages: PipelineStageOutcome[]): Coercion[] {
+  return stages.flatMap(s => (s.coercions || []).map(c => ({ ...c, path: `${s.stage}.${c.path}` })));
+}
+
+// Stages may run on different versions, e.g. while only some have a stored prompt
+function describePipelineVersions(stages: PipelineStageOutcome[], fallback: string): string {
+  const versions = [...new Set(stages.map(s => s.promptVersion).filter((v): v is string => !!v))];
+  return versions.length > 0 ? versions.join(',') : fallback;
+}
+
+function collectPipelineExperiments(stages: PipelineStageOutcome[]): ExperimentAssignment[] {
+  return stages.flatMap(s => s.experiment ? [s.experiment] : []);
+}
+
+// A pipeline counts as cached when no stage needed a fresh LLM call
+function isPipelineCached(stages: PipelineStageOutcome[]): boolean {
+  return stages.every(s => s.status === 'completed' && s.cached);
+}
+
+// ============================================================================
+// STREAMING (Server-Sent Events)
+// ============================================================================
+
+/**
+ * Streams pipeline progress as SSE. Events:
+ *   stage_start    { stage }
+ *   stage_issues   { stage, issues }            raw issues of a completed stage
+ *   stage_complete { stage, status, issues, duration, error?, modelId?, result? }
+ *   complete       { success, data, meta }      same payload as the JSON response
+ *   error          { error }
+ */
+function streamFullPipeline(
+  body: LLMRequest,
+  ctx: ExecutionContext,
+  requestedVersion: string
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        const pipeline = await executeFullPipeline(body, ctx, {
+          onStageStart: (stage) => send('stage_start', { stage }),
+          onStageComplete: (outcome) => {
+            if (outcome.status === 'completed' && Array.isArray(outcome.result?.issues)) {
+              send('stage_issues', { stage: outcome.stage, issues: outcome.result!.issues });
+            }
+            send('stage_complete', outcome);
+          },
+        });
+
+        send('complete', {
+          success: true,
+          data: pipeline,
+          meta: {
+            promptVersion: describePipelineVersions(pipeline.stages, requestedVersion),
+            operation: 'full_pipeline',
+            provider: ctx.provider.kind,
+            model: pipeline.stages.find(s => s.modelId)?.modelId || ctx.llmConfig.model,
+            cached: isPipelineCached(pipeline.stages),
+            coercions: collectPipelineCoercions(pipeline.stages),
+            experiments: collectPipelineExperiments(pipeline.stages),
+            timestamp: new Date().toISOString(),
+          },
+        });
+      } catch (error) {
+        console.error('Error in streamed pipeline:', error);
+        send('error', { error: error instanceof Error ? error.message : 'Unknown error' });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+// ============================================================================
+// BUDGETS
+// ============================================================================
+
+function budgetExceededResponse(violation: BudgetViolation): Response {
+  const retryAfter = Math.max(1, Math.ceil((new Date(violation.resetAt).getTime() - Date.now()) / 1000));
+  return new Response(
+    JSON.stringify({
+      error: `Budget exceeded: ${violation.scope} ${violation.limit} (${violation.used}/${violation.max})`,
+      code: 'budget_exceeded',
+      budget: violation,
+    }),
+    {
+      status: 429,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) },
+    }
+  );
+}
+
 // ============================================================================
 // MAIN HANDLER
 // ============================================================================
@@ -185,18 +636,11 @@ serve(async (req) => {
   }
 
   try {
-    const apiKey = Deno.env.get('LLM_API_KEY');
-    if (!apiKey) {
-      throw new Error('LLM_API_KEY is not configured');
-    }
-
     const body: LLMRequest = await req.json();
     const { 
       operation, 
       storyText, 
-      promptVersion = 'v1', 
-      relevantIssues,
-      previousResults,
+      promptVersion = ACTIVE_PROMPT_VERSION, 
       runtimeConfig 
     } = body;
 
@@ -220,87 +664,145 @@ serve(async (req) => {
       );
     }
 
-    console.log(`Processing ${operation} with promptVersion=${promptVersion}`);
+    if (body.provider !== undefined && body.provider !== 'mock') {
+      return new Response(
+        JSON.stringify({ error: "provider can only be 'mock'" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (body.contextSources !== undefined && !isContextSourceList(body.contextSources)) {
+      return new Response(
+        JSON.stringify({ error: 'contextSources must be a list of { id, text, documentName? }' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-    // Build user prompt
-    let userPrompt = buildUserPrompt(body);
+    if (body.language !== undefined && !isExampleLanguage(body.language)) {
+      return new Response(
+        JSON.stringify({ error: "language must be 'de' or 'en'" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
-    // Get and contextualize system prompt
-    let systemPrompt = getSystemPrompt(operation, promptVersion);
-    
-    // Fill template variables
-    const templateData: Record<string, string> = {
-      qualityRules: formatQualityRules(),
-      vocabulary: formatVocabulary(),
-    };
+    // Evaluation runs replay the golden dataset against the mock without touching the real provider
+    const provider = createProvider(body.provider === 'mock' ? mockProviderConfig() : undefined);
 
-    // Add few-shot examples for certain operations
-    if (operation === 'ambiguity_analysis') {
-      templateData.fewShotExamples = FEW_SHOT_EXAMPLES.ambiguity;
-    } else if (operation === 'structure_check') {
-      templateData.fewShotExamples = FEW_SHOT_EXAMPLES.structure;
+    // Drafts are written for one stage and would leak into every pipeline stage
+    if (body.promptDraft && (operation === 'full_pipeline' || !body.promptDraft.systemPrompt?.trim())) {
+      return new Response(
+        JSON.stringify({ error: 'promptDraft requires a systemPrompt and a single-stage operation' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    // Add previous results for pipeline stages
-    if (previousResults) {
-      templateData.previousResults = JSON.stringify(previousResults, null, 2);
+    const { config: llmConfig, errors: configErrors } = resolveRuntimeConfig(runtimeConfig, provider);
+    if (!llmConfig) {
+      return new Response(
+        JSON.stringify({ error: `Invalid runtimeConfig: ${configErrors.join('; ')}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    // Add relevant issues for rewrite
-    if (relevantIssues?.length) {
-      templateData.relevantIssues = relevantIssues.map((issue, i) => 
-        `${i + 1}. [${issue.category}] ${issue.reasoning}${issue.userNote ? ` (Nutzer: ${issue.userNote})` : ''}`
-      ).join('\n');
+    const supabase = createServiceClient();
+    if (!supabase && !(provider.kind === 'mock' && allowsUnauthenticatedMock())) {
+      throw new Error('Supabase is not configured, cannot verify the caller');
+    }
 
-      // Also add to user prompt for rewrite
-      if (operation === 'rewrite') {
-        userPrompt += `\n\nZu adressierende Issues:\n${templateData.relevantIssues}`;
+    // Without Supabase only the unauthenticated mock mode gets here
+    let clientId = 'local';
+    let userId: string | undefined;
+    if (supabase) {
+      try {
+        const caller = await authenticateRequest(req, supabase);
+        // Story sessions without a stored project carry generated, non-UUID ids
+        if (body.projectId && isUuid(body.projectId)) {
+          await assertProjectAccess(supabase, caller, body.projectId);
+        }
+        if (body.promptDraft) {
+          await assertAdmin(supabase, caller);
+        }
+        clientId = resolveClientId(req, caller);
+        userId = caller.userId;
+      } catch (error) {
+        if (error instanceof AuthError) {
+          return authErrorResponse(error, corsHeaders);
+        }
+        throw error;
       }
     }
 
-    systemPrompt = fillTemplate(systemPrompt, templateData);
+    // A pipeline makes one LLM call per stage and counts as that many requests
+    const callCount = operation === 'full_pipeline' ? PIPELINE_STAGES.length : 1;
+    let violation: BudgetViolation | null | undefined;
+    try {
+      violation = await createBudgetGuard(supabase)?.admit(operation, body.projectId, clientId, callCount);
+    } catch (error) {
+      if (error instanceof BudgetUnavailableError) {
+        return new Response(
+          JSON.stringify({ error: error.message, code: 'budget_unavailable' }),
+          { status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      throw error;
+    }
+    if (violation) {
+      console.log(`Budget exceeded for ${violation.scope}: ${violation.limit} ${violation.used}/${violation.max}`);
+      return budgetExceededResponse(violation);
+    }
 
-    console.log(`User prompt length: ${userPrompt.length}, System prompt length: ${systemPrompt.length}`);
+    console.log(`Processing ${operation} with promptVersion=${promptVersion}, model=${llmConfig.model}`);
+
+    const ctx: ExecutionContext = {
+      provider,
+      llmConfig,
+      cache: createResponseCache(supabase),
+      recorder: createCallRecorder(supabase),
+      prompts: createPromptRegistry(supabase),
+      examples: createFewShotLibrary(supabase),
+      guidelines: createGuidelineResolver(supabase),
+      experiments: createExperimentResolver(supabase),
+      clientId,
+      userId,
+    };
+
+    if (operation === 'full_pipeline' && body.stream) {
+      return streamFullPipeline(body, ctx, promptVersion);
+    }
 
-    // First attempt
     let result: unknown;
-    let isValid = false;
-    
+    let usedModel = llmConfig.model;
+    let coercions: Coercion[] = [];
+    let cached = false;
+    let resolvedVersion = promptVersion;
+    let experiments: ExperimentAssignment[] = [];
+
     try {
-      result = await callLLM(userPrompt, systemPrompt, apiKey, runtimeConfig);
-      isValid = validateResponse(operation, result);
-      
-      if (!isValid) {
-        console.log('First attempt invalid, retrying...');
+      if (operation === 'full_pipeline') {
+        const pipeline = await executeFullPipeline(body, ctx);
+        result = pipeline;
+        usedModel = pipeline.stages.find(s => s.modelId)?.modelId || usedModel;
+        coercions = collectPipelineCoercions(pipeline.stages);
+        cached = isPipelineCached(pipeline.stages);
+        resolvedVersion = describePipelineVersions(pipeline.stages, promptVersion);
+        experiments = collectPipelineExperiments(pipeline.stages);
+      } else {
+        const single = await executeOperation(operation, body, ctx);
+        // Re-run stages get the same ids as in the full pipeline
+        if (PIPELINE_STAGES.includes(operation as PipelineStage)) {
+          ensureIssueIds(operation as PipelineStage, single.data);
+        }
+        ({ data: result, model: usedModel, coercions, cached, promptVersion: resolvedVersion } = single);
+        experiments = single.experiment ? [single.experiment] : [];
       }
     } catch (error) {
-      console.error('First attempt failed:', error);
-    }
-
-    // Retry once if invalid
-    if (!isValid) {
-      try {
-        result = await callLLM(
-          userPrompt + '\n\nWICHTIG: Antworte NUR mit validem JSON gemäß dem Ausgabeformat.',
-          systemPrompt,
-          apiKey,
-          runtimeConfig
-        );
-        isValid = validateResponse(operation, result);
-      } catch (error) {
-        console.error('Retry failed:', error);
+      if (error instanceof LLMResponseError) {
         return new Response(
-          JSON.stringify({ error: 'Failed to get valid response after retry' }),
+          JSON.stringify({ error: error.message, rawResponse: error.rawResponse }),
           { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
-    }
-
-    if (!isValid) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid response structure', rawResponse: result }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      throw error;
     }
 
     console.log(`${operation} completed successfully`);
@@ -310,8 +812,13 @@ serve(async (req) => {
         success: true, 
         data: result,
         meta: { 
-          promptVersion,
+          promptVersion: resolvedVersion,
           operation,
+          provider: provider.kind,
+          model: usedModel,
+          cached,
+          coercions,
+          experiments,
           timestamp: new Date().toISOString(),
         }
       }),
@@ -1,35 +1,17 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { AuthError, assertProjectAccess, authenticateRequest, authErrorResponse } from "../_shared/auth.ts";
+import { generateEmbedding, loadRetrievalSettings } from "../_shared/retrieval-settings.ts";
+
+const SEARCH_MODES = ['vector', 'keyword', 'hybrid'] as const;
+type SearchMode = typeof SEARCH_MODES[number];
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Generate embedding for query
-async function generateEmbedding(text: string, apiKey: string): Promise<number[]> {
-  const response = await fetch('https://api.openai.com/v1/embeddings', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'text-embedding-3-small',
-      input: text,
-    }),
-  });
-  
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`OpenAI API error: ${error}`);
-  }
-  
-  const data = await response.json();
-  return data.data[0].embedding;
-}
-
 // Re-rank results using LLM
 async function reRankResults(
   query: string, 
@@ -104,13 +86,8 @@ serve(async (req) => {
   }
 
   try {
-    const { 
-      project_id, 
-      query, 
-      match_count = 5,
-      match_threshold = 0.6,
-      include_reranking = true 
-    } = await req.json();
+    // Search parameters left out of the request come from the project's settings
+    const { project_id, query, search_mode = 'hybrid', ...overrides } = await req.json();
     
     if (!project_id || !query) {
       return new Response(
@@ -119,6 +96,14 @@ serve(async (req) => {
       );
     }
 
+    if (!SEARCH_MODES.includes(search_mode)) {
+      return new Response(
+        JSON.stringify({ error: `search_mode must be one of: ${SEARCH_MODES.join(', ')}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const searchMode = search_mode as SearchMode;
+
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const openaiKey = Deno.env.get('OPEN_AI_API_KEY') || Deno.env.get('LLM_API_KEY');
@@ -129,19 +114,31 @@ serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    console.log(`[retrieve-context] Searching for: "${query.substring(0, 50)}..." in project ${project_id}`);
+    const caller = await authenticateRequest(req, supabase);
+    await assertProjectAccess(supabase, caller, project_id);
+
+    const settings = await loadRetrievalSettings(supabase, project_id);
+    const match_count: number = overrides.match_count ?? settings.topK;
+    const match_threshold: number = overrides.match_threshold ?? settings.threshold;
+    const include_reranking: boolean = overrides.include_reranking ?? settings.reranking;
+
+    console.log(`[retrieve-context] ${searchMode} search for: "${query.substring(0, 50)}..." in project ${project_id}`);
 
-    // Generate embedding for query
-    const queryEmbedding = await generateEmbedding(query, openaiKey);
+    // Keyword search needs no embedding
+    const queryEmbedding = searchMode === 'keyword'
+      ? null
+      : await generateEmbedding(query, openaiKey, settings.embeddingModel);
 
-    // Perform similarity search
+    // Vector, keyword or fused search
     const { data: results, error: searchError } = await supabase.rpc(
-      'search_document_chunks',
+      'search_document_chunks_hybrid',
       {
-        query_embedding: JSON.stringify(queryEmbedding),
+        query_text: query,
         p_project_id: project_id,
+        query_embedding: queryEmbedding ? JSON.stringify(queryEmbedding) : null,
         match_threshold,
         match_count: include_reranking ? match_count * 2 : match_count, // Get more for re-ranking
+        search_mode: searchMode,
       }
     );
 
@@ -173,9 +170,19 @@ serve(async (req) => {
     const snippets = finalResults.map((r: any, index: number) => ({
       id: r.id,
       text: r.content,
+      documentId: r.document_id,
       source: r.metadata?.document_name || 'Unknown',
-      relevanceScore: r.similarity,
-      position: index + 1,
+      // Keyword-only hits have no similarity; their rank is scaled to 0..1 as well
+      relevanceScore: r.similarity ?? r.keyword_rank ?? 0,
+      keywordRank: r.keyword_rank ?? undefined,
+      rank: index + 1,
+      // Where the chunk sits in the document; chunks indexed before line tracking have no lines
+      position: {
+        startLine: r.metadata?.start_line,
+        endLine: r.metadata?.end_line,
+        page: r.metadata?.page,
+      },
+      headingPath: r.metadata?.heading_path ?? [],
     }));
 
     console.log(`[retrieve-context] Returning ${snippets.length} snippets`);
@@ -184,12 +191,18 @@ serve(async (req) => {
       JSON.stringify({ 
         snippets,
         query,
+        search_mode: searchMode,
         project_id,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (err) {
+    if (err instanceof AuthError) {
+      console.error('[retrieve-context] Rejected:', err.message);
+      return authErrorResponse(err, corsHeaders);
+    }
+
     const error = err instanceof Error ? err : new Error(String(err));
     console.error('[retrieve-context] Error:', error);
     return new Response(
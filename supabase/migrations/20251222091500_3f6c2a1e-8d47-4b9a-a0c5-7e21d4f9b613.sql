@@ -0,0 +1,38 @@
+-- Response cache for llm-proxy: identical requests are answered from here
+CREATE TABLE public.llm_response_cache (
+    cache_key TEXT PRIMARY KEY,
+    operation TEXT NOT NULL,
+    prompt_version TEXT NOT NULL,
+    model TEXT NOT NULL,
+    response JSONB NOT NULL,
+    coercions JSONB DEFAULT '[]'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX idx_llm_response_cache_expires ON public.llm_response_cache(expires_at);
+
+-- Enable RLS: only the edge functions (service role) access the cache
+ALTER TABLE public.llm_response_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "System can manage llm response cache"
+ON public.llm_response_cache FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Removes expired entries, returns the number of deleted rows
+CREATE OR REPLACE FUNCTION public.purge_expired_llm_cache()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    deleted_count INTEGER;
+BEGIN
+    DELETE FROM public.llm_response_cache WHERE expires_at < now();
+    GET DIAGNOSTICS deleted_count = ROW_COUNT;
+    RETURN deleted_count;
+END;
+$$;
@@ -0,0 +1,111 @@
+-- Accounting of every LLM call made by llm-proxy
+CREATE TABLE public.llm_calls (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    operation TEXT NOT NULL,
+    prompt_version TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    estimated_cost NUMERIC(12, 6),
+    latency_ms INTEGER NOT NULL DEFAULT 0,
+    retry_count INTEGER NOT NULL DEFAULT 0,
+    cached BOOLEAN NOT NULL DEFAULT false,
+    success BOOLEAN NOT NULL,
+    error_message TEXT,
+    project_id TEXT,
+    story_id TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_llm_calls_project ON public.llm_calls(project_id);
+CREATE INDEX idx_llm_calls_story ON public.llm_calls(story_id);
+CREATE INDEX idx_llm_calls_created ON public.llm_calls(created_at);
+
+-- Enable RLS
+ALTER TABLE public.llm_calls ENABLE ROW LEVEL SECURITY;
+
+-- Admins can read, only the edge functions write
+CREATE POLICY "Admins can view llm calls"
+ON public.llm_calls FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "System can manage llm calls"
+ON public.llm_calls FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Totals per project. Runs with the caller's rights, so RLS limits it to admins.
+CREATE OR REPLACE FUNCTION public.get_llm_usage_by_project()
+RETURNS TABLE (
+    project_id TEXT,
+    call_count BIGINT,
+    failed_count BIGINT,
+    cached_count BIGINT,
+    prompt_tokens BIGINT,
+    completion_tokens BIGINT,
+    total_tokens BIGINT,
+    estimated_cost NUMERIC,
+    avg_latency_ms NUMERIC,
+    last_call_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.project_id,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE NOT c.success),
+    COUNT(*) FILTER (WHERE c.cached),
+    COALESCE(SUM(c.prompt_tokens), 0),
+    COALESCE(SUM(c.completion_tokens), 0),
+    COALESCE(SUM(c.total_tokens), 0),
+    COALESCE(SUM(c.estimated_cost), 0),
+    ROUND(AVG(c.latency_ms)),
+    MAX(c.created_at)
+  FROM public.llm_calls c
+  GROUP BY c.project_id
+  ORDER BY MAX(c.created_at) DESC
+$$;
+
+-- Totals per story, optionally limited to one project
+CREATE OR REPLACE FUNCTION public.get_llm_usage_by_story(p_project_id TEXT DEFAULT NULL)
+RETURNS TABLE (
+    story_id TEXT,
+    project_id TEXT,
+    call_count BIGINT,
+    failed_count BIGINT,
+    cached_count BIGINT,
+    prompt_tokens BIGINT,
+    completion_tokens BIGINT,
+    total_tokens BIGINT,
+    estimated_cost NUMERIC,
+    avg_latency_ms NUMERIC,
+    last_call_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.story_id,
+    MAX(c.project_id),
+    COUNT(*),
+    COUNT(*) FILTER (WHERE NOT c.success),
+    COUNT(*) FILTER (WHERE c.cached),
+    COALESCE(SUM(c.prompt_tokens), 0),
+    COALESCE(SUM(c.completion_tokens), 0),
+    COALESCE(SUM(c.total_tokens), 0),
+    COALESCE(SUM(c.estimated_cost), 0),
+    ROUND(AVG(c.latency_ms)),
+    MAX(c.created_at)
+  FROM public.llm_calls c
+  WHERE c.story_id IS NOT NULL
+    AND (p_project_id IS NULL OR c.project_id = p_project_id)
+  GROUP BY c.story_id
+  ORDER BY MAX(c.created_at) DESC
+$$;
@@ -0,0 +1,80 @@
+-- LLM budgets per project. NULL means no limit; the client limits apply to
+-- every single caller working in the project.
+ALTER TABLE public.projects
+    ADD COLUMN llm_requests_per_minute INTEGER,
+    ADD COLUMN llm_tokens_per_day INTEGER,
+    ADD COLUMN llm_cost_per_day NUMERIC(10, 4),
+    ADD COLUMN llm_client_requests_per_minute INTEGER,
+    ADD COLUMN llm_client_tokens_per_day INTEGER,
+    ADD COLUMN llm_client_cost_per_day NUMERIC(10, 4);
+
+-- Calls are attributed to the client that made them
+ALTER TABLE public.llm_calls ADD COLUMN client_id TEXT;
+
+CREATE INDEX idx_llm_calls_client ON public.llm_calls(client_id);
+
+-- One row per llm-proxy request, written before the request is processed so
+-- bursts are counted against the per-minute limits
+CREATE TABLE public.llm_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    operation TEXT NOT NULL,
+    project_id TEXT,
+    client_id TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_llm_requests_project_created ON public.llm_requests(project_id, created_at);
+CREATE INDEX idx_llm_requests_client_created ON public.llm_requests(client_id, created_at);
+
+ALTER TABLE public.llm_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view llm requests"
+ON public.llm_requests FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "System can manage llm requests"
+ON public.llm_requests FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Current consumption against the budgets. Days are UTC days.
+CREATE OR REPLACE FUNCTION public.get_llm_budget_usage(p_project_id TEXT, p_client_id TEXT)
+RETURNS TABLE (
+    project_requests_last_minute BIGINT,
+    project_oldest_request_at TIMESTAMP WITH TIME ZONE,
+    project_tokens_today BIGINT,
+    project_cost_today NUMERIC,
+    client_requests_last_minute BIGINT,
+    client_oldest_request_at TIMESTAMP WITH TIME ZONE,
+    client_tokens_today BIGINT,
+    client_cost_today NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    SELECT now() - interval '1 minute' AS minute_start,
+           date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' AS day_start
+  )
+  SELECT
+    (SELECT COUNT(*) FROM public.llm_requests r, bounds b
+      WHERE r.project_id = p_project_id AND r.created_at > b.minute_start),
+    (SELECT MIN(r.created_at) FROM public.llm_requests r, bounds b
+      WHERE r.project_id = p_project_id AND r.created_at > b.minute_start),
+    (SELECT COALESCE(SUM(c.total_tokens), 0) FROM public.llm_calls c, bounds b
+      WHERE c.project_id = p_project_id AND c.created_at >= b.day_start),
+    (SELECT COALESCE(SUM(c.estimated_cost), 0) FROM public.llm_calls c, bounds b
+      WHERE c.project_id = p_project_id AND c.created_at >= b.day_start),
+    (SELECT COUNT(*) FROM public.llm_requests r, bounds b
+      WHERE r.client_id = p_client_id AND r.created_at > b.minute_start),
+    (SELECT MIN(r.created_at) FROM public.llm_requests r, bounds b
+      WHERE r.client_id = p_client_id AND r.created_at > b.minute_start),
+    (SELECT COALESCE(SUM(c.total_tokens), 0) FROM public.llm_calls c, bounds b
+      WHERE c.client_id = p_client_id AND c.created_at >= b.day_start),
+    (SELECT COALESCE(SUM(c.estimated_cost), 0) FROM public.llm_calls c, bounds b
+      WHERE c.client_id = p_client_id AND c.created_at >= b.day_start)
+$$;
@@ -0,0 +1,97 @@
+-- Project access control. Public projects stay readable for every caller,
+-- private ones only for admins, their creator and their members.
+ALTER TABLE public.projects ADD COLUMN is_public BOOLEAN NOT NULL DEFAULT true;
+
+CREATE TABLE public.project_members (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (project_id, user_id)
+);
+
+CREATE INDEX idx_project_members_user ON public.project_members(user_id);
+
+ALTER TABLE public.project_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their memberships"
+ON public.project_members FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage project members"
+ON public.project_members FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Takes the project id as text so it also works on storage paths and on the
+-- free-form project ids sent to llm-proxy
+CREATE OR REPLACE FUNCTION public.can_access_project(_user_id UUID, _project_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.projects p
+    WHERE p.id::text = _project_id
+      AND (
+        p.is_public
+        OR p.created_by = _user_id
+        OR public.has_role(_user_id, 'admin')
+        OR EXISTS (
+          SELECT 1
+          FROM public.project_members m
+          WHERE m.project_id = p.id
+            AND m.user_id = _user_id
+        )
+      )
+  )
+$$;
+
+-- Projects
+DROP POLICY "Anyone can view projects" ON public.projects;
+
+CREATE POLICY "Users can view accessible projects"
+ON public.projects FOR SELECT
+TO anon, authenticated
+USING (public.can_access_project(auth.uid(), id::text));
+
+-- Documents
+DROP POLICY "Anyone can view documents" ON public.documents;
+DROP POLICY "Anyone can upload documents" ON public.documents;
+
+CREATE POLICY "Users can view documents of accessible projects"
+ON public.documents FOR SELECT
+TO anon, authenticated
+USING (public.can_access_project(auth.uid(), project_id::text));
+
+CREATE POLICY "Users can upload documents to accessible projects"
+ON public.documents FOR INSERT
+TO anon, authenticated
+WITH CHECK (public.can_access_project(auth.uid(), project_id::text));
+
+-- Chunks
+DROP POLICY "Anyone can view chunks" ON public.document_chunks;
+
+CREATE POLICY "Users can view chunks of accessible projects"
+ON public.document_chunks FOR SELECT
+TO anon, authenticated
+USING (public.can_access_project(auth.uid(), project_id::text));
+
+-- Storage: files live under <project_id>/
+DROP POLICY "Anyone can upload to project-documents" ON storage.objects;
+DROP POLICY "Anyone can read project-documents" ON storage.objects;
+
+CREATE POLICY "Users can upload to accessible project folders"
+ON storage.objects FOR INSERT
+TO anon, authenticated
+WITH CHECK (bucket_id = 'project-documents' AND public.can_access_project(auth.uid(), (storage.foldername(name))[1]));
+
+CREATE POLICY "Users can read accessible project folders"
+ON storage.objects FOR SELECT
+TO anon, authenticated
+USING (bucket_id = 'project-documents' AND public.can_access_project(auth.uid(), (storage.foldername(name))[1]));
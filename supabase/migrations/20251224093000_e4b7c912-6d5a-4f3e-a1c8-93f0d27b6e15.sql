@@ -0,0 +1,83 @@
+-- Versioned prompt templates per stage. llm-proxy uses the active version of a
+-- stage and falls back to the prompts compiled into the function.
+CREATE TABLE public.prompt_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    version TEXT NOT NULL,
+    stage TEXT NOT NULL CHECK (stage IN (
+        'ambiguity_analysis', 'structure_check', 'quality_check', 'acceptance_criteria',
+        'business_value', 'solution_bias', 'rewrite', 'analyze'
+    )),
+    system_prompt TEXT NOT NULL,
+    user_prompt_template TEXT NOT NULL DEFAULT '',
+    output_schema JSONB NOT NULL DEFAULT '{}'::jsonb,
+    variables JSONB NOT NULL DEFAULT '[]'::jsonb,
+    examples JSONB DEFAULT '[]'::jsonb,
+    quality_rules JSONB,
+    vocabulary JSONB,
+    is_active BOOLEAN NOT NULL DEFAULT false,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (stage, version)
+);
+
+-- At most one active version per stage
+CREATE UNIQUE INDEX idx_prompt_templates_active ON public.prompt_templates(stage) WHERE is_active;
+
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage prompt templates"
+ON public.prompt_templates FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "System can read prompt templates"
+ON public.prompt_templates FOR SELECT
+TO service_role
+USING (true);
+
+CREATE TRIGGER update_prompt_templates_updated_at
+BEFORE UPDATE ON public.prompt_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Makes a version the active one of its stage in a single transaction
+CREATE OR REPLACE FUNCTION public.activate_prompt_template(p_template_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_stage TEXT;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can activate prompt templates';
+    END IF;
+
+    SELECT stage INTO v_stage FROM public.prompt_templates WHERE id = p_template_id;
+    IF v_stage IS NULL THEN
+        RAISE EXCEPTION 'Prompt template % not found', p_template_id;
+    END IF;
+
+    UPDATE public.prompt_templates SET is_active = false WHERE stage = v_stage AND is_active;
+    UPDATE public.prompt_templates SET is_active = true WHERE id = p_template_id;
+END;
+$$;
+
+-- Falls back to the compiled prompts of the stage
+CREATE OR REPLACE FUNCTION public.deactivate_prompt_stage(p_stage TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can deactivate prompt templates';
+    END IF;
+
+    UPDATE public.prompt_templates SET is_active = false WHERE stage = p_stage AND is_active;
+END;
+$$;
@@ -0,0 +1,57 @@
+-- Remember when a version went live so the previous one can be restored
+ALTER TABLE public.prompt_templates ADD COLUMN activated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.activate_prompt_template(p_template_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_stage TEXT;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can activate prompt templates';
+    END IF;
+
+    SELECT stage INTO v_stage FROM public.prompt_templates WHERE id = p_template_id;
+    IF v_stage IS NULL THEN
+        RAISE EXCEPTION 'Prompt template % not found', p_template_id;
+    END IF;
+
+    UPDATE public.prompt_templates SET is_active = false WHERE stage = v_stage AND is_active;
+    UPDATE public.prompt_templates SET is_active = true, activated_at = now() WHERE id = p_template_id;
+END;
+$$;
+
+-- Re-activates the version that was live before the current one. Without an
+-- earlier version the stage falls back to the compiled prompts.
+-- Returns the id of the now active version, or NULL.
+CREATE OR REPLACE FUNCTION public.rollback_prompt_stage(p_stage TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_previous_id UUID;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can roll back prompt templates';
+    END IF;
+
+    SELECT id INTO v_previous_id
+    FROM public.prompt_templates
+    WHERE stage = p_stage AND NOT is_active AND activated_at IS NOT NULL
+    ORDER BY activated_at DESC
+    LIMIT 1;
+
+    UPDATE public.prompt_templates SET is_active = false WHERE stage = p_stage AND is_active;
+
+    IF v_previous_id IS NOT NULL THEN
+        UPDATE public.prompt_templates SET is_active = true, activated_at = now() WHERE id = v_previous_id;
+    END IF;
+
+    RETURN v_previous_id;
+END;
+$$;
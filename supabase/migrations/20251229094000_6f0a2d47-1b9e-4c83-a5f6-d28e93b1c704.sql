@@ -0,0 +1,142 @@
+-- A/B experiments between two prompt versions of a stage. llm-proxy splits
+-- requests that ask for the active version by traffic_percent_b.
+CREATE TABLE public.prompt_experiments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    stage TEXT NOT NULL CHECK (stage IN (
+        'ambiguity_analysis', 'structure_check', 'quality_check', 'acceptance_criteria',
+        'business_value', 'solution_bias', 'rewrite', 'analyze'
+    )),
+    variant_a_version TEXT NOT NULL,
+    variant_b_version TEXT NOT NULL,
+    traffic_percent_b INTEGER NOT NULL DEFAULT 50 CHECK (traffic_percent_b BETWEEN 0 AND 100),
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'stopped')),
+    created_by UUID REFERENCES auth.users(id),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    ended_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (variant_a_version <> variant_b_version)
+);
+
+-- At most one running experiment per stage
+CREATE UNIQUE INDEX idx_prompt_experiments_running ON public.prompt_experiments(stage) WHERE status = 'running';
+
+ALTER TABLE public.prompt_experiments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage prompt experiments"
+ON public.prompt_experiments FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "System can read prompt experiments"
+ON public.prompt_experiments FOR SELECT
+TO service_role
+USING (true);
+
+CREATE TRIGGER update_prompt_experiments_updated_at
+BEFORE UPDATE ON public.prompt_experiments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Which variant served a call
+ALTER TABLE public.llm_calls
+    ADD COLUMN experiment_id UUID REFERENCES public.prompt_experiments(id) ON DELETE SET NULL,
+    ADD COLUMN experiment_variant TEXT CHECK (experiment_variant IN ('A', 'B'));
+
+CREATE INDEX idx_llm_calls_experiment ON public.llm_calls(experiment_id) WHERE experiment_id IS NOT NULL;
+
+-- User reactions to results of a variant, sent by the client
+CREATE TABLE public.experiment_signals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    experiment_id UUID NOT NULL REFERENCES public.prompt_experiments(id) ON DELETE CASCADE,
+    variant TEXT NOT NULL CHECK (variant IN ('A', 'B')),
+    signal TEXT NOT NULL CHECK (signal IN ('issue_relevant', 'rewrite_accepted', 'criterion_rejected')),
+    target_id TEXT,
+    story_id TEXT,
+    created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_experiment_signals_experiment ON public.experiment_signals(experiment_id);
+
+ALTER TABLE public.experiment_signals ENABLE ROW LEVEL SECURITY;
+
+-- Signals only count while the experiment runs
+CREATE POLICY "Users can record experiment signals"
+ON public.experiment_signals FOR INSERT
+TO authenticated
+WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (
+        SELECT 1 FROM public.prompt_experiments e
+        WHERE e.id = experiment_id AND e.status = 'running'
+    )
+);
+
+CREATE POLICY "Admins can view experiment signals"
+ON public.experiment_signals FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Per-variant comparison. Runs with the caller's rights, so RLS limits it to admins.
+CREATE OR REPLACE FUNCTION public.get_experiment_results(p_experiment_id UUID)
+RETURNS TABLE (
+    variant TEXT,
+    prompt_version TEXT,
+    call_count BIGINT,
+    failed_count BIGINT,
+    avg_latency_ms NUMERIC,
+    estimated_cost NUMERIC,
+    issues_marked_relevant BIGINT,
+    rewrites_accepted BIGINT,
+    criteria_rejected BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH variants AS (
+    SELECT 'A'::TEXT AS variant, e.variant_a_version AS prompt_version
+    FROM public.prompt_experiments e WHERE e.id = p_experiment_id
+    UNION ALL
+    SELECT 'B'::TEXT, e.variant_b_version
+    FROM public.prompt_experiments e WHERE e.id = p_experiment_id
+  ),
+  calls AS (
+    SELECT
+      c.experiment_variant AS variant,
+      COUNT(*) AS call_count,
+      COUNT(*) FILTER (WHERE NOT c.success) AS failed_count,
+      ROUND(AVG(c.latency_ms)) AS avg_latency_ms,
+      COALESCE(SUM(c.estimated_cost), 0) AS estimated_cost
+    FROM public.llm_calls c
+    WHERE c.experiment_id = p_experiment_id
+    GROUP BY c.experiment_variant
+  ),
+  signals AS (
+    SELECT
+      s.variant,
+      COUNT(*) FILTER (WHERE s.signal = 'issue_relevant') AS issues_marked_relevant,
+      COUNT(*) FILTER (WHERE s.signal = 'rewrite_accepted') AS rewrites_accepted,
+      COUNT(*) FILTER (WHERE s.signal = 'criterion_rejected') AS criteria_rejected
+    FROM public.experiment_signals s
+    WHERE s.experiment_id = p_experiment_id
+    GROUP BY s.variant
+  )
+  SELECT
+    v.variant,
+    v.prompt_version,
+    COALESCE(c.call_count, 0),
+    COALESCE(c.failed_count, 0),
+    c.avg_latency_ms,
+    COALESCE(c.estimated_cost, 0),
+    COALESCE(s.issues_marked_relevant, 0),
+    COALESCE(s.rewrites_accepted, 0),
+    COALESCE(s.criteria_rejected, 0)
+  FROM variants v
+  LEFT JOIN calls c ON c.variant = v.variant
+  LEFT JOIN signals s ON s.variant = v.variant
+  ORDER BY v.variant
+$$;
@@ -0,0 +1,56 @@
+-- Golden dataset for offline prompt evaluation: labelled stories with the
+-- issue categories, structure and criteria count an analysis should produce.
+CREATE TABLE public.eval_cases (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    story_text TEXT NOT NULL,
+    expected_issue_categories TEXT[] NOT NULL DEFAULT '{}',
+    expected_role TEXT,
+    expected_goal TEXT,
+    expected_benefit TEXT,
+    expected_criteria_count INTEGER CHECK (expected_criteria_count >= 0),
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.eval_cases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage eval cases"
+ON public.eval_cases FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_eval_cases_updated_at
+BEFORE UPDATE ON public.eval_cases
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One replay of the dataset. Metrics and per-case results are computed by the
+-- client and stored as a snapshot, so later edits to the cases do not change
+-- old runs.
+CREATE TABLE public.eval_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    label TEXT NOT NULL,
+    prompt_version TEXT NOT NULL,
+    model TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    case_count INTEGER NOT NULL DEFAULT 0,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    metrics JSONB NOT NULL DEFAULT '{}',
+    case_results JSONB NOT NULL DEFAULT '[]',
+    created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_eval_runs_created_at ON public.eval_runs(created_at DESC);
+
+ALTER TABLE public.eval_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage eval runs"
+ON public.eval_runs FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,41 @@
+-- Few-shot examples per stage and language. Rows without a project are the
+-- global defaults; llm-proxy picks the most relevant examples of the project
+-- and the defaults for each call.
+CREATE TABLE public.few_shot_examples (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+    stage TEXT NOT NULL CHECK (stage IN (
+        'ambiguity_analysis', 'structure_check', 'quality_check', 'acceptance_criteria',
+        'business_value', 'solution_bias', 'rewrite', 'analyze'
+    )),
+    language TEXT NOT NULL DEFAULT 'de' CHECK (language IN ('de', 'en')),
+    input TEXT NOT NULL,
+    expected_output TEXT NOT NULL,
+    explanation TEXT,
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_few_shot_examples_stage ON public.few_shot_examples(stage, language) WHERE is_active;
+CREATE INDEX idx_few_shot_examples_project ON public.few_shot_examples(project_id);
+
+ALTER TABLE public.few_shot_examples ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage few-shot examples"
+ON public.few_shot_examples FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "System can read few-shot examples"
+ON public.few_shot_examples FOR SELECT
+TO service_role
+USING (true);
+
+CREATE TRIGGER update_few_shot_examples_updated_at
+BEFORE UPDATE ON public.few_shot_examples
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
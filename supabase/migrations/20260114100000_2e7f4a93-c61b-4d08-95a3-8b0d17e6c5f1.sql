@@ -0,0 +1,76 @@
+-- Project-specific glossary and quality rules. llm-proxy adds them to the
+-- built-in vocabulary and INVEST rules for stories of the project.
+CREATE TABLE public.project_vocabulary (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    term TEXT NOT NULL,
+    definition TEXT NOT NULL,
+    synonyms TEXT[] NOT NULL DEFAULT '{}',
+    avoid_terms TEXT[] NOT NULL DEFAULT '{}',
+    created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (project_id, term)
+);
+
+CREATE TABLE public.project_quality_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    category TEXT NOT NULL DEFAULT 'other',
+    check_criteria TEXT NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES auth.users(id) DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_project_quality_rules_project ON public.project_quality_rules(project_id);
+
+ALTER TABLE public.project_vocabulary ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_quality_rules ENABLE ROW LEVEL SECURITY;
+
+-- Vocabulary
+CREATE POLICY "Admins can manage project vocabulary"
+ON public.project_vocabulary FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view vocabulary of accessible projects"
+ON public.project_vocabulary FOR SELECT
+TO anon, authenticated
+USING (public.can_access_project(auth.uid(), project_id::text));
+
+CREATE POLICY "System can read project vocabulary"
+ON public.project_vocabulary FOR SELECT
+TO service_role
+USING (true);
+
+-- Quality rules
+CREATE POLICY "Admins can manage project quality rules"
+ON public.project_quality_rules FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view quality rules of accessible projects"
+ON public.project_quality_rules FOR SELECT
+TO anon, authenticated
+USING (public.can_access_project(auth.uid(), project_id::text));
+
+CREATE POLICY "System can read project quality rules"
+ON public.project_quality_rules FOR SELECT
+TO service_role
+USING (true);
+
+CREATE TRIGGER update_project_vocabulary_updated_at
+BEFORE UPDATE ON public.project_vocabulary
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_project_quality_rules_updated_at
+BEFORE UPDATE ON public.project_quality_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,21 @@
+-- Chunking and retrieval settings per project. embed-document chunks and
+-- embeds with them, retrieve-context searches with them. Documents keep the
+-- settings they were indexed with in their metadata, so outdated ones can be
+-- indexed again.
+ALTER TABLE public.projects
+    ADD COLUMN chunk_size INTEGER NOT NULL DEFAULT 1000,
+    ADD COLUMN chunk_overlap INTEGER NOT NULL DEFAULT 200,
+    ADD COLUMN embedding_model TEXT NOT NULL DEFAULT 'text-embedding-3-small',
+    ADD COLUMN retrieval_top_k INTEGER NOT NULL DEFAULT 5,
+    ADD COLUMN retrieval_threshold REAL NOT NULL DEFAULT 0.6,
+    ADD COLUMN retrieval_reranking BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE public.projects
+    ADD CONSTRAINT projects_chunk_size_check CHECK (chunk_size BETWEEN 200 AND 4000),
+    ADD CONSTRAINT projects_chunk_overlap_check CHECK (chunk_overlap >= 0 AND chunk_overlap < chunk_size),
+    -- document_chunks.embedding is vector(1536); the text-embedding-3 models are asked for 1536 dimensions
+    ADD CONSTRAINT projects_embedding_model_check CHECK (
+        embedding_model IN ('text-embedding-3-small', 'text-embedding-3-large', 'text-embedding-ada-002')
+    ),
+    ADD CONSTRAINT projects_retrieval_top_k_check CHECK (retrieval_top_k BETWEEN 1 AND 20),
+    ADD CONSTRAINT projects_retrieval_threshold_check CHECK (retrieval_threshold >= 0 AND retrieval_threshold <= 1);
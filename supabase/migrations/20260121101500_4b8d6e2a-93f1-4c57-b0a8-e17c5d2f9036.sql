@@ -0,0 +1,101 @@
+-- Keyword search next to the vector search. Exact IDs, acronyms and field
+-- names are often missed by embeddings; the full-text index finds them.
+-- German and English stem the words, 'simple' keeps them as written.
+ALTER TABLE public.document_chunks
+    ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce(metadata->>'heading_path', '')), 'A') ||
+        setweight(to_tsvector('german', content), 'B') ||
+        setweight(to_tsvector('english', content), 'B') ||
+        setweight(to_tsvector('simple', content), 'C')
+    ) STORED;
+
+CREATE INDEX idx_document_chunks_search_vector ON public.document_chunks USING GIN (search_vector);
+
+-- Vector, keyword or hybrid search. Hybrid fuses both rankings with
+-- reciprocal rank fusion: score = 1 / (rrf_k + vector rank) + 1 / (rrf_k +
+-- keyword rank). Postgres has no BM25; ts_rank_cd with length normalization
+-- (1) and scaling to 0..1 (32) is the closest built-in ranking.
+-- Any word of the query may match, a story as query would match nothing if
+-- all of its words were required.
+CREATE OR REPLACE FUNCTION public.search_document_chunks_hybrid(
+    query_text TEXT,
+    p_project_id UUID,
+    query_embedding vector(1536) DEFAULT NULL,
+    match_threshold FLOAT DEFAULT 0.6,
+    match_count INT DEFAULT 10,
+    search_mode TEXT DEFAULT 'hybrid',
+    rrf_k INT DEFAULT 60
+)
+RETURNS TABLE (
+    id UUID,
+    document_id UUID,
+    content TEXT,
+    metadata JSONB,
+    similarity FLOAT,
+    keyword_rank FLOAT,
+    score FLOAT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH words AS (
+    SELECT string_agg(quote_literal(word), ' | ') AS terms
+    FROM unnest(tsvector_to_array(to_tsvector('simple', coalesce(query_text, '')))) AS word
+  ),
+  search_query AS (
+    SELECT
+      CASE WHEN terms IS NULL THEN NULL
+      ELSE to_tsquery('german', terms) || to_tsquery('english', terms) || to_tsquery('simple', terms)
+      END AS q
+    FROM words
+  ),
+  vector_hits AS (
+    SELECT
+      dc.id,
+      1 - (dc.embedding <=> query_embedding) AS similarity,
+      row_number() OVER (ORDER BY dc.embedding <=> query_embedding) AS rank_position
+    FROM public.document_chunks dc
+    WHERE search_mode IN ('vector', 'hybrid')
+      AND query_embedding IS NOT NULL
+      AND dc.project_id = p_project_id
+      AND 1 - (dc.embedding <=> query_embedding) > match_threshold
+    ORDER BY dc.embedding <=> query_embedding
+    LIMIT match_count * 4
+  ),
+  keyword_hits AS (
+    SELECT
+      dc.id,
+      ts_rank_cd(dc.search_vector, sq.q, 1 | 32) AS keyword_rank,
+      row_number() OVER (ORDER BY ts_rank_cd(dc.search_vector, sq.q, 1 | 32) DESC) AS rank_position
+    FROM public.document_chunks dc, search_query sq
+    WHERE search_mode IN ('keyword', 'hybrid')
+      AND sq.q IS NOT NULL
+      AND dc.project_id = p_project_id
+      AND dc.search_vector @@ sq.q
+    ORDER BY keyword_rank DESC
+    LIMIT match_count * 4
+  ),
+  fused AS (
+    SELECT
+      coalesce(v.id, k.id) AS id,
+      v.similarity,
+      k.keyword_rank,
+      coalesce(1.0 / (rrf_k + v.rank_position), 0) + coalesce(1.0 / (rrf_k + k.rank_position), 0) AS score
+    FROM vector_hits v
+    FULL OUTER JOIN keyword_hits k ON k.id = v.id
+  )
+  SELECT
+    dc.id,
+    dc.document_id,
+    dc.content,
+    dc.metadata,
+    f.similarity::FLOAT,
+    f.keyword_rank::FLOAT,
+    f.score::FLOAT
+  FROM fused f
+  JOIN public.document_chunks dc ON dc.id = f.id
+  ORDER BY f.score DESC
+  LIMIT match_count;
+$$;
@@ -0,0 +1,77 @@
+-- Projects are private until an admin makes them public. All projects were
+-- created public so far, which left them readable for every anonymous
+-- session that knew the id; they are closed as well.
+ALTER TABLE public.projects ALTER COLUMN is_public SET DEFAULT false;
+
+UPDATE public.projects SET is_public = false WHERE is_public;
+
+-- The original vector search reads chunks of any project and bypasses the
+-- policies on document_chunks. Edge functions call the search functions
+-- with the service role after checking project access.
+REVOKE EXECUTE ON FUNCTION public.search_document_chunks(vector, UUID, FLOAT, INT)
+    FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_document_chunks(vector, UUID, FLOAT, INT)
+    TO service_role;
+
+-- Members are managed by email address; auth.users is not readable for clients
+CREATE OR REPLACE FUNCTION public.get_project_members(p_project_id UUID)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    email TEXT,
+    created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can view project members';
+    END IF;
+
+    RETURN QUERY
+    SELECT m.id, m.user_id, u.email::TEXT, m.created_at
+    FROM public.project_members m
+    JOIN auth.users u ON u.id = m.user_id
+    WHERE m.project_id = p_project_id
+    ORDER BY u.email;
+END;
+$$;
+
+-- Returns the id of the membership, also when the user already was a member
+CREATE OR REPLACE FUNCTION public.add_project_member(p_project_id UUID, p_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_member_id UUID;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+        RAISE EXCEPTION 'Only admins can add project members';
+    END IF;
+
+    SELECT u.id INTO v_user_id
+    FROM auth.users u
+    WHERE lower(u.email) = lower(trim(p_email))
+    LIMIT 1;
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'No user with email %', p_email;
+    END IF;
+
+    INSERT INTO public.project_members (project_id, user_id)
+    VALUES (p_project_id, v_user_id)
+    ON CONFLICT (project_id, user_id) DO NOTHING;
+
+    SELECT m.id INTO v_member_id
+    FROM public.project_members m
+    WHERE m.project_id = p_project_id AND m.user_id = v_user_id;
+
+    RETURN v_member_id;
+END;
+$$;
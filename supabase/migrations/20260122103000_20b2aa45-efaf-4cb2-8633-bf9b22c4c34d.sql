@@ -0,0 +1,7 @@
+-- The hybrid search reads chunks of any project and bypasses the policies on
+-- document_chunks, like the original vector search. retrieve-context calls it
+-- with the service role after checking project access.
+REVOKE EXECUTE ON FUNCTION public.search_document_chunks_hybrid(TEXT, UUID, vector, FLOAT, INT, TEXT, INT)
+    FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_document_chunks_hybrid(TEXT, UUID, vector, FLOAT, INT, TEXT, INT)
+    TO service_role;
@@ -0,0 +1,88 @@
+-- A full pipeline runs one LLM call per stage but was counted as a single
+-- request. llm-proxy now passes the number of calls a request makes, and all
+-- of them have to fit into the per-minute limits.
+DROP FUNCTION public.admit_llm_request(TEXT, TEXT, TEXT, INTEGER, INTEGER, NUMERIC, INTEGER, INTEGER, NUMERIC);
+
+CREATE OR REPLACE FUNCTION public.admit_llm_request(
+    p_operation TEXT,
+    p_project_id TEXT,
+    p_client_id TEXT,
+    p_project_requests_per_minute INTEGER,
+    p_project_tokens_per_day INTEGER,
+    p_project_cost_per_day NUMERIC,
+    p_client_requests_per_minute INTEGER,
+    p_client_tokens_per_day INTEGER,
+    p_client_cost_per_day NUMERIC,
+    p_request_count INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+    admitted BOOLEAN,
+    project_requests_last_minute BIGINT,
+    project_oldest_request_at TIMESTAMP WITH TIME ZONE,
+    project_tokens_today BIGINT,
+    project_cost_today NUMERIC,
+    client_requests_last_minute BIGINT,
+    client_oldest_request_at TIMESTAMP WITH TIME ZONE,
+    client_tokens_today BIGINT,
+    client_cost_today NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    minute_start TIMESTAMP WITH TIME ZONE := now() - interval '1 minute';
+    -- Days are UTC days
+    day_start TIMESTAMP WITH TIME ZONE := date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+BEGIN
+    -- Requests of the same project or client wait for each other; the project
+    -- lock is always taken first
+    IF p_project_id IS NOT NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtext('llm_budget:project:' || p_project_id));
+    END IF;
+    PERFORM pg_advisory_xact_lock(hashtext('llm_budget:client:' || p_client_id));
+
+    SELECT COUNT(*), MIN(r.created_at)
+      INTO project_requests_last_minute, project_oldest_request_at
+      FROM public.llm_requests r
+     WHERE r.project_id = p_project_id AND r.created_at > minute_start;
+
+    SELECT COALESCE(SUM(c.total_tokens), 0), COALESCE(SUM(c.estimated_cost), 0)
+      INTO project_tokens_today, project_cost_today
+      FROM public.llm_calls c
+     WHERE c.project_id = p_project_id AND c.created_at >= day_start;
+
+    SELECT COUNT(*), MIN(r.created_at)
+      INTO client_requests_last_minute, client_oldest_request_at
+      FROM public.llm_requests r
+     WHERE r.client_id = p_client_id AND r.created_at > minute_start;
+
+    SELECT COALESCE(SUM(c.total_tokens), 0), COALESCE(SUM(c.estimated_cost), 0)
+      INTO client_tokens_today, client_cost_today
+      FROM public.llm_calls c
+     WHERE c.client_id = p_client_id AND c.created_at >= day_start;
+
+    -- A NULL limit means no limit
+    admitted := NOT (
+        COALESCE(project_requests_last_minute + p_request_count > p_project_requests_per_minute, false)
+        OR COALESCE(project_tokens_today >= p_project_tokens_per_day, false)
+        OR COALESCE(project_cost_today >= p_project_cost_per_day, false)
+        OR COALESCE(client_requests_last_minute + p_request_count > p_client_requests_per_minute, false)
+        OR COALESCE(client_tokens_today >= p_client_tokens_per_day, false)
+        OR COALESCE(client_cost_today >= p_client_cost_per_day, false)
+    );
+
+    IF admitted THEN
+        INSERT INTO public.llm_requests (operation, project_id, client_id)
+        SELECT p_operation, p_project_id, p_client_id
+          FROM generate_series(1, p_request_count);
+    END IF;
+
+    RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.admit_llm_request(TEXT, TEXT, TEXT, INTEGER, INTEGER, NUMERIC, INTEGER, INTEGER, NUMERIC, INTEGER)
+    FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.admit_llm_request(TEXT, TEXT, TEXT, INTEGER, INTEGER, NUMERIC, INTEGER, INTEGER, NUMERIC, INTEGER)
+    TO service_role;
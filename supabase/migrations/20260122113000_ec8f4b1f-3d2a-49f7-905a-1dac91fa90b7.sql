@@ -0,0 +1,115 @@
+-- Experiment signals could be inserted by any session for any variant, so
+-- the comparison in get_experiment_results was easy to skew. A signal now
+-- points to the llm_calls row whose result it reacts to; that call must have
+-- been made by the same user in the same experiment and variant.
+ALTER TABLE public.llm_calls ADD COLUMN user_id UUID;
+
+ALTER TABLE public.experiment_signals
+    ADD COLUMN call_id UUID REFERENCES public.llm_calls(id) ON DELETE CASCADE;
+
+-- One signal per reaction; earlier duplicates are dropped
+DELETE FROM public.experiment_signals s
+USING public.experiment_signals d
+WHERE s.experiment_id = d.experiment_id
+  AND s.target_id = d.target_id
+  AND s.signal = d.signal
+  AND s.created_by = d.created_by
+  AND (s.created_at, s.id) > (d.created_at, d.id);
+
+ALTER TABLE public.experiment_signals
+    ADD CONSTRAINT experiment_signals_unique_reaction UNIQUE (experiment_id, target_id, signal, created_by);
+
+-- llm_calls is not readable for users, the policy checks the call through this
+CREATE OR REPLACE FUNCTION public.is_own_experiment_call(_call_id UUID, _user_id UUID, _experiment_id UUID, _variant TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.llm_calls
+    WHERE id = _call_id
+      AND user_id = _user_id
+      AND experiment_id = _experiment_id
+      AND experiment_variant = _variant
+  )
+$$;
+
+DROP POLICY "Users can record experiment signals" ON public.experiment_signals;
+
+-- Signals only count while the experiment runs
+CREATE POLICY "Users can record experiment signals"
+ON public.experiment_signals FOR INSERT
+TO authenticated
+WITH CHECK (
+    created_by = auth.uid()
+    AND call_id IS NOT NULL
+    AND public.is_own_experiment_call(call_id, auth.uid(), experiment_id, variant)
+    AND EXISTS (
+        SELECT 1 FROM public.prompt_experiments e
+        WHERE e.id = experiment_id AND e.status = 'running'
+    )
+);
+
+-- Signals from before call_id cannot be verified and no longer count
+CREATE OR REPLACE FUNCTION public.get_experiment_results(p_experiment_id UUID)
+RETURNS TABLE (
+    variant TEXT,
+    prompt_version TEXT,
+    call_count BIGINT,
+    failed_count BIGINT,
+    avg_latency_ms NUMERIC,
+    estimated_cost NUMERIC,
+    issues_marked_relevant BIGINT,
+    rewrites_accepted BIGINT,
+    criteria_rejected BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH variants AS (
+    SELECT 'A'::TEXT AS variant, e.variant_a_version AS prompt_version
+    FROM public.prompt_experiments e WHERE e.id = p_experiment_id
+    UNION ALL
+    SELECT 'B'::TEXT, e.variant_b_version
+    FROM public.prompt_experiments e WHERE e.id = p_experiment_id
+  ),
+  calls AS (
+    SELECT
+      c.experiment_variant AS variant,
+      COUNT(*) AS call_count,
+      COUNT(*) FILTER (WHERE NOT c.success) AS failed_count,
+      ROUND(AVG(c.latency_ms)) AS avg_latency_ms,
+      COALESCE(SUM(c.estimated_cost), 0) AS estimated_cost
+    FROM public.llm_calls c
+    WHERE c.experiment_id = p_experiment_id
+    GROUP BY c.experiment_variant
+  ),
+  signals AS (
+    SELECT
+      s.variant,
+      COUNT(*) FILTER (WHERE s.signal = 'issue_relevant') AS issues_marked_relevant,
+      COUNT(*) FILTER (WHERE s.signal = 'rewrite_accepted') AS rewrites_accepted,
+      COUNT(*) FILTER (WHERE s.signal = 'criterion_rejected') AS criteria_rejected
+    FROM public.experiment_signals s
+    WHERE s.experiment_id = p_experiment_id AND s.call_id IS NOT NULL
+    GROUP BY s.variant
+  )
+  SELECT
+    v.variant,
+    v.prompt_version,
+    COALESCE(c.call_count, 0),
+    COALESCE(c.failed_count, 0),
+    c.avg_latency_ms,
+    COALESCE(c.estimated_cost, 0),
+    COALESCE(s.issues_marked_relevant, 0),
+    COALESCE(s.rewrites_accepted, 0),
+    COALESCE(s.criteria_rejected, 0)
+  FROM variants v
+  LEFT JOIN calls c ON c.variant = v.variant
+  LEFT JOIN signals s ON s.variant = v.variant
+  ORDER BY v.variant
+$$;